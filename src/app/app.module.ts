@@ -7,6 +7,9 @@ import { SharedModule } from '../core/shared/shared.module';
 import { MessagingModule } from '../core/messaging/messaging.module';
 import { ChatModule } from '../modules/chat/chat.module';
 import { AuthModule } from '../modules/auth/auth.module';
+import { WebhooksModule } from '../modules/webhooks/webhooks.module';
+import { EventsModule } from '../modules/events/events.module';
+import { TopicAclModule } from '../libs/messaging/acl';
 
 @Module({
   imports: [
@@ -17,9 +20,19 @@ import { AuthModule } from '../modules/auth/auth.module';
       cache: true,
     }),
     SharedModule,
+    TopicAclModule.forRoot({
+      rules: [
+        // Per-user channels only admit their own user
+        { pattern: 'user-{userId}', userParam: 'userId' },
+        { pattern: 'private-user-{userId}', userParam: 'userId' },
+        { pattern: 'admin-*', roles: ['admin'] },
+      ],
+    }),
     MessagingModule,
     ChatModule,
     AuthModule,
+    WebhooksModule,
+    EventsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
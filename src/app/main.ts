@@ -7,7 +7,10 @@ const logger = new Logger('Bootstrap');
 
 async function bootstrap() {
   try {
-    const app = await NestFactory.create(AppModule);
+    const app = await NestFactory.create(AppModule, {
+      // Inbound webhook signatures are verified against the raw body
+      rawBody: true,
+    });
     
     app.useGlobalPipes(new ValidationPipe({
       transform: true,
@@ -15,6 +18,9 @@ async function bootstrap() {
       forbidNonWhitelisted: true,
     }));
 
+    // Lets open SSE streams close with a retry hint when the process is stopped
+    app.enableShutdownHooks();
+
     app.enableCors();
     
     const port = process.env.PORT || 3000;
@@ -8,6 +8,7 @@ import helmet from 'helmet';
 import compression from 'compression';
 import { json, urlencoded } from 'express';
 import CircuitBreaker from 'opossum';
+import { redactUrl } from '../core/common/log-redaction';
 
 const logger = new Logger('Serverless');
 
@@ -114,7 +115,13 @@ async function bootstrap(): Promise<Server> {
       });
 
       // Parsing
-      app.use(json({ limit: '10mb' }));
+      app.use(json({
+        limit: '10mb',
+        // Inbound webhook signatures are verified against the raw body
+        verify: (req: express.Request & { rawBody?: Buffer }, _res, buf) => {
+          req.rawBody = buf;
+        },
+      }));
       app.use(urlencoded({ extended: true, limit: '10mb' }));
 
       // Add request ID middleware
@@ -168,7 +175,7 @@ async function bootstrap(): Promise<Server> {
             error: err,
             correlationId: req.headers['x-correlation-id'],
             requestId: req.headers['x-request-id'],
-            url: req.url,
+            url: redactUrl(req.url),
             method: req.method,
           });
 
@@ -241,7 +248,7 @@ export default async function handler(req: express.Request, res: express.Respons
     }
 
     // Log request
-    logger.debug(`Incoming ${req.method} request to ${req.url}`, {
+    logger.debug(`Incoming ${req.method} request to ${redactUrl(req.url)}`, {
       correlationId: req.headers['x-correlation-id'],
       requestId: req.headers['x-request-id'],
     });
@@ -275,7 +282,7 @@ export default async function handler(req: express.Request, res: express.Respons
       error,
       correlationId: req.headers['x-correlation-id'],
       requestId: req.headers['x-request-id'],
-      url: req.url,
+      url: redactUrl(req.url),
       method: req.method,
     });
 
@@ -8,6 +8,7 @@ import {
 } from '@nestjs/common';
 import { Request, Response } from 'express';
 import { randomUUID } from 'crypto';
+import { redactUrl, redactQuery } from '../../core/common/log-redaction';
 
 @Catch()
 export class AllExceptionsFilter implements ExceptionFilter {
@@ -32,7 +33,7 @@ export class AllExceptionsFilter implements ExceptionFilter {
     const errorResponse = {
       statusCode: status,
       timestamp: new Date().toISOString(),
-      path: request.url,
+      path: redactUrl(request.url),
       message,
       correlationId,
       ...(process.env.NODE_ENV !== 'production' && {
@@ -45,10 +46,10 @@ export class AllExceptionsFilter implements ExceptionFilter {
       {
         exception,
         request: {
-          url: request.url,
+          url: redactUrl(request.url),
           method: request.method,
           headers: request.headers,
-          query: request.query,
+          query: redactQuery(request.query),
           body: request.body,
         },
         timestamp: new Date().toISOString(),
@@ -0,0 +1,25 @@
+import { redactQuery, redactUrl } from './log-redaction';
+
+describe('log redaction', () => {
+  it('should mask credential query parameters in request urls', () => {
+    expect(redactUrl('/events/stream?topics=alerts&access_token=secret')).toBe(
+      '/events/stream?topics=alerts&access_token=***'
+    );
+    expect(redactUrl('https://api.example.com/hook?token=abc#top')).toBe(
+      'https://api.example.com/hook?token=***#top'
+    );
+  });
+
+  it('should leave other urls untouched', () => {
+    expect(redactUrl('/events/stream?topics=a%20b')).toBe('/events/stream?topics=a%20b');
+    expect(redactUrl('/health')).toBe('/health');
+    expect(redactUrl(undefined)).toBeUndefined();
+  });
+
+  it('should mask credential query values', () => {
+    expect(redactQuery({ access_token: 'secret', topics: 'alerts' })).toEqual({
+      access_token: '***',
+      topics: 'alerts',
+    });
+  });
+});
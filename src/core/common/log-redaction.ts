@@ -0,0 +1,39 @@
+// Query parameters that carry credentials, e.g. the SSE `access_token` fallback
+const SENSITIVE_QUERY_PARAMS = ['access_token', 'token', 'api_key'];
+const REDACTED = '***';
+
+/**
+ * Masks credential query parameters in a request URL before it is logged.
+ * Works on both absolute URLs and the path-plus-query form of `request.url`.
+ */
+export function redactUrl(url: string | undefined): string | undefined {
+  if (!url || !url.includes('?')) return url;
+
+  const queryStart = url.indexOf('?');
+  const fragmentStart = url.indexOf('#', queryStart);
+  const end = fragmentStart === -1 ? url.length : fragmentStart;
+  const params = new URLSearchParams(url.slice(queryStart + 1, end));
+
+  let redacted = false;
+  for (const name of SENSITIVE_QUERY_PARAMS) {
+    if (params.has(name)) {
+      params.set(name, REDACTED);
+      redacted = true;
+    }
+  }
+  if (!redacted) return url;
+
+  return `${url.slice(0, queryStart)}?${params.toString()}${url.slice(end)}`;
+}
+
+export function redactQuery<T extends Record<string, unknown> | undefined>(query: T): T {
+  if (!query) return query;
+
+  const sanitized: Record<string, unknown> = { ...query };
+  for (const name of SENSITIVE_QUERY_PARAMS) {
+    if (name in sanitized) {
+      sanitized[name] = REDACTED;
+    }
+  }
+  return sanitized as T;
+}
@@ -5,10 +5,15 @@ import { RedisService } from '../shared/services/redis.service';
 export abstract class RedisStorage<T> {
   constructor(protected readonly redisService: RedisService) {}
 
+  // Upstash deserializes JSON values itself, so they may arrive parsed
+  private parse(value: unknown): T {
+    return typeof value === 'string' ? JSON.parse(value) : (value as T);
+  }
+
   protected async get(key: string): Promise<T | null> {
     try {
       const value = await this.redisService.get(key);
-      return value ? JSON.parse(value) : null;
+      return value ? this.parse(value) : null;
     } catch {
       return null;
     }
@@ -48,8 +53,8 @@ export abstract class RedisStorage<T> {
       );
 
       return values
-        .filter((value: unknown): value is string => value !== null)
-        .map(value => JSON.parse(value));
+        .filter(value => value !== null)
+        .map(value => this.parse(value));
     } catch {
       return [];
     }
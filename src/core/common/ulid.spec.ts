@@ -0,0 +1,52 @@
+import { createUlidGenerator, decodeUlidTime, isUlid, ulid, ulidLowerBound } from './ulid';
+
+describe('ulid', () => {
+  const now = 1700000000000;
+
+  it('should generate 26 character ids that encode their timestamp', () => {
+    const id = ulid(now);
+
+    expect(isUlid(id)).toBe(true);
+    expect(id).toHaveLength(26);
+    expect(decodeUlidTime(id)).toBe(now);
+  });
+
+  it('should sort ids by time', () => {
+    const generate = createUlidGenerator();
+    const ids = [generate(now), generate(now + 1), generate(now + 1000)];
+
+    expect([...ids].sort()).toEqual(ids);
+  });
+
+  it('should stay ordered and unique within one millisecond', () => {
+    const generate = createUlidGenerator();
+    const ids = Array.from({ length: 1000 }, () => generate(now));
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect([...ids].sort()).toEqual(ids);
+  });
+
+  it('should keep ordering when the clock goes backwards', () => {
+    const generate = createUlidGenerator();
+    const first = generate(now);
+    const second = generate(now - 5);
+
+    expect(second > first).toBe(true);
+    expect(decodeUlidTime(second)).toBe(now);
+  });
+
+  it('should bound every id from a millisecond onwards', () => {
+    const bound = ulidLowerBound(now);
+
+    expect(createUlidGenerator()(now) >= bound).toBe(true);
+    expect(createUlidGenerator()(now - 1) < bound).toBe(true);
+    expect(decodeUlidTime(bound)).toBe(now);
+  });
+
+  it('should reject malformed ids', () => {
+    expect(isUlid('1700000000000')).toBe(false);
+    expect(isUlid('01ARZ3NDEKTSV4RRFFQ69G5FAU')).toBe(false);
+    expect(isUlid('81ARZ3NDEKTSV4RRFFQ69G5FAV')).toBe(false);
+    expect(() => decodeUlidTime('nope')).toThrow('Invalid ULID');
+  });
+});
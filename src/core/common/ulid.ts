@@ -0,0 +1,88 @@
+import { randomBytes } from 'crypto';
+
+// Crockford's base32, which sorts in the same order as the values it encodes
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 16;
+const MAX_TIME = 2 ** 48 - 1;
+const ULID_PATTERN = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/;
+
+function encodeTime(time: number): string {
+  if (!Number.isInteger(time) || time < 0 || time > MAX_TIME) {
+    throw new RangeError(`Cannot encode ${time} as a ULID timestamp`);
+  }
+
+  let remaining = time;
+  let encoded = '';
+  for (let index = 0; index < TIME_LENGTH; index++) {
+    encoded = ENCODING[remaining % 32] + encoded;
+    remaining = Math.floor(remaining / 32);
+  }
+  return encoded;
+}
+
+function encodeRandom(): number[] {
+  return Array.from(randomBytes(RANDOM_LENGTH), byte => byte % 32);
+}
+
+/**
+ * Adds one to the base32 digits in place. Returns false when they were
+ * already all at the maximum.
+ */
+function increment(digits: number[]): boolean {
+  for (let index = digits.length - 1; index >= 0; index--) {
+    if (digits[index] < 31) {
+      digits[index]++;
+      return true;
+    }
+    digits[index] = 0;
+  }
+  return false;
+}
+
+export type UlidGenerator = (now?: number) => string;
+
+/**
+ * Returns a ULID generator: 48 bits of millisecond timestamp followed by 80
+ * random bits, as 26 characters that sort by creation time. Ids made by one
+ * generator in the same millisecond, or while the clock runs backwards,
+ * increment the previous id's random part, so they still sort in order.
+ */
+export function createUlidGenerator(): UlidGenerator {
+  let lastTime = -1;
+  let lastRandom: number[] = [];
+
+  return (now: number = Date.now()) => {
+    if (now > lastTime) {
+      lastTime = now;
+      lastRandom = encodeRandom();
+    } else if (!increment(lastRandom)) {
+      throw new Error('ULID random component overflowed within one millisecond');
+    }
+    return encodeTime(lastTime) + lastRandom.map(digit => ENCODING[digit]).join('');
+  };
+}
+
+export const ulid = createUlidGenerator();
+
+export function isUlid(value: string): boolean {
+  return ULID_PATTERN.test(value);
+}
+
+export function decodeUlidTime(id: string): number {
+  if (!isUlid(id)) {
+    throw new Error(`Invalid ULID: ${id}`);
+  }
+  return id
+    .slice(0, TIME_LENGTH)
+    .split('')
+    .reduce((time, char) => time * 32 + ENCODING.indexOf(char), 0);
+}
+
+/**
+ * The smallest ULID for a millisecond. Every id generated at or after
+ * `time` sorts at or after it, so it works as a range bound.
+ */
+export function ulidLowerBound(time: number): string {
+  return encodeTime(Math.max(0, Math.min(Math.floor(time), MAX_TIME))) + '0'.repeat(RANDOM_LENGTH);
+}
@@ -96,6 +96,12 @@ class EnvironmentVariables {
   @IsString()
   COOKIE_SECRET?: string;
 
+  // Messaging Configuration
+  // Default history retention; channels can override it at runtime
+  @IsOptional()
+  @IsNumber()
+  MESSAGE_RETENTION_SECONDS?: number = 3600;
+
   // Test Configuration
   @IsOptional()
   @IsNumber()
@@ -7,6 +7,7 @@ import {
   Logger,
 } from '@nestjs/common';
 import { Request, Response } from 'express';
+import { redactUrl } from '../common/log-redaction';
 
 @Catch()
 export class HttpExceptionFilter implements ExceptionFilter {
@@ -35,7 +36,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
     const responseBody = {
       statusCode: status,
       timestamp: new Date().toISOString(),
-      path: request.url,
+      path: redactUrl(request.url),
       method: request.method,
       correlationId: request.headers['x-correlation-id'],
       requestId: request.headers['x-request-id'],
@@ -56,7 +57,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
 
     // Log the error
     this.logger.error(
-      `Request failed: ${request.method} ${request.url}`,
+      `Request failed: ${request.method} ${redactUrl(request.url)}`,
       {
         statusCode: status,
         correlationId: request.headers['x-correlation-id'],
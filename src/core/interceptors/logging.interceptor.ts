@@ -8,6 +8,7 @@ import {
 import { Observable } from 'rxjs';
 import { tap } from 'rxjs/operators';
 import { v4 as uuidv4 } from 'uuid';
+import { redactUrl, redactQuery } from '../common/log-redaction';
 
 @Injectable()
 export class LoggingInterceptor implements NestInterceptor {
@@ -15,7 +16,10 @@ export class LoggingInterceptor implements NestInterceptor {
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
     const request = context.switchToHttp().getRequest();
-    const { method, url, body, headers, query, params } = request;
+    const { method, body, headers, params } = request;
+    // Tokens passed as query parameters (SSE) must not end up in logs
+    const url = redactUrl(request.url);
+    const query = redactQuery(request.query);
     const correlationId = headers['x-correlation-id'] || uuidv4();
     const requestId = headers['x-request-id'] || uuidv4();
     const userAgent = headers['user-agent'];
@@ -0,0 +1,130 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { MessagingController } from './messaging.controller';
+import { MessagingService } from '../services/messaging.service';
+import { RequestWithUser } from '../../../modules/auth/middleware/auth.middleware';
+import { TopicAclService } from '../../../libs/messaging/acl';
+import { ulid } from '../../common/ulid';
+
+const request = (id: string, roles: string[] = []) =>
+  ({ user: { id, app_metadata: { roles } } }) as unknown as RequestWithUser;
+
+describe('MessagingController', () => {
+  let messagingService: {
+    sendMessage: jest.Mock;
+    getMessages: jest.Mock;
+    getChannelRetention: jest.Mock;
+    setChannelRetention: jest.Mock;
+  };
+  let controller: MessagingController;
+
+  beforeEach(() => {
+    messagingService = {
+      sendMessage: jest.fn(async message => ({ id: ulid(), ...message })),
+      getMessages: jest.fn().mockResolvedValue({ messages: [], hasMore: false }),
+      getChannelRetention: jest.fn().mockResolvedValue(3600),
+      setChannelRetention: jest.fn(async (_channel: string, seconds: number) => seconds),
+    };
+    const topicAcl = new TopicAclService({
+      rules: [
+        { pattern: 'user-{userId}', userParam: 'userId' },
+        {
+          pattern: 'chat-room-{roomId}',
+          check: ({ subject }) => subject.userId === 'member',
+        },
+      ],
+    });
+    controller = new MessagingController(
+      messagingService as unknown as MessagingService,
+      topicAcl
+    );
+  });
+
+  describe('sendMessage', () => {
+    it('should send as the signed-in user and pass the client message id as an option', async () => {
+      await controller.sendMessage(request('u1'), {
+        channel: 'general',
+        content: 'hi',
+        clientMessageId: 'c1',
+      });
+
+      expect(messagingService.sendMessage).toHaveBeenCalledWith(
+        { channel: 'general', content: 'hi', userId: 'u1' },
+        { clientMessageId: 'c1' }
+      );
+    });
+
+    it('should refuse chat room channels, even for members', async () => {
+      await expect(
+        controller.sendMessage(request('member'), { channel: 'chat-room-1', content: 'hi' })
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(messagingService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should refuse channels the user may not subscribe to', async () => {
+      await expect(
+        controller.sendMessage(request('u1'), { channel: 'user-u2', content: 'hi' })
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      await controller.sendMessage(request('u2'), { channel: 'user-u2', content: 'hi' });
+      expect(messagingService.sendMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getChannelMessages', () => {
+    it('should pass a valid cursor through', async () => {
+      const before = ulid();
+
+      await controller.getChannelMessages(request('u1'), 'general', 20, before);
+
+      expect(messagingService.getMessages).toHaveBeenCalledWith('general', {
+        before,
+        after: undefined,
+        limit: 20,
+      });
+    });
+
+    it('should reject cursors that are not message ids', async () => {
+      await expect(
+        controller.getChannelMessages(request('u1'), 'general', 20, 'not-an-id')
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        controller.getChannelMessages(request('u1'), 'general', 20, undefined, '123')
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(messagingService.getMessages).not.toHaveBeenCalled();
+    });
+
+    it('should reject before and after together', async () => {
+      await expect(
+        controller.getChannelMessages(request('u1'), 'general', 20, ulid(), ulid())
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('should only show room history to members', async () => {
+      await expect(
+        controller.getChannelMessages(request('outsider'), 'chat-room-1', 20)
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(
+        controller.getChannelRetention(request('outsider'), 'chat-room-1')
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      await controller.getChannelMessages(request('member'), 'chat-room-1', 20);
+      expect(messagingService.getMessages).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('setChannelRetention', () => {
+    it('should only let admins change retention', async () => {
+      await expect(
+        controller.setChannelRetention(request('member'), 'chat-room-1', { seconds: 600 })
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(messagingService.setChannelRetention).not.toHaveBeenCalled();
+
+      const result = await controller.setChannelRetention(
+        request('ops', ['admin']),
+        'chat-room-1',
+        { seconds: 600 }
+      );
+      expect(result.data).toEqual({ channel: 'chat-room-1', seconds: 600 });
+    });
+  });
+});
@@ -1,34 +1,120 @@
 import { 
   Controller, 
   Post, 
+  Put,
   Body, 
   Get, 
   Param, 
   Query,
+  Request,
+  Optional,
   ValidationPipe, 
   HttpCode, 
-  HttpStatus 
+  HttpStatus,
+  ParseIntPipe,
+  DefaultValuePipe,
+  BadRequestException,
+  ForbiddenException
 } from '@nestjs/common';
-import { MessagingService, Message } from '../services/messaging.service';
+import { MessagingService } from '../services/messaging.service';
+import { ChannelRetentionDto, SendMessageDto } from '../dto/message.dto';
+import { isUlid } from '../../common/ulid';
+import { RequestWithUser } from '../../../modules/auth/middleware/auth.middleware';
+import { TopicAclService, createTopicAclSubject } from '../../../libs/messaging/acl';
+
+// Chat rooms have their own send route, which checks bans and archiving
+const CHAT_ROOM_CHANNEL_PREFIX = 'chat-room-';
 
 @Controller('messaging')
 export class MessagingController {
-  constructor(private readonly messagingService: MessagingService) {}
+  constructor(
+    private readonly messagingService: MessagingService,
+    @Optional() private readonly topicAcl?: TopicAclService
+  ) {}
+
+  /**
+   * Channels can be read from and sent to by whoever may subscribe to them,
+   * so chat rooms stay limited to their members.
+   */
+  private async assertChannelAccess(req: RequestWithUser, channel: string, action: 'read' | 'send') {
+    if (!this.topicAcl) return;
+
+    const decision = await this.topicAcl.authorize(createTopicAclSubject(req.user), channel);
+    if (!decision.allowed) {
+      throw new ForbiddenException(`Not allowed to ${action} ${channel}`);
+    }
+  }
 
   @Post('send')
   @HttpCode(HttpStatus.OK)
-  async sendMessage(@Body(ValidationPipe) message: Partial<Message>) {
-    const result = await this.messagingService.sendMessage(message);
+  async sendMessage(
+    @Request() req: RequestWithUser,
+    @Body(ValidationPipe) sendMessageDto: SendMessageDto
+  ) {
+    const { clientMessageId, ...message } = sendMessageDto;
+    if (message.channel.startsWith(CHAT_ROOM_CHANNEL_PREFIX)) {
+      throw new ForbiddenException('Send chat room messages with POST /chat/messages');
+    }
+    await this.assertChannelAccess(req, message.channel, 'send');
+
+    const result = await this.messagingService.sendMessage(
+      { ...message, userId: req.user.id },
+      { clientMessageId }
+    );
     return { success: true, data: result };
   }
 
   @Get('channels/:channel/messages')
   async getChannelMessages(
+    @Request() req: RequestWithUser,
     @Param('channel') channel: string,
-    @Query('limit') limit?: number,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @Query('before') before?: string,
+    @Query('after') after?: string,
   ) {
-    const messages = await this.messagingService.getMessages(channel, limit);
-    return { success: true, data: messages };
+    if (before !== undefined && after !== undefined) {
+      throw new BadRequestException('Use either before or after, not both');
+    }
+    const cursor = before ?? after;
+    if (cursor !== undefined && !isUlid(cursor)) {
+      throw new BadRequestException('before and after must be message ids');
+    }
+    await this.assertChannelAccess(req, channel, 'read');
+
+    const page = await this.messagingService.getMessages(channel, { before, after, limit });
+    return {
+      success: true,
+      data: page.messages,
+      meta: {
+        limit,
+        hasMore: page.hasMore,
+        before: page.before,
+        after: page.after,
+      },
+    };
+  }
+
+  @Get('channels/:channel/retention')
+  async getChannelRetention(@Request() req: RequestWithUser, @Param('channel') channel: string) {
+    await this.assertChannelAccess(req, channel, 'read');
+
+    const seconds = await this.messagingService.getChannelRetention(channel);
+    return { success: true, data: { channel, seconds } };
+  }
+
+  // Room owners change their room's retention through the chat module
+  @Put('channels/:channel/retention')
+  async setChannelRetention(
+    @Request() req: RequestWithUser,
+    @Param('channel') channel: string,
+    @Body(ValidationPipe) retentionDto: ChannelRetentionDto,
+  ) {
+    if (!createTopicAclSubject(req.user).roles?.includes('admin')) {
+      throw new ForbiddenException('Only admins can change channel retention');
+    }
+
+    const seconds = await this.messagingService.setChannelRetention(channel, retentionDto.seconds);
+    return { success: true, data: { channel, seconds } };
   }
 
   @Get('channels')
@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsObject, ValidateNested } from 'class-validator';
+import { IsString, IsOptional, IsObject, IsInt, Min, MaxLength, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class MessageDto {
@@ -41,4 +41,33 @@ export class StatusUpdateDto extends MessageDto {
     status: string;
     [key: string]: any;
   };
-} 
\ No newline at end of file
+} 
+
+export class ChannelRetentionDto {
+  // Seconds messages are kept in the channel's history
+  @IsInt()
+  @Min(60)
+  seconds: number;
+}
+
+export class SendMessageDto {
+  @IsString()
+  channel: string;
+
+  @IsString()
+  @IsOptional()
+  event?: string;
+
+  @IsString()
+  content: string;
+
+  @IsObject()
+  @IsOptional()
+  metadata?: Record<string, any>;
+
+  // Retries that reuse it return the first message instead of sending again
+  @IsString()
+  @MaxLength(128)
+  @IsOptional()
+  clientMessageId?: string;
+}
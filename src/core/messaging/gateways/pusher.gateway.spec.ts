@@ -0,0 +1,114 @@
+import { Server, Socket } from 'socket.io';
+import { PusherGateway } from './pusher.gateway';
+import { MessagingService } from '../services/messaging.service';
+import { AuthService } from '../../../modules/auth/services/auth.service';
+import { TopicAclService } from '../../../libs/messaging/acl';
+
+type Middleware = (client: Socket, next: (error?: Error) => void) => void;
+
+const createSocket = (token?: string) =>
+  ({
+    id: 'socket-1',
+    handshake: { auth: token ? { token } : {} },
+    data: {},
+    emit: jest.fn(),
+    join: jest.fn(),
+    leave: jest.fn(),
+  }) as unknown as Socket & { emit: jest.Mock; join: jest.Mock };
+
+describe('PusherGateway', () => {
+  let authService: { verifySession: jest.Mock };
+  let messagingService: { authenticateChannel: jest.Mock; handleUserJoin: jest.Mock };
+  let gateway: PusherGateway;
+  let middleware: Middleware;
+
+  // Runs the socket through the connection middleware, resolving with what it passed to next
+  const connect = (client: Socket) =>
+    new Promise<Error | undefined>(resolve => middleware(client, resolve));
+
+  beforeEach(() => {
+    authService = {
+      verifySession: jest.fn(async (token: string) => {
+        if (token !== 'valid') throw new Error('jwt malformed');
+        return { id: 'u1', app_metadata: {} };
+      }),
+    };
+    messagingService = {
+      authenticateChannel: jest.fn().mockResolvedValue({ auth: 'signature' }),
+      handleUserJoin: jest.fn().mockResolvedValue(undefined),
+    };
+    const topicAcl = new TopicAclService({
+      rules: [{ pattern: 'user-{userId}', userParam: 'userId' }],
+    });
+    gateway = new PusherGateway(
+      messagingService as unknown as MessagingService,
+      authService as unknown as AuthService,
+      topicAcl
+    );
+    gateway.afterInit({ use: (fn: Middleware) => (middleware = fn) } as unknown as Server);
+  });
+
+  describe('connection', () => {
+    it('should accept a valid token and subscribe as that user', async () => {
+      const client = createSocket('valid');
+
+      expect(await connect(client)).toBeUndefined();
+      expect(client.data.subject).toEqual({ userId: 'u1', roles: [] });
+    });
+
+    it('should refuse the connection for an invalid token', async () => {
+      const client = createSocket('forged');
+
+      const error = await connect(client);
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error?.message).toBe('Invalid token');
+      expect(client.data.subject).toBeUndefined();
+    });
+
+    it('should accept anonymous sockets', async () => {
+      const client = createSocket();
+
+      expect(await connect(client)).toBeUndefined();
+      expect(authService.verifySession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleSubscribe', () => {
+    it('should subscribe to a topic the ACL allows', async () => {
+      const client = createSocket('valid');
+      await connect(client);
+
+      await gateway.handleSubscribe(client, { channel: 'user-u1' });
+
+      expect(client.emit).toHaveBeenCalledWith('subscription_succeeded', { channel: 'user-u1' });
+      expect(client.join).toHaveBeenCalledWith('user-u1');
+    });
+
+    it("should refuse another user's topic", async () => {
+      const client = createSocket('valid');
+      await connect(client);
+
+      await gateway.handleSubscribe(client, { channel: 'user-u2' });
+
+      expect(client.emit).toHaveBeenCalledWith('subscription_error', {
+        channel: 'user-u2',
+        error: 'Not allowed to subscribe to user-u2',
+      });
+      expect(client.join).not.toHaveBeenCalled();
+    });
+
+    it('should refuse user topics to anonymous sockets', async () => {
+      const client = createSocket();
+      await connect(client);
+
+      await gateway.handleSubscribe(client, { channel: 'user-u1' });
+
+      expect(client.emit).toHaveBeenCalledWith(
+        'subscription_error',
+        expect.objectContaining({ channel: 'user-u1' })
+      );
+      expect(client.join).not.toHaveBeenCalled();
+    });
+  });
+});
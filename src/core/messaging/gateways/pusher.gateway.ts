@@ -4,11 +4,20 @@ import {
   SubscribeMessage,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
   ConnectedSocket,
   MessageBody,
 } from '@nestjs/websockets';
+import { Optional } from '@nestjs/common';
 import { Server, Socket } from 'socket.io';
 import { MessagingService } from '../services/messaging.service';
+import { AuthService } from '../../../modules/auth/services/auth.service';
+import {
+  TopicAclService,
+  TopicAclSubject,
+  TopicAccessDeniedError,
+  createTopicAclSubject,
+} from '../../../libs/messaging/acl';
 
 interface StatusUpdateDto {
   userId: string;
@@ -20,15 +29,42 @@ interface StatusUpdateDto {
     origin: '*',
   },
 })
-export class PusherGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class PusherGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect {
   @WebSocketServer()
   server: Server;
 
   private readonly connectedClients = new Map<string, Set<string>>();
 
-  constructor(private readonly messagingService: MessagingService) {}
+  constructor(
+    private readonly messagingService: MessagingService,
+    private readonly authService: AuthService,
+    @Optional() private readonly topicAcl?: TopicAclService
+  ) {}
+
+  afterInit(server: Server) {
+    // Runs before the connection is accepted, so no event can arrive ahead of the check
+    server.use((client, next) => {
+      this.authenticate(client).then(() => next(), next);
+    });
+  }
+
+  /**
+   * Sockets that send a session token are checked against the topic ACL as
+   * that user; an invalid token refuses the connection.
+   */
+  async authenticate(client: Socket): Promise<void> {
+    const token = client.handshake.auth?.token;
+    if (!token) return;
 
-  async handleConnection(client: Socket) {
+    try {
+      const user = await this.authService.verifySession(token);
+      client.data.subject = createTopicAclSubject(user);
+    } catch (error) {
+      throw new Error('Invalid token');
+    }
+  }
+
+  handleConnection(client: Socket) {
     console.log(`Client connected: ${client.id}`);
   }
 
@@ -44,6 +80,7 @@ export class PusherGateway implements OnGatewayConnection, OnGatewayDisconnect {
   ) {
     try {
       const { channel, userId } = data;
+      await this.assertTopicAccess(client, channel);
 
       if (channel.startsWith('presence-') && userId) {
         const authResponse = await this.messagingService.authenticateChannel(client.id, channel, userId);
@@ -114,6 +151,16 @@ export class PusherGateway implements OnGatewayConnection, OnGatewayDisconnect {
     }
   }
 
+  private async assertTopicAccess(client: Socket, channel: string) {
+    if (!this.topicAcl) return;
+
+    const subject: TopicAclSubject = client.data.subject ?? {};
+    const decision = await this.topicAcl.authorize(subject, channel);
+    if (!decision.allowed) {
+      throw new TopicAccessDeniedError(`Not allowed to subscribe to ${channel}`, [channel]);
+    }
+  }
+
   private addClientSubscription(clientId: string, channel: string) {
     if (!this.connectedClients.has(clientId)) {
       this.connectedClients.set(clientId, new Set());
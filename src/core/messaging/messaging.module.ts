@@ -1,6 +1,8 @@
-import { Module } from '@nestjs/common';
+import { Module, NestModule, MiddlewareConsumer, RequestMethod } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { SharedModule } from '../shared/shared.module';
+import { AuthModule } from '../../modules/auth/auth.module';
+import { AuthMiddleware } from '../../modules/auth/middleware/auth.middleware';
 import { PusherService } from './services/pusher.service';
 import { MessagingService } from './services/messaging.service';
 import { MessagingController } from './controllers/messaging.controller';
@@ -10,6 +12,7 @@ import { PusherGateway } from './gateways/pusher.gateway';
   imports: [
     ConfigModule,
     SharedModule,
+    AuthModule,
   ],
   providers: [
     PusherService,
@@ -19,4 +22,14 @@ import { PusherGateway } from './gateways/pusher.gateway';
   controllers: [MessagingController],
   exports: [MessagingService]
 })
-export class MessagingModule {} 
\ No newline at end of file
+export class MessagingModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(AuthMiddleware)
+      .forRoutes(
+        { path: 'messaging/send', method: RequestMethod.POST },
+        { path: 'messaging/channels/:channel/messages', method: RequestMethod.GET },
+        { path: 'messaging/channels/:channel/retention', method: RequestMethod.ALL }
+      );
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,402 @@
+import { ConfigService } from '@nestjs/config';
+import { MessagingService } from './messaging.service';
+import { PusherService } from './pusher.service';
+import { RedisService } from '../../shared/services/redis.service';
+
+const inLexRange = (member: string, min: string, max: string) => {
+  const aboveMin =
+    min === '-' || (min.startsWith('[') ? member >= min.slice(1) : member > min.slice(1));
+  const belowMax =
+    max === '+' || (max.startsWith('[') ? member <= max.slice(1) : member < max.slice(1));
+  return aboveMin && belowMax;
+};
+
+const createRedisMock = () => {
+  const values = new Map<string, any>();
+  const hashes = new Map<string, Record<string, any>>();
+  const sortedSets = new Map<string, Set<string>>();
+  const lists = new Map<string, any[]>();
+
+  return {
+    values,
+    sortedSets,
+    lists,
+    get: jest.fn(async (key: string) => values.get(key) ?? null),
+    setnx: jest.fn(async (key: string, value: any) => {
+      if (values.has(key)) return false;
+      values.set(key, value);
+      return true;
+    }),
+    setxx: jest.fn(async (key: string, value: any) => {
+      if (!values.has(key)) return false;
+      values.set(key, value);
+      return true;
+    }),
+    del: jest.fn(async (key: string) => values.delete(key) || lists.delete(key)),
+    // Stands in for the edit and tombstone scripts, which run atomically
+    eval: jest.fn(async (script: string, [messageKey, editsKey]: string[], args: any[]) => {
+      const message = values.get(messageKey);
+      if (!message || JSON.parse(message).deletedAt) return 0;
+      const edits = lists.get(editsKey) ?? [];
+      if (script.includes('LPUSH')) {
+        lists.set(editsKey, [args[0], ...edits]);
+        return 1;
+      }
+      if (edits.length !== Number(args[1])) return -1;
+      values.set(messageKey, args[0]);
+      lists.delete(editsKey);
+      return 1;
+    }),
+    lrange: jest.fn(async (key: string, start: number, stop: number) =>
+      (lists.get(key) ?? []).slice(start, stop === -1 ? undefined : stop + 1)
+    ),
+    hset: jest.fn(async (key: string, value: Record<string, any>) => {
+      hashes.set(key, { ...hashes.get(key), ...value });
+      return true;
+    }),
+    hget: jest.fn(async (key: string, field: string) => hashes.get(key)?.[field] ?? null),
+    expire: jest.fn(async () => true),
+    zadd: jest.fn(async (key: string, _score: number, member: string) => {
+      sortedSets.set(key, (sortedSets.get(key) ?? new Set()).add(member));
+      return true;
+    }),
+    zrangebylex: jest.fn(
+      async (key: string, min: string, max: string, limit?: number, rev = false) => {
+        const members = Array.from(sortedSets.get(key) ?? [])
+          .filter(member => inLexRange(member, min, max))
+          .sort();
+        if (rev) members.reverse();
+        return limit ? members.slice(0, limit) : members;
+      }
+    ),
+    zremrangebylex: jest.fn(async (key: string, min: string, max: string) => {
+      const members = sortedSets.get(key) ?? new Set<string>();
+      const removed = Array.from(members).filter(member => inLexRange(member, min, max));
+      removed.forEach(member => members.delete(member));
+      return removed.length;
+    }),
+  };
+};
+
+describe('MessagingService', () => {
+  // Ids are monotonic, so the clock never goes back between tests
+  let now = Date.parse('2026-01-01T00:00:00.000Z');
+  let redis: ReturnType<typeof createRedisMock>;
+  let pusher: { sendMessage: jest.Mock };
+  let service: MessagingService;
+
+  const send = (content: string, channel = 'general') =>
+    service.sendMessage({ channel, content, userId: 'u1' });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    redis = createRedisMock();
+    pusher = { sendMessage: jest.fn().mockResolvedValue(undefined) };
+    service = new MessagingService(
+      pusher as unknown as PusherService,
+      redis as unknown as RedisService,
+      new ConfigService({ MESSAGE_RETENTION_SECONDS: 3600 })
+    );
+  });
+
+  afterEach(() => {
+    now = Date.now() + 1000;
+    jest.useRealTimers();
+  });
+
+  describe('sendMessage', () => {
+    it('should always assign a new id', async () => {
+      const existing = await send('first');
+
+      const message = await service.sendMessage({
+        id: existing.id,
+        channel: 'general',
+        content: 'second',
+        userId: 'u2',
+      });
+
+      expect(message.id).not.toBe(existing.id);
+      expect(message.content).toBe('second');
+      expect(pusher.sendMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give later messages greater ids, even within one millisecond', async () => {
+      const sent = [];
+      for (let i = 0; i < 5; i++) {
+        sent.push(await send(`message ${i}`));
+      }
+
+      const ids = sent.map(message => message.id);
+      expect([...ids].sort()).toEqual(ids);
+      const page = await service.getMessages('general');
+      expect(page.messages.map(message => message.id)).toEqual([...ids].reverse());
+    });
+
+    it('should return the first message when a send is retried with its client id', async () => {
+      const first = await service.sendMessage(
+        { channel: 'general', content: 'hello', userId: 'u1' },
+        { clientMessageId: 'c1' }
+      );
+      const retry = await service.sendMessage(
+        { channel: 'general', content: 'hello', userId: 'u1' },
+        { clientMessageId: 'c1' }
+      );
+
+      expect(retry).toEqual(first);
+      expect(pusher.sendMessage).toHaveBeenCalledTimes(1);
+      expect(Array.from(redis.sortedSets.get('messages:channel:general')!)).toEqual([first.id]);
+      expect(Array.from(redis.values.keys()).filter(key => key.startsWith('message:'))).toEqual([
+        `message:${first.id}`,
+      ]);
+    });
+
+    it('should scope client ids to the sender and channel', async () => {
+      const first = await service.sendMessage(
+        { channel: 'general', content: 'from u1', userId: 'u1' },
+        { clientMessageId: 'c1' }
+      );
+      const otherSender = await service.sendMessage(
+        { channel: 'general', content: 'from u2', userId: 'u2' },
+        { clientMessageId: 'c1' }
+      );
+      const otherChannel = await service.sendMessage(
+        { channel: 'random', content: 'from u1', userId: 'u1' },
+        { clientMessageId: 'c1' }
+      );
+
+      expect(new Set([first.id, otherSender.id, otherChannel.id]).size).toBe(3);
+      expect(otherSender.content).toBe('from u2');
+      expect(pusher.sendMessage).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not treat a message id as a client id', async () => {
+      const first = await send('first');
+
+      const message = await service.sendMessage(
+        { channel: 'general', content: 'second', userId: 'u2' },
+        { clientMessageId: first.id }
+      );
+
+      expect(message.id).not.toBe(first.id);
+      expect(message.content).toBe('second');
+    });
+  });
+
+  describe('getMessages', () => {
+    it('should page back through history newest first', async () => {
+      const sent = [];
+      for (let i = 0; i < 5; i++) {
+        sent.push(await send(`message ${i}`));
+        jest.advanceTimersByTime(1000);
+      }
+
+      const first = await service.getMessages('general', { limit: 2 });
+      expect(first.messages.map(message => message.content)).toEqual(['message 4', 'message 3']);
+      expect(first).toMatchObject({ hasMore: true, before: sent[3].id, after: sent[4].id });
+
+      const second = await service.getMessages('general', { limit: 2, before: first.before });
+      expect(second.messages.map(message => message.content)).toEqual(['message 2', 'message 1']);
+      expect(second.hasMore).toBe(true);
+
+      const last = await service.getMessages('general', { limit: 2, before: second.before });
+      expect(last.messages.map(message => message.content)).toEqual(['message 0']);
+      expect(last.hasMore).toBe(false);
+    });
+
+    it('should return messages newer than an after cursor', async () => {
+      const sent = [];
+      for (let i = 0; i < 4; i++) {
+        sent.push(await send(`message ${i}`));
+        jest.advanceTimersByTime(1000);
+      }
+
+      const page = await service.getMessages('general', { limit: 2, after: sent[0].id });
+      expect(page.messages.map(message => message.content)).toEqual(['message 2', 'message 1']);
+      expect(page.hasMore).toBe(true);
+
+      const rest = await service.getMessages('general', { limit: 2, after: page.after });
+      expect(rest.messages.map(message => message.content)).toEqual(['message 3']);
+      expect(rest.hasMore).toBe(false);
+    });
+
+    it('should keep channels apart', async () => {
+      await send('in general');
+      await send('in random', 'random');
+
+      const page = await service.getMessages('random');
+      expect(page.messages.map(message => message.content)).toEqual(['in random']);
+    });
+
+    it('should clamp the page size', async () => {
+      await service.getMessages('general', { limit: 500 });
+      await service.getMessages('general', { limit: 0 });
+
+      expect(redis.zrangebylex.mock.calls.map(call => call[3])).toEqual([101, 2]);
+    });
+  });
+
+  describe('retention', () => {
+    it('should trim the index to the retention window on send', async () => {
+      await service.setChannelRetention('general', 60);
+      await send('old');
+      jest.advanceTimersByTime(61_000);
+      const recent = await send('recent');
+
+      expect(Array.from(redis.sortedSets.get('messages:channel:general')!)).toEqual([recent.id]);
+    });
+
+    it('should leave messages outside the window out of history before the next send', async () => {
+      await service.setChannelRetention('general', 60);
+      await send('old');
+      jest.advanceTimersByTime(61_000);
+
+      const page = await service.getMessages('general');
+      expect(page.messages).toEqual([]);
+      expect(page.hasMore).toBe(false);
+    });
+
+    it('should store messages and the index with the channel retention', async () => {
+      expect(await service.getChannelRetention('general')).toBe(3600);
+      await service.setChannelRetention('general', 120);
+
+      const message = await send('hello');
+      expect(redis.setnx).toHaveBeenCalledWith(`message:${message.id}`, expect.any(String), 120);
+      expect(redis.expire).toHaveBeenCalledWith('messages:channel:general', 120);
+      expect(await service.getChannelRetention('random')).toBe(3600);
+    });
+  });
+
+  describe('editMessage', () => {
+    it('should keep earlier versions in the edit trail', async () => {
+      const message = await send('v1');
+      jest.advanceTimersByTime(1000);
+      await service.editMessage(message.id, 'v2', 'u1');
+      jest.advanceTimersByTime(1000);
+      const edited = await service.editMessage(message.id, 'v3', 'moderator');
+
+      expect(edited).toMatchObject({ id: message.id, content: 'v3', editedAt: new Date().toISOString() });
+      expect(edited!.edits).toEqual([
+        { content: 'v1', editedAt: new Date(Date.now() - 1000).toISOString(), editedBy: 'u1' },
+        { content: 'v2', editedAt: new Date().toISOString(), editedBy: 'moderator' },
+      ]);
+      expect(await service.getMessage(message.id)).toEqual(edited);
+      expect((await service.getMessages('general')).messages).toEqual([edited]);
+      expect(pusher.sendMessage).toHaveBeenLastCalledWith({
+        channel: 'general',
+        event: 'message_edited',
+        data: edited,
+      });
+    });
+
+    it('should keep every edit when edits race', async () => {
+      const message = await send('v1');
+
+      await Promise.all([
+        service.editMessage(message.id, 'from u1', 'u1'),
+        service.editMessage(message.id, 'from moderator', 'moderator'),
+      ]);
+
+      const stored = await service.getMessage(message.id);
+      expect(stored!.edits!.map(edit => edit.editedBy)).toEqual(['u1', 'moderator']);
+      expect(stored!.edits!.map(edit => edit.content)).toEqual(['v1', 'from u1']);
+      expect(stored!.content).toBe('from moderator');
+    });
+
+    it('should read edits Upstash hands back already parsed', async () => {
+      const message = await send('v1');
+      redis.lists.set(`message:${message.id}:edits`, [
+        { content: 'v2', editedAt: new Date().toISOString(), editedBy: 'u1' },
+      ]);
+
+      expect(await service.getMessage(message.id)).toMatchObject({
+        content: 'v2',
+        edits: [expect.objectContaining({ content: 'v1' })],
+      });
+    });
+
+    it('should not add an edit once a deletion racing it has landed', async () => {
+      const message = await send('v1');
+      const runScript = redis.eval.getMockImplementation()!;
+      redis.eval.mockImplementationOnce(async (...args) => {
+        await service.deleteMessage(message.id, 'moderator');
+        return runScript(...args);
+      });
+
+      expect(await service.editMessage(message.id, 'v2', 'u1')).toBeNull();
+
+      const stored = await service.getMessage(message.id);
+      expect(stored).toMatchObject({ content: '', deletedBy: 'moderator' });
+      expect(stored!.edits).toBeUndefined();
+      expect(redis.lists.has(`message:${message.id}:edits`)).toBe(false);
+      expect(pusher.sendMessage).not.toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'message_edited' })
+      );
+    });
+
+    it('should not edit missing or deleted messages', async () => {
+      const message = await send('v1');
+      await service.deleteMessage(message.id, 'u1');
+
+      expect(await service.editMessage(message.id, 'v2', 'u1')).toBeNull();
+      expect(await service.editMessage('missing', 'v2', 'u1')).toBeNull();
+    });
+  });
+
+  describe('deleteMessage', () => {
+    it('should leave a tombstone that keeps the edit trail but not the content', async () => {
+      const message = await send('v1');
+      const edited = await service.editMessage(message.id, 'v2', 'u1');
+
+      const tombstone = await service.deleteMessage(message.id, 'moderator');
+
+      expect(tombstone).toMatchObject({
+        id: message.id,
+        content: '',
+        deletedBy: 'moderator',
+        deletedAt: expect.any(String),
+        edits: edited!.edits,
+        editedAt: edited!.editedAt,
+      });
+      expect(await service.getMessage(message.id)).toEqual(tombstone);
+      expect(redis.lists.has(`message:${message.id}:edits`)).toBe(false);
+      expect(pusher.sendMessage).toHaveBeenLastCalledWith({
+        channel: 'general',
+        event: 'message_deleted',
+        data: tombstone,
+      });
+    });
+
+    it('should keep an edit that lands while the tombstone is built in its trail', async () => {
+      const message = await send('v1');
+      const runScript = redis.eval.getMockImplementation()!;
+      redis.eval.mockImplementationOnce(async (...args) => {
+        await service.editMessage(message.id, 'v2', 'u1');
+        return runScript(...args);
+      });
+
+      const tombstone = await service.deleteMessage(message.id, 'moderator');
+
+      expect(tombstone).toMatchObject({ content: '', deletedBy: 'moderator' });
+      expect(tombstone!.edits).toEqual([expect.objectContaining({ content: 'v1', editedBy: 'u1' })]);
+      expect(await service.getMessage(message.id)).toEqual(tombstone);
+    });
+
+    it('should keep deleted messages in history', async () => {
+      const message = await send('v1');
+      await send('v2');
+      await service.deleteMessage(message.id, 'u1');
+
+      const page = await service.getMessages('general');
+      expect(page.messages.map(entry => entry.content)).toEqual(['v2', '']);
+    });
+
+    it('should only delete a message once', async () => {
+      const message = await send('v1');
+      const tombstone = await service.deleteMessage(message.id, 'u1');
+      pusher.sendMessage.mockClear();
+
+      expect(await service.deleteMessage(message.id, 'moderator')).toEqual(tombstone);
+      expect(pusher.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PusherService } from './pusher.service';
 import { RedisService } from '../../shared/services/redis.service';
+import { ulid, ulidLowerBound } from '../../common/ulid';
 
 export interface Message {
   id: string;
@@ -10,24 +12,132 @@ export interface Message {
   userId?: string;
   metadata?: Record<string, any>;
   timestamp: string;
+  // Earlier versions of the content, oldest first
+  edits?: MessageEdit[];
+  editedAt?: string;
+  // Deleted messages stay in history as tombstones, with their edit trail
+  // but without their content
+  deletedAt?: string;
+  deletedBy?: string;
 }
 
+export interface MessageEdit {
+  content: string;
+  editedAt: string;
+  editedBy: string;
+}
+
+export interface MessageHistoryQuery {
+  // Message ids; only one of before and after may be given
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+/**
+ * A page of history, newest first. Pass `before` to get the page of older
+ * messages, or `after` to get newer ones.
+ */
+export interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+  before?: string;
+  after?: string;
+}
+
+export interface SendMessageOptions {
+  // Sender-chosen id that makes retries of the same send idempotent
+  clientMessageId?: string;
+}
+
+const DEFAULT_MESSAGE_RETENTION = 3600;
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 100;
+// Per-channel retention overrides, in seconds
+const RETENTION_KEY = 'messages:retention';
+
+// Edits and deletion both check the message and write in one script, so an
+// edit can never land after the tombstone, nor slip in beside its trail.
+// KEYS: message, its edits. ARGV: the edit, the list's TTL in seconds.
+const APPEND_EDIT_SCRIPT = `
+local message = redis.call('GET', KEYS[1])
+if not message or cjson.decode(message).deletedAt then
+  return 0
+end
+redis.call('LPUSH', KEYS[2], ARGV[1])
+redis.call('EXPIRE', KEYS[2], ARGV[2])
+return 1
+`;
+// KEYS: message, its edits. ARGV: the tombstone, how many edits it was built
+// from. Returns 0 if the message is gone or deleted, -1 if edits came since.
+const WRITE_TOMBSTONE_SCRIPT = `
+local message = redis.call('GET', KEYS[1])
+if not message or cjson.decode(message).deletedAt then
+  return 0
+end
+if redis.call('LLEN', KEYS[2]) ~= tonumber(ARGV[2]) then
+  return -1
+end
+redis.call('SET', KEYS[1], ARGV[1], 'KEEPTTL')
+redis.call('DEL', KEYS[2])
+return 1
+`;
+
 @Injectable()
 export class MessagingService {
-  private readonly MESSAGE_TTL = 3600;
+  private readonly defaultRetention: number;
 
   constructor(
     private readonly pusherService: PusherService,
     private readonly redisService: RedisService,
-  ) {}
+    configService: ConfigService,
+  ) {
+    this.defaultRetention = Number(
+      configService.get('MESSAGE_RETENTION_SECONDS') ?? DEFAULT_MESSAGE_RETENTION
+    );
+  }
 
   private getMessageKey(messageId: string): string {
     return `message:${messageId}`;
   }
 
-  async sendMessage(message: Partial<Message>): Promise<Message> {
+  // Scoped to the channel and sender, so one sender's ids cannot match another's messages
+  private getDedupKey(message: Message, clientMessageId: string): string {
+    const scope = [message.channel, message.userId ?? '', clientMessageId].map(encodeURIComponent);
+    return `messages:dedup:${scope.join(':')}`;
+  }
+
+  private getEditsKey(messageId: string): string {
+    return `message:${messageId}:edits`;
+  }
+
+  // Message ids, all scored 0 so they sort by id and therefore by time
+  private getChannelIndexKey(channel: string): string {
+    return `messages:channel:${channel}`;
+  }
+
+  async getChannelRetention(channel: string): Promise<number> {
+    const retention = await this.redisService.hget(RETENTION_KEY, channel);
+    return retention ? Number(retention) : this.defaultRetention;
+  }
+
+  /**
+   * Sets how long the channel's messages are kept. Messages already stored
+   * keep their expiry; the index is trimmed to the new window on next write.
+   */
+  async setChannelRetention(channel: string, seconds: number): Promise<number> {
+    await this.redisService.hset(RETENTION_KEY, { [channel]: seconds });
+    return seconds;
+  }
+
+  /**
+   * Stores and publishes a message under a new ULID. A sender retrying a
+   * send may pass the same `clientMessageId`; while the first message is
+   * still stored it is returned as is and not published again.
+   */
+  async sendMessage(message: Partial<Message>, options: SendMessageOptions = {}): Promise<Message> {
     const newMessage: Message = {
-      id: Date.now().toString(),
+      id: ulid(),
       channel: message.channel!,
       event: message.event || 'message',
       content: message.content!,
@@ -36,12 +146,31 @@ export class MessagingService {
       timestamp: new Date().toISOString(),
     };
 
-    // Store in Redis
-    await this.redisService.set(
-      this.getMessageKey(newMessage.id),
-      JSON.stringify(newMessage),
-      this.MESSAGE_TTL
-    );
+    // Store in Redis, indexed by channel
+    const retention = await this.getChannelRetention(newMessage.channel);
+    const indexKey = this.getChannelIndexKey(newMessage.channel);
+    const messageKey = this.getMessageKey(newMessage.id);
+    const stored = await this.redisService.setnx(messageKey, JSON.stringify(newMessage), retention);
+
+    // The message is stored before its dedup key is claimed, so a claimed key
+    // always points at a message a retry can be answered with
+    if (stored && options.clientMessageId !== undefined) {
+      const dedupKey = this.getDedupKey(newMessage, options.clientMessageId);
+      const claimed = await this.redisService.setnx(dedupKey, newMessage.id, retention);
+      if (!claimed) {
+        const existingId = await this.redisService.get(dedupKey);
+        const existing = existingId !== null ? await this.findMessage(String(existingId)) : null;
+        if (existing) {
+          await this.redisService.del(messageKey);
+          return existing;
+        }
+      }
+    }
+
+    const cutoff = Date.parse(newMessage.timestamp) - retention * 1000;
+    await this.redisService.zadd(indexKey, 0, newMessage.id);
+    await this.redisService.zremrangebylex(indexKey, '-', `(${ulidLowerBound(cutoff)}`);
+    await this.redisService.expire(indexKey, retention);
 
     // Send through Pusher
     await this.pusherService.sendMessage({
@@ -53,20 +182,163 @@ export class MessagingService {
     return newMessage;
   }
 
-  async getMessages(channel: string, limit = 50): Promise<Message[]> {
-    const pattern = `message:*`;
-    const keys = await this.redisService.keys(pattern);
-    const messages = await Promise.all(
-      keys.slice(-limit).map((key: string) => this.redisService.get(key))
+  async getMessages(channel: string, query: MessageHistoryQuery = {}): Promise<MessagePage> {
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT);
+    const indexKey = this.getChannelIndexKey(channel);
+    const retention = await this.getChannelRetention(channel);
+    const oldest = ulidLowerBound(Date.now() - retention * 1000);
+
+    // One extra id tells whether another page follows
+    if (query.after !== undefined) {
+      const newer = await this.redisService.zrangebylex(
+        indexKey,
+        query.after > oldest ? `(${query.after}` : `[${oldest}`,
+        '+',
+        limit + 1
+      );
+      return this.toPage(newer.slice(0, limit).reverse(), newer.length > limit);
+    }
+
+    const older = await this.redisService.zrangebylex(
+      indexKey,
+      `[${oldest}`,
+      query.before !== undefined ? `(${query.before}` : '+',
+      limit + 1,
+      true
     );
+    return this.toPage(older.slice(0, limit), older.length > limit);
+  }
+
+  private async toPage(ids: string[], hasMore: boolean): Promise<MessagePage> {
+    // Expired ids are skipped
+    const found = await Promise.all(ids.map(id => this.findMessage(id)));
+    const messages = found.filter((message): message is Message => message !== null);
 
-    return messages
-      .filter((msg: unknown): msg is string => msg !== null)
-      .map((msg: string) => JSON.parse(msg))
-      .filter((msg: Message) => msg.channel === channel)
-      .sort((a: Message, b: Message) => 
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+    return {
+      messages,
+      hasMore,
+      before: messages.length ? messages[messages.length - 1].id : undefined,
+      after: messages.length ? messages[0].id : undefined,
+    };
+  }
+
+  async getMessage(messageId: string): Promise<Message | null> {
+    return this.findMessage(messageId);
+  }
+
+  /**
+   * Replaces a message's content and publishes `message_edited` on its
+   * channel. Edits are appended to their own list rather than written back
+   * into the message, so concurrent edits all land in the trail. The stored
+   * message keeps its place in history and its expiry.
+   */
+  async editMessage(messageId: string, content: string, editedBy: string): Promise<Message | null> {
+    const message = await this.findMessage(messageId);
+    if (!message || message.deletedAt) {
+      return null;
+    }
+
+    const edit: MessageEdit = { content, editedAt: new Date().toISOString(), editedBy };
+    const appended = await this.redisService.eval<number>(
+      APPEND_EDIT_SCRIPT,
+      [this.getMessageKey(messageId), this.getEditsKey(messageId)],
+      [JSON.stringify(edit), await this.getChannelRetention(message.channel)]
+    );
+    if (appended !== 1) {
+      return null;
+    }
+
+    // Read back, since edits made meanwhile may have landed around this one
+    const edited = await this.findMessage(messageId);
+    if (!edited || edited.deletedAt) {
+      return null;
+    }
+
+    await this.pusherService.sendMessage({
+      channel: edited.channel,
+      event: 'message_edited',
+      data: edited,
+    });
+    return edited;
+  }
+
+  /**
+   * Turns a message into a tombstone: its content is dropped, its edit trail
+   * is kept, who deleted it and when are recorded, and `message_deleted` is
+   * published on its channel.
+   */
+  async deleteMessage(messageId: string, deletedBy: string): Promise<Message | null> {
+    // Built again whenever an edit lands first, so the trail is never short of one
+    for (;;) {
+      const message = await this.findMessage(messageId);
+      if (!message) {
+        return null;
+      }
+      if (message.deletedAt) {
+        return message;
+      }
+
+      // The tombstone carries the trail itself, so the edits list can go
+      const tombstone: Message = {
+        ...message,
+        content: '',
+        deletedAt: new Date().toISOString(),
+        deletedBy,
+      };
+      const written = await this.redisService.eval<number>(
+        WRITE_TOMBSTONE_SCRIPT,
+        [this.getMessageKey(messageId), this.getEditsKey(messageId)],
+        [JSON.stringify(tombstone), message.edits?.length ?? 0]
       );
+      if (written === null) {
+        return null;
+      }
+      if (written === 1) {
+        await this.pusherService.sendMessage({
+          channel: tombstone.channel,
+          event: 'message_deleted',
+          data: tombstone,
+        });
+        return tombstone;
+      }
+    }
+  }
+
+  /**
+   * Loads a message with its edits applied. The stored message keeps the
+   * content it was sent with; each edit in the list holds the content it
+   * set, newest first.
+   */
+  private async findMessage(messageId: string): Promise<Message | null> {
+    const value = await this.redisService.get(this.getMessageKey(messageId));
+    if (value === null) {
+      return null;
+    }
+    // Upstash may hand back the stored JSON already parsed
+    const message: Message = typeof value === 'string' ? JSON.parse(value) : value;
+    if (message.deletedAt) {
+      return message;
+    }
+
+    const stored = await this.redisService.lrange(this.getEditsKey(messageId), 0, -1);
+    const edits: MessageEdit[] = stored
+      .map(entry => (typeof entry === 'string' ? JSON.parse(entry) : entry))
+      .reverse();
+    if (!edits.length) {
+      return message;
+    }
+
+    const versions = [message.content, ...edits.map(edit => edit.content)];
+    return {
+      ...message,
+      content: versions[versions.length - 1],
+      edits: edits.map((edit, index) => ({
+        content: versions[index],
+        editedAt: edit.editedAt,
+        editedBy: edit.editedBy,
+      })),
+      editedAt: edits[edits.length - 1].editedAt,
+    };
   }
 
   async getChannel(channel: string) {
@@ -2,6 +2,9 @@ import { Injectable, OnModuleInit, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Redis } from '@upstash/redis';
 
+export type ScoreBound = number | `(${number}` | '-inf' | '+inf';
+export type LexBound = `(${string}` | `[${string}` | '-' | '+';
+
 @Injectable()
 export class RedisService implements OnModuleInit {
   private client: Redis;
@@ -46,6 +49,27 @@ export class RedisService implements OnModuleInit {
     }
   }
 
+  async setnx(key: string, value: any, ttlSeconds: number): Promise<boolean> {
+    try {
+      const result = await this.client.set(key, value, { nx: true, ex: ttlSeconds });
+      return result === 'OK';
+    } catch (error) {
+      this.logger.error(`Redis setnx error for key ${key}: ${error.message}`);
+      return false;
+    }
+  }
+
+  // Overwrites an existing key, keeping its expiry; false if it is gone
+  async setxx(key: string, value: any): Promise<boolean> {
+    try {
+      const result = await this.client.set(key, value, { xx: true, keepTtl: true });
+      return result === 'OK';
+    } catch (error) {
+      this.logger.error(`Redis setxx error for key ${key}: ${error.message}`);
+      return false;
+    }
+  }
+
   async del(key: string): Promise<boolean> {
     try {
       await this.client.del(key);
@@ -85,6 +109,62 @@ export class RedisService implements OnModuleInit {
     }
   }
 
+  // Sets the field only if it is not there yet
+  async hsetnx(key: string, field: string, value: any): Promise<boolean> {
+    try {
+      return (await this.client.hsetnx(key, field, value)) === 1;
+    } catch (error) {
+      this.logger.error(`Redis hsetnx error for key ${key}: ${error.message}`);
+      return false;
+    }
+  }
+
+  async hdel(key: string, field: string): Promise<number> {
+    try {
+      return await this.client.hdel(key, field);
+    } catch (error) {
+      this.logger.error(`Redis hdel error for key ${key}: ${error.message}`);
+      return 0;
+    }
+  }
+
+  async hexists(key: string, field: string): Promise<boolean> {
+    try {
+      return (await this.client.hexists(key, field)) === 1;
+    } catch (error) {
+      this.logger.error(`Redis hexists error for key ${key}: ${error.message}`);
+      return false;
+    }
+  }
+
+  async hgetall(key: string): Promise<Record<string, any>> {
+    try {
+      return (await this.client.hgetall(key)) ?? {};
+    } catch (error) {
+      this.logger.error(`Redis hgetall error for key ${key}: ${error.message}`);
+      return {};
+    }
+  }
+
+  async expire(key: string, ttlSeconds: number): Promise<boolean> {
+    try {
+      await this.client.expire(key, ttlSeconds);
+      return true;
+    } catch (error) {
+      this.logger.error(`Redis expire error for key ${key}: ${error.message}`);
+      return false;
+    }
+  }
+
+  async incr(key: string): Promise<number | null> {
+    try {
+      return await this.client.incr(key);
+    } catch (error) {
+      this.logger.error(`Redis incr error for key ${key}: ${error.message}`);
+      return null;
+    }
+  }
+
   async zadd(key: string, score: number, member: string): Promise<boolean> {
     try {
       await this.client.zadd(key, { score, member });
@@ -104,6 +184,91 @@ export class RedisService implements OnModuleInit {
     }
   }
 
+  /**
+   * Members with scores between `min` and `max`, lowest first, or highest
+   * first with `rev`. Bounds may be exclusive, e.g. `(1700000000000`.
+   */
+  async zrangebyscore(
+    key: string,
+    min: ScoreBound,
+    max: ScoreBound,
+    limit?: number,
+    rev = false,
+  ): Promise<string[]> {
+    // With REV, Redis expects the range from max down to min
+    const [start, stop] = rev ? [max, min] : [min, max];
+    try {
+      if (limit) {
+        return await this.client.zrange(key, start, stop, {
+          byScore: true,
+          rev,
+          offset: 0,
+          count: limit,
+        });
+      }
+      return await this.client.zrange(key, start, stop, { byScore: true, rev });
+    } catch (error) {
+      this.logger.error(`Redis zrangebyscore error for key ${key}: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Members between `min` and `max` in lexicographic order, or reversed with
+   * `rev`. Only meaningful when every member has the same score. Bounds are
+   * `[value` (inclusive), `(value` (exclusive), `-` or `+`.
+   */
+  async zrangebylex(
+    key: string,
+    min: LexBound,
+    max: LexBound,
+    limit?: number,
+    rev = false,
+  ): Promise<string[]> {
+    const [start, stop] = rev ? [max, min] : [min, max];
+    try {
+      if (limit) {
+        return await this.client.zrange(key, start, stop, {
+          byLex: true,
+          rev,
+          offset: 0,
+          count: limit,
+        });
+      }
+      return await this.client.zrange(key, start, stop, { byLex: true, rev });
+    } catch (error) {
+      this.logger.error(`Redis zrangebylex error for key ${key}: ${error.message}`);
+      return [];
+    }
+  }
+
+  async zremrangebylex(key: string, min: LexBound, max: LexBound): Promise<number> {
+    try {
+      return await this.client.zremrangebylex(key, min, max);
+    } catch (error) {
+      this.logger.error(`Redis zremrangebylex error for key ${key}: ${error.message}`);
+      return 0;
+    }
+  }
+
+  async zremrangebyscore(key: string, min: number, max: number): Promise<number> {
+    try {
+      return await this.client.zremrangebyscore(key, min, max);
+    } catch (error) {
+      this.logger.error(`Redis zremrangebyscore error for key ${key}: ${error.message}`);
+      return 0;
+    }
+  }
+
+  async zrem(key: string, member: string): Promise<number> {
+    try {
+      return await this.client.zrem(key, member);
+    } catch (error) {
+      this.logger.error(`Redis zrem error for key ${key}: ${error.message}`);
+      return 0;
+    }
+  }
+
   async lpush(key: string, value: string): Promise<boolean> {
     try {
       await this.client.lpush(key, value);
@@ -123,6 +288,77 @@ export class RedisService implements OnModuleInit {
     }
   }
 
+  async lrem(key: string, count: number, value: string): Promise<number> {
+    try {
+      return await this.client.lrem(key, count, value);
+    } catch (error) {
+      this.logger.error(`Redis lrem error for key ${key}: ${error.message}`);
+      return 0;
+    }
+  }
+
+  async llen(key: string): Promise<number> {
+    try {
+      return await this.client.llen(key);
+    } catch (error) {
+      this.logger.error(`Redis llen error for key ${key}: ${error.message}`);
+      return 0;
+    }
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<boolean> {
+    try {
+      await this.client.ltrim(key, start, stop);
+      return true;
+    } catch (error) {
+      this.logger.error(`Redis ltrim error for key ${key}: ${error.message}`);
+      return false;
+    }
+  }
+
+  async xadd(key: string, fields: Record<string, unknown>, maxLength?: number): Promise<string | null> {
+    try {
+      return await this.client.xadd(
+        key,
+        '*',
+        fields,
+        maxLength ? { trim: { type: 'MAXLEN', threshold: maxLength, comparison: '~' } } : undefined,
+      );
+    } catch (error) {
+      this.logger.error(`Redis xadd error for key ${key}: ${error.message}`);
+      return null;
+    }
+  }
+
+  async xrange(
+    key: string,
+    start: string,
+    end: string,
+    count?: number,
+  ): Promise<Record<string, Record<string, unknown>>> {
+    try {
+      return await this.client.xrange(key, start, end, count);
+    } catch (error) {
+      this.logger.error(`Redis xrange error for key ${key}: ${error.message}`);
+      return {};
+    }
+  }
+
+  // Newest entries first; null rather than empty when the read fails
+  async xrevrange(
+    key: string,
+    end: string,
+    start: string,
+    count?: number,
+  ): Promise<Record<string, Record<string, unknown>> | null> {
+    try {
+      return await this.client.xrevrange(key, end, start, count);
+    } catch (error) {
+      this.logger.error(`Redis xrevrange error for key ${key}: ${error.message}`);
+      return null;
+    }
+  }
+
   async sadd(key: string, member: string): Promise<boolean> {
     try {
       await this.client.sadd(key, member);
@@ -133,6 +369,33 @@ export class RedisService implements OnModuleInit {
     }
   }
 
+  async srem(key: string, member: string): Promise<number> {
+    try {
+      return await this.client.srem(key, member);
+    } catch (error) {
+      this.logger.error(`Redis srem error for key ${key}: ${error.message}`);
+      return 0;
+    }
+  }
+
+  async sismember(key: string, member: string): Promise<boolean> {
+    try {
+      return (await this.client.sismember(key, member)) === 1;
+    } catch (error) {
+      this.logger.error(`Redis sismember error for key ${key}: ${error.message}`);
+      return false;
+    }
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    try {
+      return await this.client.smembers(key);
+    } catch (error) {
+      this.logger.error(`Redis smembers error for key ${key}: ${error.message}`);
+      return [];
+    }
+  }
+
   async spop(key: string, count: number = 1): Promise<string | string[] | null> {
     try {
       return await this.client.spop(key, count);
@@ -141,4 +404,14 @@ export class RedisService implements OnModuleInit {
       return null;
     }
   }
+
+  // Runs a Lua script, which Redis executes atomically; null if it failed
+  async eval<T = unknown>(script: string, keys: string[], args: (string | number)[]): Promise<T | null> {
+    try {
+      return await this.client.eval<(string | number)[], T>(script, keys, args);
+    } catch (error) {
+      this.logger.error(`Redis eval error for keys ${keys.join(', ')}: ${error.message}`);
+      return null;
+    }
+  }
 } 
\ No newline at end of file
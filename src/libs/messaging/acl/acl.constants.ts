@@ -0,0 +1 @@
+export const TOPIC_ACL_CONFIG = 'TOPIC_ACL_CONFIG';
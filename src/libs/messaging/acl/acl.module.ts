@@ -0,0 +1,25 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { TopicAclService } from './acl.service';
+import { TopicAclConfig } from './acl.types';
+import { TOPIC_ACL_CONFIG } from './acl.constants';
+
+@Module({})
+export class TopicAclModule {
+  static forRoot(config: TopicAclConfig = {}): DynamicModule {
+    return {
+      module: TopicAclModule,
+      providers: [
+        {
+          provide: TOPIC_ACL_CONFIG,
+          useValue: config,
+        },
+        {
+          provide: TopicAclService,
+          useFactory: () => new TopicAclService(config),
+        },
+      ],
+      exports: [TopicAclService],
+      global: true,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { Logger } from '@nestjs/common';
+import { TopicAclService, compileTopicPattern, createTopicAclSubject } from './acl.service';
+
+jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+
+describe('compileTopicPattern', () => {
+  it('should capture named segments', () => {
+    const { regex, paramNames } = compileTopicPattern('chat-room-{roomId}');
+
+    expect(paramNames).toEqual(['roomId']);
+    expect(regex.exec('chat-room-42')?.[1]).toBe('42');
+    expect(regex.test('chat-rooms')).toBe(false);
+  });
+
+  it('should treat * as a wildcard and escape everything else', () => {
+    const { regex } = compileTopicPattern('admin.*');
+
+    expect(regex.test('admin.audit')).toBe(true);
+    expect(regex.test('adminXaudit')).toBe(false);
+  });
+});
+
+describe('createTopicAclSubject', () => {
+  it('should read roles from app metadata', () => {
+    expect(createTopicAclSubject({ id: 'u1', app_metadata: { roles: ['admin'] } }))
+      .toEqual({ userId: 'u1', roles: ['admin'] });
+    expect(createTopicAclSubject({ id: 'u1', app_metadata: { role: 'moderator' } }))
+      .toEqual({ userId: 'u1', roles: ['moderator'] });
+    expect(createTopicAclSubject(null)).toEqual({});
+  });
+});
+
+describe('TopicAclService', () => {
+  const user = { userId: 'user_1', roles: ['member'] };
+
+  it('should allow unmatched topics under the default policy', async () => {
+    const acl = new TopicAclService();
+    expect((await acl.authorize({}, 'news')).allowed).toBe(true);
+
+    const strict = new TopicAclService({ defaultPolicy: 'deny' });
+    expect(await strict.authorize(user, 'news')).toEqual({
+      allowed: false,
+      topic: 'news',
+      reason: 'default_policy',
+    });
+  });
+
+  it('should scope topics to the user named in the pattern', async () => {
+    const acl = new TopicAclService({ rules: [{ pattern: 'user-{userId}', userParam: 'userId' }] });
+
+    expect((await acl.authorize(user, 'user-user_1')).allowed).toBe(true);
+    expect((await acl.authorize(user, 'user-user_2')).reason).toBe('user_mismatch');
+    expect((await acl.authorize({}, 'user-user_1')).reason).toBe('unauthenticated');
+  });
+
+  it('should require one of the listed roles', async () => {
+    const acl = new TopicAclService({ rules: [{ pattern: 'admin-*', roles: ['admin', 'ops'] }] });
+
+    expect((await acl.authorize(user, 'admin-audit')).reason).toBe('missing_role');
+    expect((await acl.authorize({ userId: 'u', roles: ['ops'] }, 'admin-audit')).allowed).toBe(true);
+  });
+
+  it('should pass captured params to custom checks', async () => {
+    const check = jest.fn(async ({ params }) => params.roomId === '42');
+    const acl = new TopicAclService();
+    acl.addRule({ pattern: 'chat-room-{roomId}', check });
+
+    expect((await acl.authorize(user, 'chat-room-42')).allowed).toBe(true);
+    expect((await acl.authorize(user, 'chat-room-7')).reason).toBe('check_failed');
+    expect(check).toHaveBeenCalledWith({ subject: user, topic: 'chat-room-42', params: { roomId: '42' } });
+  });
+
+  it('should deny when a check throws', async () => {
+    const acl = new TopicAclService({
+      rules: [{ pattern: 'room-{id}', check: () => { throw new Error('lookup failed'); } }],
+    });
+
+    expect((await acl.authorize(user, 'room-1')).reason).toBe('check_failed');
+  });
+
+  it('should let the first matching rule decide', async () => {
+    const acl = new TopicAclService({
+      rules: [
+        { pattern: 'internal-public' },
+        { pattern: 'internal-*', deny: true },
+      ],
+    });
+
+    expect((await acl.authorize(user, 'internal-public')).allowed).toBe(true);
+    expect(await acl.authorize(user, 'internal-secrets')).toEqual({
+      allowed: false,
+      topic: 'internal-secrets',
+      rule: 'internal-*',
+      reason: 'denied_by_rule',
+    });
+  });
+
+  it('should list denied topics', async () => {
+    const acl = new TopicAclService({ rules: [{ pattern: 'user-{userId}', userParam: 'userId' }] });
+
+    expect(await acl.findDenied(user, ['news', 'user-user_1', 'user-user_2'])).toEqual(['user-user_2']);
+  });
+});
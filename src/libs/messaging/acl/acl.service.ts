@@ -0,0 +1,132 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  TopicAclConfig,
+  TopicAclDecision,
+  TopicAclRule,
+  TopicAclSubject,
+} from './acl.types';
+
+interface CompiledRule {
+  rule: TopicAclRule;
+  regex: RegExp;
+  paramNames: string[];
+}
+
+const PLACEHOLDER = /\{(\w+)\}|\*/g;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function compileTopicPattern(pattern: string): { regex: RegExp; paramNames: string[] } {
+  const paramNames: string[] = [];
+  let source = '';
+  let lastIndex = 0;
+
+  for (const match of pattern.matchAll(PLACEHOLDER)) {
+    source += escapeRegex(pattern.slice(lastIndex, match.index));
+    if (match[1]) {
+      paramNames.push(match[1]);
+      source += '([^:/]+)';
+    } else {
+      source += '.*';
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+  source += escapeRegex(pattern.slice(lastIndex));
+
+  return { regex: new RegExp(`^${source}$`), paramNames };
+}
+
+/**
+ * Builds a subject from a Supabase-style user. Roles are read from
+ * `app_metadata.roles` or `app_metadata.role`, which only the service key
+ * can set.
+ */
+export function createTopicAclSubject(
+  user?: { id: string; app_metadata?: Record<string, any> } | null,
+): TopicAclSubject {
+  if (!user) return {};
+
+  const { roles, role } = user.app_metadata ?? {};
+  return {
+    userId: user.id,
+    roles: Array.isArray(roles) ? roles : typeof role === 'string' ? [role] : [],
+  };
+}
+
+/**
+ * Decides which subjects may join which topics. Rules are tried in order and
+ * the first whose pattern matches the topic decides; topics no rule matches
+ * fall back to the default policy.
+ */
+@Injectable()
+export class TopicAclService {
+  private readonly logger = new Logger(TopicAclService.name);
+  private readonly rules: CompiledRule[] = [];
+  private readonly defaultPolicy: 'allow' | 'deny';
+
+  constructor(config: TopicAclConfig = {}) {
+    this.defaultPolicy = config.defaultPolicy ?? 'allow';
+    (config.rules ?? []).forEach(rule => this.addRule(rule));
+  }
+
+  /**
+   * Appends a rule after the configured ones. Feature modules use this to
+   * register checks backed by their own services.
+   */
+  addRule(rule: TopicAclRule) {
+    this.rules.push({ rule, ...compileTopicPattern(rule.pattern) });
+  }
+
+  async authorize(subject: TopicAclSubject, topic: string): Promise<TopicAclDecision> {
+    for (const { rule, regex, paramNames } of this.rules) {
+      const match = regex.exec(topic);
+      if (!match) continue;
+
+      const params = Object.fromEntries(paramNames.map((name, index) => [name, match[index + 1]]));
+      const deny = (reason: TopicAclDecision['reason']): TopicAclDecision => ({
+        allowed: false,
+        topic,
+        rule: rule.pattern,
+        reason,
+      });
+
+      if (rule.deny) return deny('denied_by_rule');
+
+      const needsUser = !!rule.userParam || !!rule.roles?.length || !!rule.check;
+      if (needsUser && !subject.userId) return deny('unauthenticated');
+
+      if (rule.userParam && params[rule.userParam] !== subject.userId) {
+        return deny('user_mismatch');
+      }
+
+      if (rule.roles?.length && !rule.roles.some(role => subject.roles?.includes(role))) {
+        return deny('missing_role');
+      }
+
+      if (rule.check) {
+        try {
+          if (!(await rule.check({ subject, topic, params }))) return deny('check_failed');
+        } catch (error) {
+          this.logger.error(`Topic ACL check for ${topic} failed:`, error);
+          return deny('check_failed');
+        }
+      }
+
+      return { allowed: true, topic, rule: rule.pattern };
+    }
+
+    return this.defaultPolicy === 'allow'
+      ? { allowed: true, topic }
+      : { allowed: false, topic, reason: 'default_policy' };
+  }
+
+  /**
+   * Returns the topics the subject may not join.
+   */
+  async findDenied(subject: TopicAclSubject, topics: string[]): Promise<string[]> {
+    const decisions = await Promise.all(topics.map(topic => this.authorize(subject, topic)));
+    return decisions.filter(decision => !decision.allowed).map(decision => decision.topic);
+  }
+}
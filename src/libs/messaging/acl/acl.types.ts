@@ -0,0 +1,51 @@
+/**
+ * Who is asking to join a topic. Anonymous connections have no `userId` and
+ * only pass rules without user, role or custom checks.
+ */
+export interface TopicAclSubject {
+  userId?: string;
+  roles?: string[];
+}
+
+export interface TopicAclContext {
+  subject: TopicAclSubject;
+  topic: string;
+  // Values captured by `{name}` placeholders in the rule pattern
+  params: Record<string, string>;
+}
+
+export type TopicAclCheck = (context: TopicAclContext) => boolean | Promise<boolean>;
+
+export interface TopicAclRule {
+  // Topic pattern; `{name}` captures a segment into params, `*` matches anything
+  pattern: string;
+  // Deny outright, e.g. to close off a namespace
+  deny?: boolean;
+  // Name of a captured param that must equal the subject's user id
+  userParam?: string;
+  // The subject needs at least one of these roles
+  roles?: string[];
+  // Custom check such as a membership lookup, run after the others pass
+  check?: TopicAclCheck;
+}
+
+export interface TopicAclConfig {
+  rules?: TopicAclRule[];
+  // Applied to topics no rule matches
+  defaultPolicy?: 'allow' | 'deny';
+}
+
+export interface TopicAclDecision {
+  allowed: boolean;
+  topic: string;
+  // Pattern of the rule that decided, absent when the default policy applied
+  rule?: string;
+  reason?: 'denied_by_rule' | 'unauthenticated' | 'user_mismatch' | 'missing_role' | 'check_failed' | 'default_policy';
+}
+
+export class TopicAccessDeniedError extends Error {
+  constructor(message: string, public readonly topics: string[]) {
+    super(message);
+    this.name = 'TopicAccessDeniedError';
+  }
+}
@@ -0,0 +1,4 @@
+export * from './acl.types';
+export * from './acl.constants';
+export * from './acl.service';
+export * from './acl.module';
@@ -1,3 +1,11 @@
 export * from './sse.types';
+export * from './sse.constants';
+export * from './sse.replay';
+export * from './sse.backplane';
+export * from './sse.compression';
+export * from './sse.backpressure';
+export * from './sse.filter';
+export * from './sse.schema';
 export * from './sse.service';
-export * from './sse.module'; 
\ No newline at end of file
+export * from './sse.client';
+export * from './sse.module';
@@ -0,0 +1,214 @@
+import { Logger } from '@nestjs/common';
+import { Response } from 'express';
+import { RedisService } from '../../../core/shared/services/redis.service';
+import { InProcessSSEBackplane, SSEBackplane, UpstashStreamSSEBackplane } from './sse.backplane';
+import { SSE_BACKPLANE_STREAM } from './sse.constants';
+import { SSEService } from './sse.service';
+import { SSEBackplaneMessage } from './sse.types';
+
+jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+
+const createResponse = () =>
+  ({
+    writeHead: jest.fn(),
+    write: jest.fn(),
+    end: jest.fn(),
+  }) as unknown as Response & { write: jest.Mock };
+
+const writtenEvents = (response: { write: jest.Mock }) =>
+  response.write.mock.calls
+    .map(([chunk]) => chunk as string)
+    .filter(chunk => chunk.includes('event: '))
+    .map(chunk => chunk.match(/event: (.+)\n/)![1]);
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('SSE backplane', () => {
+  let backplane: InProcessSSEBackplane;
+  let first: SSEService;
+  let second: SSEService;
+
+  beforeEach(async () => {
+    backplane = new InProcessSSEBackplane();
+    first = new SSEService({ heartbeatInterval: 60000 }, undefined, backplane);
+    second = new SSEService({ heartbeatInterval: 60000 }, undefined, backplane);
+    await first.onModuleInit();
+    await second.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await first.onModuleDestroy();
+    await second.onModuleDestroy();
+  });
+
+  it('should deliver broadcasts to clients on every instance', async () => {
+    const local = createResponse();
+    const remote = createResponse();
+    first.addClient(local, ['news']);
+    second.addClient(remote, ['news']);
+
+    await first.broadcast({ event: 'update', topic: 'news', data: {} });
+
+    expect(writtenEvents(local)).toEqual(['update']);
+    expect(writtenEvents(remote)).toEqual(['update']);
+  });
+
+  it('should route sendToClient to the instance holding the connection', async () => {
+    const response = createResponse();
+    const clientId = second.addClient(response);
+
+    first.sendToClient(clientId, { event: 'direct', data: 'hi' });
+    await flush();
+
+    expect(writtenEvents(response)).toEqual(['direct']);
+  });
+
+  it('should apply subscriptions for clients connected elsewhere', async () => {
+    const response = createResponse();
+    const clientId = second.addClient(response);
+
+    first.subscribe(clientId, ['alerts']);
+    await flush();
+    expect(second.getClient(clientId)?.topics.has('alerts')).toBe(true);
+
+    first.unsubscribe(clientId, ['alerts']);
+    await flush();
+    expect(second.getClient(clientId)?.topics.has('alerts')).toBe(false);
+  });
+
+  it('should ignore its own and duplicate messages', async () => {
+    const response = createResponse();
+    second.addClient(response, ['news']);
+
+    const message: SSEBackplaneMessage = {
+      id: 'msg_1',
+      origin: 'other-instance',
+      type: 'broadcast',
+      event: { event: 'update', topic: 'news', data: {} },
+    };
+    await backplane.publish(message);
+    await backplane.publish(message);
+
+    expect(writtenEvents(response)).toEqual(['update']);
+  });
+
+  it('should still deliver locally when publishing fails', async () => {
+    const failing: SSEBackplane = {
+      publish: jest.fn().mockRejectedValue(new Error('down')),
+      subscribe: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn().mockResolvedValue(undefined),
+    };
+    const service = new SSEService({ heartbeatInterval: 60000 }, undefined, failing);
+    const response = createResponse();
+    service.addClient(response);
+
+    await service.broadcast({ event: 'update', data: {} });
+
+    expect(writtenEvents(response)).toEqual(['update']);
+    await service.onModuleDestroy();
+  });
+});
+
+describe('UpstashStreamSSEBackplane', () => {
+  type StreamEntries = Record<string, Record<string, unknown>>;
+
+  const createRedisMock = () => {
+    const entries: Array<[string, Record<string, unknown>]> = [];
+    const sequenceOf = (id: string) => Number(id.split('-')[0]);
+    let sequence = 1;
+
+    return {
+      entries,
+      xadd: jest.fn(async (_key: string, fields: Record<string, unknown>) => {
+        const id = `${sequence++}-0`;
+        entries.push([id, fields]);
+        return id;
+      }),
+      xrange: jest.fn(async (_key: string, start: string, _end: string, count: number) => {
+        const after = sequenceOf(start.replace(/^\(/, ''));
+        const newer = entries.filter(([id]) => sequenceOf(id) > after);
+        return Object.fromEntries(newer.slice(0, count));
+      }),
+      xrevrange: jest.fn(
+        async (_key: string, _end: string, _start: string, count: number): Promise<StreamEntries | null> =>
+          Object.fromEntries(entries.slice().reverse().slice(0, count))
+      ),
+    };
+  };
+
+  let backplane: UpstashStreamSSEBackplane;
+
+  afterEach(async () => {
+    await backplane.close();
+  });
+
+  it('should read each message published after it subscribed once', async () => {
+    const redis = createRedisMock();
+    backplane = new UpstashStreamSSEBackplane(redis as unknown as RedisService);
+    const handler = jest.fn();
+
+    await backplane.subscribe(handler);
+    await backplane.publish({ id: 'msg_1', origin: 'a', type: 'broadcast' });
+    await backplane.publish({ id: 'msg_2', origin: 'a', type: 'broadcast' });
+    await backplane.poll(handler);
+    await backplane.poll(handler);
+
+    expect(handler.mock.calls.map(([message]) => message.id)).toEqual(['msg_1', 'msg_2']);
+  });
+
+  it('should start after the newest entry, whatever its id says about the time', async () => {
+    const redis = createRedisMock();
+    // Written by an instance whose clock runs a day ahead
+    redis.entries.push([`${Date.now() + 86400000}-0`, { message: JSON.stringify({ id: 'old' }) }]);
+    backplane = new UpstashStreamSSEBackplane(redis as unknown as RedisService);
+    const handler = jest.fn();
+
+    await backplane.subscribe(handler);
+    redis.entries.push([`${Date.now() + 86400001}-0`, { message: JSON.stringify({ id: 'new' }) }]);
+    await backplane.poll(handler);
+
+    expect(handler.mock.calls.map(([message]) => message.id)).toEqual(['new']);
+    expect(redis.xrevrange).toHaveBeenCalledWith(SSE_BACKPLANE_STREAM, '+', '-', 1);
+  });
+
+  it('should find where to start on a later poll when the stream cannot be read', async () => {
+    const redis = createRedisMock();
+    await redis.xadd('stream', { message: JSON.stringify({ id: 'old' }) });
+    redis.xrevrange.mockResolvedValueOnce(null);
+    backplane = new UpstashStreamSSEBackplane(redis as unknown as RedisService);
+    const handler = jest.fn();
+
+    await backplane.subscribe(handler);
+    await backplane.poll(handler);
+    await redis.xadd('stream', { message: JSON.stringify({ id: 'new' }) });
+    await backplane.poll(handler);
+
+    expect(handler.mock.calls.map(([message]) => message.id)).toEqual(['new']);
+  });
+
+  it('should accept messages the client already deserialized', async () => {
+    const redis = createRedisMock();
+    redis.xrange.mockResolvedValueOnce({
+      '1-0': { message: { id: 'msg_1', origin: 'a', type: 'broadcast' } },
+    });
+    backplane = new UpstashStreamSSEBackplane(redis as unknown as RedisService);
+    const handler = jest.fn();
+
+    await backplane.subscribe(handler);
+    await backplane.poll(handler);
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 'msg_1' }));
+  });
+
+  it('should throw when the message cannot be appended', async () => {
+    const redis = createRedisMock();
+    redis.xadd.mockResolvedValueOnce(null as unknown as string);
+    backplane = new UpstashStreamSSEBackplane(redis as unknown as RedisService);
+
+    await expect(
+      backplane.publish({ id: 'msg_1', origin: 'a', type: 'broadcast' })
+    ).rejects.toThrow('Failed to publish backplane message msg_1');
+  });
+});
@@ -0,0 +1,169 @@
+import { Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+import { RedisService } from '../../../core/shared/services/redis.service';
+import { SSE_BACKPLANE_CHANNEL, SSE_BACKPLANE_STREAM } from './sse.constants';
+import { SSEBackplaneMessage } from './sse.types';
+
+const DEFAULT_POLL_INTERVAL = 1000;
+const DEFAULT_STREAM_MAX_LENGTH = 10000;
+const POLL_BATCH_SIZE = 100;
+
+export type SSEBackplaneHandler = (message: SSEBackplaneMessage) => void;
+
+/**
+ * Carries SSE traffic between instances so every instance can reach the
+ * clients connected to it. Implementations may deliver a message more than
+ * once or echo it back to its sender; the service deduplicates by id.
+ */
+export interface SSEBackplane {
+  publish(message: SSEBackplaneMessage): Promise<void>;
+  subscribe(handler: SSEBackplaneHandler): Promise<void>;
+  close(): Promise<void>;
+}
+
+function parseMessage(payload: unknown): SSEBackplaneMessage | null {
+  try {
+    return typeof payload === 'string' ? JSON.parse(payload) : (payload as SSEBackplaneMessage);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delivers messages to every service sharing this instance. Meant for tests
+ * and single-process setups.
+ */
+export class InProcessSSEBackplane implements SSEBackplane {
+  private readonly handlers = new Set<SSEBackplaneHandler>();
+
+  async publish(message: SSEBackplaneMessage): Promise<void> {
+    this.handlers.forEach(handler => handler(message));
+  }
+
+  async subscribe(handler: SSEBackplaneHandler): Promise<void> {
+    this.handlers.add(handler);
+  }
+
+  async close(): Promise<void> {
+    this.handlers.clear();
+  }
+}
+
+/**
+ * Redis pub/sub over a persistent connection. Messages published while an
+ * instance is disconnected are not redelivered to it.
+ */
+export class RedisPubSubSSEBackplane implements SSEBackplane {
+  private readonly logger = new Logger(RedisPubSubSSEBackplane.name);
+
+  constructor(
+    private readonly publisher: Redis,
+    private readonly subscriber: Redis,
+    private readonly channel: string = SSE_BACKPLANE_CHANNEL,
+  ) {}
+
+  async publish(message: SSEBackplaneMessage): Promise<void> {
+    await this.publisher.publish(this.channel, JSON.stringify(message));
+  }
+
+  async subscribe(handler: SSEBackplaneHandler): Promise<void> {
+    this.subscriber.on('message', (channel: string, payload: string) => {
+      if (channel !== this.channel) return;
+
+      const message = parseMessage(payload);
+      if (message) {
+        handler(message);
+      } else {
+        this.logger.warn('Dropped malformed backplane message');
+      }
+    });
+    await this.subscriber.subscribe(this.channel);
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([this.subscriber.quit(), this.publisher.quit()]);
+  }
+}
+
+/**
+ * Upstash's REST API cannot hold a subscription open, so messages are
+ * appended to a Redis stream that every instance polls. Suits serverless
+ * deployments at the cost of up to `pollInterval` ms of latency.
+ */
+export class UpstashStreamSSEBackplane implements SSEBackplane {
+  private readonly logger = new Logger(UpstashStreamSSEBackplane.name);
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+  // Set on subscribe to the stream's newest entry, so only messages published
+  // after that are read; stream ids come from Redis, not this instance's clock
+  private lastStreamId?: string;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly stream: string = SSE_BACKPLANE_STREAM,
+    private readonly pollInterval: number = DEFAULT_POLL_INTERVAL,
+    private readonly maxLength: number = DEFAULT_STREAM_MAX_LENGTH,
+  ) {}
+
+  async publish(message: SSEBackplaneMessage): Promise<void> {
+    const id = await this.redisService.xadd(this.stream, { message: JSON.stringify(message) }, this.maxLength);
+    if (!id) {
+      throw new Error(`Failed to publish backplane message ${message.id}`);
+    }
+  }
+
+  async subscribe(handler: SSEBackplaneHandler): Promise<void> {
+    await this.findStart();
+    this.pollTimer = setInterval(() => {
+      void this.poll(handler);
+    }, this.pollInterval);
+  }
+
+  async poll(handler: SSEBackplaneHandler): Promise<void> {
+    if (this.polling) return;
+
+    this.polling = true;
+    try {
+      // Tried again on each poll until the stream can be read
+      if (!this.lastStreamId && !(await this.findStart())) return;
+
+      const entries = await this.redisService.xrange(
+        this.stream,
+        `(${this.lastStreamId}`,
+        '+',
+        POLL_BATCH_SIZE,
+      );
+
+      for (const [streamId, fields] of Object.entries(entries)) {
+        this.lastStreamId = streamId;
+        const message = parseMessage(fields.message);
+        if (message) {
+          handler(message);
+        } else {
+          this.logger.warn(`Dropped malformed backplane message ${streamId}`);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Failed to poll SSE backplane:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async findStart(): Promise<boolean> {
+    const newest = await this.redisService.xrevrange(this.stream, '+', '-', 1);
+    if (!newest) {
+      this.logger.error('Failed to find where to start reading the SSE backplane');
+      return false;
+    }
+    this.lastStreamId = Object.keys(newest)[0] ?? '0-0';
+    return true;
+  }
+
+  async close(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { EventEmitter } from 'events';
+import { Logger } from '@nestjs/common';
+import { Response } from 'express';
+import { SSEOutboundQueue } from './sse.backpressure';
+import { SSEService } from './sse.service';
+import { SSEBackpressurePolicy } from './sse.types';
+
+jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+
+const message = (type: string, bytes = 10) => ({ type, bytes, message: `${type}:${bytes}` });
+
+describe('SSEOutboundQueue', () => {
+  it('should leave the queue alone under the high-water mark', () => {
+    const queue = new SSEOutboundQueue();
+    queue.push(message('a'));
+
+    expect(queue.relieve('drop-oldest', 100, 50)).toEqual({ dropped: 0, coalesced: 0, evict: false });
+    expect(queue.size).toBe(1);
+  });
+
+  it('should drop the oldest messages until it fits', () => {
+    const queue = new SSEOutboundQueue();
+    ['a', 'b', 'c', 'd'].forEach(type => queue.push(message(type)));
+
+    expect(queue.relieve('drop-oldest', 25, 0).dropped).toBe(2);
+    expect(queue.shift()?.type).toBe('c');
+    expect(queue.bytes).toBe(10);
+  });
+
+  it('should keep the newest message of each type when coalescing', () => {
+    const queue = new SSEOutboundQueue();
+    [message('price', 10), message('chat', 10), message('price', 11), message('price', 12)]
+      .forEach(entry => queue.push(entry));
+
+    const result = queue.relieve('coalesce', 30, 0);
+
+    expect(result).toEqual({ dropped: 0, coalesced: 2, evict: false });
+    expect([queue.shift(), queue.shift()].map(entry => entry?.message)).toEqual(['chat:10', 'price:12']);
+  });
+
+  it('should fall back to dropping when coalescing is not enough', () => {
+    const queue = new SSEOutboundQueue();
+    ['a', 'b', 'c'].forEach(type => queue.push(message(type)));
+
+    expect(queue.relieve('coalesce', 15, 0)).toEqual({ dropped: 2, coalesced: 0, evict: false });
+  });
+
+  it('should only report eviction for the disconnect policy', () => {
+    const queue = new SSEOutboundQueue();
+    queue.push(message('a'));
+
+    expect(queue.relieve('disconnect', 15, 10)).toEqual({ dropped: 0, coalesced: 0, evict: true });
+    expect(queue.size).toBe(1);
+  });
+});
+
+describe('SSEService backpressure', () => {
+  class SlowResponse extends EventEmitter {
+    accepting = true;
+    writableLength = 0;
+    written: string[] = [];
+    writeHead = jest.fn();
+    end = jest.fn();
+
+    write(chunk: string) {
+      this.written.push(chunk);
+      return this.accepting;
+    }
+
+    drain() {
+      this.accepting = true;
+      this.emit('drain');
+    }
+  }
+
+  const createService = (policy: SSEBackpressurePolicy, highWaterMark = 200) =>
+    new SSEService({ heartbeatInterval: 60000, retryAfter: 7000, backpressure: { policy, highWaterMark } });
+
+  const connect = (service: SSEService) => {
+    const response = new SlowResponse();
+    const clientId = service.addClient(response as unknown as Response);
+    response.accepting = false;
+    return { response, clientId };
+  };
+
+  const events = (response: SlowResponse) =>
+    response.written.filter(chunk => chunk.includes('data: ')).map(chunk => chunk.match(/data: (.+)\n/)![1]);
+
+  it('should queue while congested and flush in order on drain', async () => {
+    const service = createService('drop-oldest');
+    const { response, clientId } = connect(service);
+
+    await service.broadcast({ data: 'first' });
+    await service.broadcast({ data: 'second' });
+    await service.broadcast({ data: 'third' });
+
+    expect(events(response)).toEqual(['first']);
+    expect(service.getBufferedBytes(clientId)).toBeGreaterThan(0);
+    expect(service.getBackpressureStats().congestedClients).toBe(1);
+
+    response.drain();
+
+    expect(events(response)).toEqual(['first', 'second', 'third']);
+    expect(service.getBackpressureStats().congestedClients).toBe(0);
+  });
+
+  it('should drop the oldest queued events over the high-water mark', async () => {
+    // Each event is 15 bytes; the first is written before congestion sets in
+    const service = createService('drop-oldest', 40);
+    const { response } = connect(service);
+
+    for (let index = 0; index < 5; index++) {
+      await service.broadcast({ data: `event-${index}` });
+    }
+    response.drain();
+
+    expect(events(response)).toEqual(['event-0', 'event-3', 'event-4']);
+    expect(service.getBackpressureStats()).toEqual(expect.objectContaining({
+      overflows: 2,
+      droppedEvents: 2,
+    }));
+  });
+
+  it('should coalesce queued events by type', async () => {
+    const service = createService('coalesce', 60);
+    const { response } = connect(service);
+
+    await service.broadcast({ data: 'first' });
+    await service.broadcast({ event: 'start', data: 'go' });
+    await service.broadcast({ event: 'price', data: '1' });
+    await service.broadcast({ event: 'price', data: '2' });
+    await service.broadcast({ event: 'price', data: '3' });
+    response.drain();
+
+    expect(events(response)).toEqual(['first', 'go', '3']);
+    expect(service.getBackpressureStats().coalescedEvents).toBeGreaterThan(0);
+  });
+
+  it('should evict with a retry hint under the disconnect policy', async () => {
+    const service = createService('disconnect', 30);
+    const { response, clientId } = connect(service);
+
+    await service.broadcast({ data: 'x'.repeat(30) });
+    await service.broadcast({ data: 'x'.repeat(30) });
+
+    expect(response.written).toContainEqual(expect.stringContaining('event: close\nretry: 7000\n'));
+    expect(response.end).toHaveBeenCalled();
+    expect(service.getClient(clientId)).toBeUndefined();
+    expect(service.getBackpressureStats().evictions).toBe(1);
+  });
+
+  it('should not queue heartbeats for congested clients', async () => {
+    jest.useFakeTimers();
+    const service = new SSEService({ heartbeatInterval: 1000 });
+    await service.onModuleInit();
+    const { response, clientId } = connect(service);
+
+    await service.broadcast({ data: 'stuck' });
+    jest.advanceTimersByTime(3000);
+
+    expect(service.getBufferedBytes(clientId)).toBe(0);
+    response.drain();
+    expect(response.written.filter(chunk => chunk.includes('heartbeat'))).toHaveLength(0);
+
+    await service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,97 @@
+import { SSEBackpressureConfig, SSEBackpressurePolicy } from './sse.types';
+
+export const defaultSSEBackpressureConfig: Required<SSEBackpressureConfig> = {
+  highWaterMark: 1024 * 1024, // 1MB
+  policy: 'disconnect',
+};
+
+export interface QueuedSSEMessage {
+  // Event name, used to coalesce; unnamed events share the default 'message'
+  type: string;
+  bytes: number;
+  message: string;
+}
+
+export interface SSEOverflowResult {
+  dropped: number;
+  coalesced: number;
+  evict: boolean;
+}
+
+/**
+ * Events held back while a client's socket is not accepting writes. Only
+ * exists for congested clients; the service flushes it on `drain`.
+ */
+export class SSEOutboundQueue {
+  private messages: QueuedSSEMessage[] = [];
+  private queuedBytes = 0;
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  get bytes(): number {
+    return this.queuedBytes;
+  }
+
+  push(message: QueuedSSEMessage) {
+    this.messages.push(message);
+    this.queuedBytes += message.bytes;
+  }
+
+  shift(): QueuedSSEMessage | undefined {
+    const message = this.messages.shift();
+    if (message) this.queuedBytes -= message.bytes;
+    return message;
+  }
+
+  /**
+   * Applies the policy until the queue plus `bufferedBytes` already handed to
+   * the socket fits under the high-water mark. Coalescing keeps the newest
+   * event of each type and falls back to dropping the oldest when that is
+   * not enough. Disconnect only reports that the client should be evicted.
+   */
+  relieve(
+    policy: SSEBackpressurePolicy,
+    highWaterMark: number,
+    bufferedBytes: number,
+  ): SSEOverflowResult {
+    const result: SSEOverflowResult = { dropped: 0, coalesced: 0, evict: false };
+    const isOver = () => this.queuedBytes + bufferedBytes > highWaterMark;
+
+    if (!isOver()) return result;
+
+    if (policy === 'disconnect') {
+      result.evict = true;
+      return result;
+    }
+
+    if (policy === 'coalesce') {
+      result.coalesced = this.coalesce();
+    }
+
+    while (isOver() && this.shift()) {
+      result.dropped++;
+    }
+
+    return result;
+  }
+
+  private coalesce(): number {
+    const seen = new Set<string>();
+    const kept: QueuedSSEMessage[] = [];
+
+    // Walk newest first so the latest event of each type survives
+    for (let index = this.messages.length - 1; index >= 0; index--) {
+      const message = this.messages[index];
+      if (seen.has(message.type)) continue;
+      seen.add(message.type);
+      kept.unshift(message);
+    }
+
+    const removed = this.messages.length - kept.length;
+    this.messages = kept;
+    this.queuedBytes = kept.reduce((total, message) => total + message.bytes, 0);
+    return removed;
+  }
+}
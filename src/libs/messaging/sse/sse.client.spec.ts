@@ -0,0 +1,174 @@
+import { Logger } from '@nestjs/common';
+import { firstValueFrom, lastValueFrom, take, toArray } from 'rxjs';
+import { SSEClient, SSEStreamParser } from './sse.client';
+import { SSEClientError, SSEMessage } from './sse.types';
+
+jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+jest.spyOn(Logger.prototype, 'debug').mockImplementation(() => undefined);
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+/**
+ * A streaming response that sends `chunks` and then ends, or stays open
+ * when `keepOpen` is set. Aborting the request errors the body, as fetch does.
+ */
+const streamResponse = (chunks: string[], init: { keepOpen?: boolean; signal?: AbortSignal } = {}) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      init.signal?.addEventListener('abort', () => controller.error(init.signal!.reason));
+      if (!init.keepOpen) {
+        controller.close();
+      }
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'content-type': 'text/event-stream' } });
+};
+
+describe('SSEStreamParser', () => {
+  const parse = (chunks: string[], lastEventId?: string) => {
+    const messages: SSEMessage[] = [];
+    const retries: number[] = [];
+    const parser = new SSEStreamParser(
+      { onMessage: message => messages.push(message), onRetry: retry => retries.push(retry) },
+      lastEventId,
+    );
+    chunks.forEach(chunk => parser.push(chunk));
+    return { messages, retries, parser };
+  };
+
+  it('should parse named events with multi-line data', () => {
+    const { messages } = parse(['event: update\ndata: line 1\ndata: line 2\n\ndata:plain\n\n']);
+
+    expect(messages).toEqual([
+      { event: 'update', data: 'line 1\nline 2', lastEventId: '' },
+      { event: 'message', data: 'plain', lastEventId: '' },
+    ]);
+  });
+
+  it('should handle chunks split anywhere, including inside CRLF', () => {
+    const { messages } = parse(['\uFEFFda', 'ta: he', 'llo\r', '\n\r', '\nid: 7\r\rdata: x\n', '\n']);
+
+    expect(messages.map(message => message.data)).toEqual(['hello', 'x']);
+    expect(messages[1].lastEventId).toBe('7');
+  });
+
+  it('should track ids, comments and retry hints', () => {
+    const { messages, retries, parser } = parse([
+      ': heartbeat\nid: 1\ndata: a\n\ndata: b\n\nretry: 2500\nretry: soon\nid: 3\n\n',
+    ], '0');
+
+    expect(messages).toEqual([
+      { id: '1', event: 'message', data: 'a', lastEventId: '1' },
+      { event: 'message', data: 'b', lastEventId: '1' },
+    ]);
+    expect(retries).toEqual([2500]);
+    // An id without data still moves the resume point
+    expect(parser.getLastEventId()).toBe('3');
+  });
+
+  it('should ignore ids containing NUL', () => {
+    const { messages } = parse(['id: a\0b\ndata: x\n\n'], '5');
+    expect(messages[0]).toEqual({ event: 'message', data: 'x', lastEventId: '5' });
+  });
+});
+
+describe('SSEClient', () => {
+  const createClient = (config = {}) =>
+    new SSEClient({
+      baseUrl: 'https://stream.example.com',
+      retryInterval: 5,
+      backoff: { jitter: 0 },
+      ...config,
+    });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it('should emit parsed events with the configured headers', async () => {
+    mockFetch.mockResolvedValueOnce(streamResponse(['event: a\ndata: 1\n\n', 'data: 2\n\n'], { keepOpen: true }));
+    const client = createClient({ headers: { Authorization: 'Bearer token' } });
+
+    const messages = await lastValueFrom(client.connect('/events').pipe(take(2), toArray()));
+
+    expect(messages.map(message => message.data)).toEqual(['1', '2']);
+    expect(mockFetch).toHaveBeenCalledWith('https://stream.example.com/events', expect.objectContaining({
+      headers: expect.objectContaining({
+        Accept: 'text/event-stream',
+        Authorization: 'Bearer token',
+      }),
+    }));
+  });
+
+  it('should reconnect with Last-Event-ID after the stream ends', async () => {
+    mockFetch
+      .mockResolvedValueOnce(streamResponse(['retry: 1\nid: 41\ndata: a\n\n']))
+      .mockResolvedValueOnce(streamResponse(['id: 42\ndata: b\n\n'], { keepOpen: true }));
+
+    const messages = await lastValueFrom(createClient().connect('/events').pipe(take(2), toArray()));
+
+    expect(messages.map(message => message.id)).toEqual(['41', '42']);
+    expect(mockFetch.mock.calls[0][1].headers['Last-Event-ID']).toBeUndefined();
+    expect(mockFetch.mock.calls[1][1].headers['Last-Event-ID']).toBe('41');
+  });
+
+  it('should back off between failed attempts and give up after maxRetries', async () => {
+    mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+    const client = createClient({ retryInterval: 10, maxRetries: 2, backoff: { multiplier: 3, jitter: 0 } });
+
+    await expect(firstValueFrom(client.connect('/events'))).rejects.toThrow('after 2 failed attempts');
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(setTimeoutSpy.mock.calls.map(call => call[1])).toEqual([10, 30]);
+    setTimeoutSpy.mockRestore();
+  });
+
+  it('should not retry requests the server rejects', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('nope', { status: 401 }));
+
+    const error = await firstValueFrom(createClient().connect('/events')).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SSEClientError);
+    expect(error.status).toBe(401);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry 5xx responses and complete on 204', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    const messages = await lastValueFrom(createClient().connect('/events').pipe(toArray()));
+
+    expect(messages).toEqual([]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reconnect when the heartbeat times out', async () => {
+    mockFetch
+      .mockImplementationOnce((_url, init) => Promise.resolve(streamResponse(['data: a\n\n'], { keepOpen: true, signal: init.signal })))
+      .mockResolvedValueOnce(streamResponse(['data: b\n\n'], { keepOpen: true }));
+
+    const messages = await lastValueFrom(
+      createClient({ heartbeatTimeout: 20 }).connect('/events').pipe(take(2), toArray())
+    );
+
+    expect(messages.map(message => message.data)).toEqual(['a', 'b']);
+    expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+
+  it('should close the stream on unsubscribe', async () => {
+    mockFetch.mockImplementation((_url, init) =>
+      Promise.resolve(streamResponse(['data: a\n\n'], { keepOpen: true, signal: init.signal }))
+    );
+
+    await firstValueFrom(createClient().connect('/events'));
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,349 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { Observable, Subscriber } from 'rxjs';
+import { SSEClientConfig, SSEClientConnectOptions, SSEClientError, SSEMessage } from './sse.types';
+import { SSE_CLIENT_CONFIG } from './sse.constants';
+
+const DEFAULT_EVENT_TYPE = 'message';
+
+export const defaultSSEClientConfig: Required<Omit<SSEClientConfig, 'baseUrl' | 'headers'>> = {
+  retryInterval: 3000,
+  backoff: { multiplier: 2, maxDelay: 30000, jitter: 0.2 },
+  heartbeatTimeout: 0,
+  maxRetries: Infinity,
+  debug: false,
+};
+
+export interface SSEStreamParserHandlers {
+  onMessage: (message: SSEMessage) => void;
+  onRetry?: (retryInterval: number) => void;
+  onComment?: (comment: string) => void;
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format. Chunks may split
+ * lines anywhere, including between the `\r` and `\n` of a line break.
+ */
+export class SSEStreamParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventType = '';
+  private eventId?: string;
+  private pendingCarriageReturn = false;
+  private started = false;
+
+  constructor(
+    private readonly handlers: SSEStreamParserHandlers,
+    private lastEventId = '',
+  ) {}
+
+  getLastEventId(): string {
+    return this.lastEventId;
+  }
+
+  push(chunk: string) {
+    let text = chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      text = text.replace(/^\uFEFF/, '');
+    }
+    if (this.pendingCarriageReturn && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    this.pendingCarriageReturn = false;
+
+    this.buffer += text;
+    let lineStart = 0;
+    for (let index = 0; index < this.buffer.length; index++) {
+      const char = this.buffer[index];
+      if (char !== '\r' && char !== '\n') {
+        continue;
+      }
+
+      this.processLine(this.buffer.slice(lineStart, index));
+      if (char === '\r') {
+        if (index + 1 === this.buffer.length) {
+          this.pendingCarriageReturn = true;
+        } else if (this.buffer[index + 1] === '\n') {
+          index++;
+        }
+      }
+      lineStart = index + 1;
+    }
+    this.buffer = this.buffer.slice(lineStart);
+  }
+
+  private processLine(line: string) {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+
+    if (line.startsWith(':')) {
+      this.handlers.onComment?.(line.slice(1).trimStart());
+      return;
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        // Ids containing NUL are ignored, as browsers do
+        if (!value.includes('\0')) {
+          this.eventId = value;
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.handlers.onRetry?.(Number(value));
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch() {
+    const dataLines = this.dataLines;
+    const eventType = this.eventType;
+    const eventId = this.eventId;
+    this.dataLines = [];
+    this.eventType = '';
+    this.eventId = undefined;
+
+    if (dataLines.length === 0) {
+      return;
+    }
+
+    this.handlers.onMessage({
+      ...(eventId !== undefined ? { id: eventId } : {}),
+      event: eventType || DEFAULT_EVENT_TYPE,
+      data: dataLines.join('\n'),
+      lastEventId: this.lastEventId,
+    });
+  }
+}
+
+/**
+ * Whether reconnecting may help. Network errors, timeouts, 429 and 5xx
+ * responses are retried; other statuses mean the request itself is wrong.
+ */
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof SSEClientError) || error.status === undefined) {
+    return true;
+  }
+  return error.status === 408 || error.status === 429 || error.status >= 500;
+}
+
+/**
+ * One subscriber's stream: opens it, feeds the parser and reconnects until
+ * the subscriber unsubscribes or reconnecting stops making sense.
+ */
+class ReconnectingSSEStream {
+  private lastEventId: string;
+  private retryInterval: number;
+  private failures = 0;
+  private stopped = false;
+  private controller?: AbortController;
+  private reconnectTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly url: string,
+    private readonly headers: Record<string, string>,
+    private readonly config: typeof defaultSSEClientConfig,
+    private readonly subscriber: Subscriber<SSEMessage>,
+    private readonly logger: Logger,
+    lastEventId = '',
+  ) {
+    this.lastEventId = lastEventId;
+    this.retryInterval = config.retryInterval;
+  }
+
+  start() {
+    void this.open();
+  }
+
+  stop() {
+    this.stopped = true;
+    clearTimeout(this.reconnectTimer);
+    clearTimeout(this.heartbeatTimer);
+    this.controller?.abort();
+  }
+
+  private async open() {
+    const controller = new AbortController();
+    this.controller = controller;
+    this.watchHeartbeat(controller);
+
+    try {
+      const response = await fetch(this.url, {
+        headers: {
+          Accept: 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          ...this.headers,
+          ...(this.lastEventId ? { 'Last-Event-ID': this.lastEventId } : {}),
+        },
+        signal: controller.signal,
+      });
+
+      // The server's way of saying the stream is over for good
+      if (response.status === 204) {
+        this.stop();
+        this.subscriber.complete();
+        return;
+      }
+      if (!response.ok) {
+        throw new SSEClientError(`SSE request failed with status ${response.status}`, response.status);
+      }
+      const contentType = response.headers.get('content-type') ?? '';
+      if (!contentType.startsWith('text/event-stream') || !response.body) {
+        throw new SSEClientError(`Expected text/event-stream, got ${contentType || 'no content type'}`, response.status);
+      }
+
+      this.failures = 0;
+      if (this.config.debug) {
+        this.logger.debug(`Connected to ${this.url}`);
+      }
+
+      await this.read(response.body, controller);
+      this.reconnect(new SSEClientError('Stream ended'));
+    } catch (error) {
+      if (this.stopped) {
+        return;
+      }
+      const reason = controller.signal.aborted ? controller.signal.reason : error;
+      if (!isRetryable(reason)) {
+        this.stop();
+        this.subscriber.error(reason);
+        return;
+      }
+      this.reconnect(reason);
+    } finally {
+      clearTimeout(this.heartbeatTimer);
+    }
+  }
+
+  private async read(body: ReadableStream<Uint8Array>, controller: AbortController) {
+    const parser = new SSEStreamParser(
+      {
+        onMessage: message => {
+          this.lastEventId = message.lastEventId;
+          this.subscriber.next(message);
+        },
+        onRetry: retryInterval => {
+          this.retryInterval = retryInterval;
+        },
+      },
+      this.lastEventId,
+    );
+    const decoder = new TextDecoder();
+    const reader = body.getReader();
+
+    while (!this.stopped) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      this.watchHeartbeat(controller);
+      parser.push(decoder.decode(value, { stream: true }));
+      // An id field without data still moves the resume point
+      this.lastEventId = parser.getLastEventId();
+    }
+  }
+
+  /**
+   * (Re)arms the timer that gives up on a connection nothing has arrived on,
+   * including one still waiting for its response headers.
+   */
+  private watchHeartbeat(controller: AbortController) {
+    clearTimeout(this.heartbeatTimer);
+    const timeout = this.config.heartbeatTimeout;
+    if (timeout > 0) {
+      this.heartbeatTimer = setTimeout(
+        () => controller.abort(new SSEClientError(`No data received for ${timeout}ms`)),
+        timeout,
+      );
+    }
+  }
+
+  private reconnect(reason: unknown) {
+    if (this.stopped) {
+      return;
+    }
+    if (this.failures >= this.config.maxRetries) {
+      this.stop();
+      this.subscriber.error(
+        new SSEClientError(`Giving up on ${this.url} after ${this.failures} failed attempts`),
+      );
+      return;
+    }
+
+    const delay = this.getReconnectDelay(this.failures++);
+    this.logger.warn(
+      `SSE stream ${this.url} disconnected (${reason instanceof Error ? reason.message : reason}), reconnecting in ${delay}ms`,
+    );
+    this.reconnectTimer = setTimeout(() => void this.open(), delay);
+  }
+
+  private getReconnectDelay(attempt: number): number {
+    const { multiplier = 2, maxDelay = Infinity, jitter = 0 } = this.config.backoff;
+    const delay = Math.min(this.retryInterval * multiplier ** attempt, maxDelay);
+    return Math.round(delay * (1 + jitter * (Math.random() * 2 - 1)));
+  }
+}
+
+/**
+ * Consumes server-sent event streams, ours or third-party ones, from Node.
+ * Each subscription to `connect()` opens its own stream and keeps it open
+ * across disconnects, resuming from the last event id it saw.
+ */
+@Injectable()
+export class SSEClient {
+  private readonly logger = new Logger(SSEClient.name);
+  private readonly config: typeof defaultSSEClientConfig & Pick<SSEClientConfig, 'baseUrl' | 'headers'>;
+
+  constructor(@Optional() @Inject(SSE_CLIENT_CONFIG) config: SSEClientConfig = {}) {
+    this.config = {
+      ...defaultSSEClientConfig,
+      ...config,
+      backoff: { ...defaultSSEClientConfig.backoff, ...config.backoff },
+    };
+  }
+
+  /**
+   * Returns a cold Observable of the stream's events. Unsubscribing closes
+   * the stream. It errors with SSEClientError when the server rejects the
+   * request or `maxRetries` consecutive attempts fail, and completes when
+   * the server answers 204.
+   */
+  connect(path: string, options: SSEClientConnectOptions = {}): Observable<SSEMessage> {
+    const url = this.config.baseUrl ? new URL(path, this.config.baseUrl).toString() : path;
+    const headers = { ...this.config.headers, ...options.headers };
+
+    return new Observable<SSEMessage>(subscriber => {
+      const stream = new ReconnectingSSEStream(
+        url,
+        headers,
+        this.config,
+        subscriber,
+        this.logger,
+        options.lastEventId,
+      );
+      stream.start();
+      return () => stream.stop();
+    });
+  }
+}
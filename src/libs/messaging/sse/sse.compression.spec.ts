@@ -0,0 +1,91 @@
+import { Logger } from '@nestjs/common';
+import { Response } from 'express';
+import * as zlib from 'zlib';
+import { negotiateEncoding } from './sse.compression';
+import { SSEService } from './sse.service';
+
+jest.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+
+describe('negotiateEncoding', () => {
+  it('should prefer gzip over deflate when both are accepted', () => {
+    expect(negotiateEncoding('deflate, gzip')).toBe('gzip');
+    expect(negotiateEncoding('gzip;q=0.5, deflate')).toBe('deflate');
+  });
+
+  it('should honour wildcards and refusals', () => {
+    expect(negotiateEncoding('*')).toBe('gzip');
+    expect(negotiateEncoding('gzip;q=0, *;q=0.1')).toBe('deflate');
+    expect(negotiateEncoding('br, identity')).toBeUndefined();
+    expect(negotiateEncoding(undefined)).toBeUndefined();
+  });
+});
+
+describe('SSE stream compression', () => {
+  const createResponse = () => {
+    const chunks: Buffer[] = [];
+    const response = {
+      writeHead: jest.fn(),
+      write: jest.fn((chunk: Buffer | string) => {
+        chunks.push(Buffer.from(chunk));
+        return true;
+      }),
+      end: jest.fn(),
+    };
+    return { response, chunks };
+  };
+
+  const waitFor = async (condition: () => boolean) => {
+    for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  };
+
+  let service: SSEService;
+
+  beforeEach(() => {
+    service = new SSEService({ compression: true, heartbeatInterval: 60000 });
+  });
+
+  it.each([
+    ['gzip', zlib.gunzipSync],
+    ['deflate', zlib.inflateSync],
+  ])('should flush each event as decodable %s data', async (encoding, decode) => {
+    const { response, chunks } = createResponse();
+    service.addClient(response as unknown as Response, [], { acceptEncoding: encoding });
+
+    // The stream is still open, so decode what has been flushed so far
+    const decodeFlushed = () =>
+      decode(Buffer.concat(chunks), { finishFlush: zlib.constants.Z_SYNC_FLUSH }).toString();
+
+    await service.broadcast({ event: 'update', data: { value: 'x'.repeat(500) } });
+    await waitFor(() => chunks.length > 0 && decodeFlushed().includes('event: update'));
+
+    const text = decodeFlushed();
+    expect(text).toContain('retry: ');
+    expect(text).toContain('event: update');
+  });
+
+  it('should end the response after the compressed trailer', async () => {
+    const { response, chunks } = createResponse();
+    const clientId = service.addClient(response as unknown as Response, [], { acceptEncoding: 'gzip' });
+
+    await service.removeClient(clientId);
+    await waitFor(() => response.end.mock.calls.length > 0);
+
+    expect(response.end).toHaveBeenCalled();
+    expect(zlib.gunzipSync(Buffer.concat(chunks)).toString()).toContain('retry: ');
+  });
+
+  it('should report bytes saved', async () => {
+    const { response, chunks } = createResponse();
+    service.addClient(response as unknown as Response, [], { acceptEncoding: 'gzip' });
+
+    await service.broadcast({ event: 'update', data: 'a'.repeat(5000) });
+    await waitFor(() => service.getCompressionStats().outputBytes > 0 && chunks.length > 1);
+
+    const stats = service.getCompressionStats();
+    expect(stats.inputBytes).toBeGreaterThan(5000);
+    expect(stats.bytesSaved).toBe(stats.inputBytes - stats.outputBytes);
+    expect(stats.bytesSaved).toBeGreaterThan(4000);
+  });
+});
@@ -0,0 +1,41 @@
+import * as zlib from 'zlib';
+import { SSEEncoding } from './sse.types';
+
+// Preferred first when the client ranks them equally
+const SUPPORTED_ENCODINGS: SSEEncoding[] = ['gzip', 'deflate'];
+
+/**
+ * Picks the encoding for a stream from an `Accept-Encoding` header, honouring
+ * q-values. Returns undefined when the client accepts neither gzip nor
+ * deflate, in which case the stream is sent uncompressed.
+ */
+export function negotiateEncoding(acceptEncoding?: string): SSEEncoding | undefined {
+  if (!acceptEncoding) return undefined;
+
+  const weights = new Map<string, number>();
+  for (const part of acceptEncoding.split(',')) {
+    const [name, ...params] = part.trim().toLowerCase().split(';');
+    if (!name) continue;
+
+    const q = params.map(param => param.trim()).find(param => param.startsWith('q='));
+    const weight = q ? Number(q.slice(2)) : 1;
+    weights.set(name, Number.isFinite(weight) ? weight : 0);
+  }
+
+  let best: SSEEncoding | undefined;
+  let bestWeight = 0;
+  for (const encoding of SUPPORTED_ENCODINGS) {
+    const weight = weights.get(encoding) ?? weights.get('*') ?? 0;
+    if (weight > bestWeight) {
+      best = encoding;
+      bestWeight = weight;
+    }
+  }
+
+  return best;
+}
+
+export function createEncoder(encoding: SSEEncoding, level?: number): zlib.Gzip | zlib.Deflate {
+  const options: zlib.ZlibOptions = level === undefined ? {} : { level };
+  return encoding === 'gzip' ? zlib.createGzip(options) : zlib.createDeflate(options);
+}
@@ -0,0 +1,19 @@
+import { INJECTION_TOKENS } from '../common/constants';
+import { REDIS_CHANNELS, REDIS_PREFIXES } from '../../../common/constants/injection.tokens';
+
+export const SSE_CONFIG = INJECTION_TOKENS.SSE_CONFIG;
+export const SSE_REPLAY_STORE = 'SSE_REPLAY_STORE';
+export const SSE_CLIENT_CONFIG = 'SSE_CLIENT_CONFIG';
+
+// Buffer key for events broadcast without a topic
+export const SSE_GLOBAL_TOPIC = '*';
+
+export const SSE_REPLAY_KEYS = {
+  SEQUENCE: `${REDIS_PREFIXES.SSE}:replay:seq`,
+  EVENTS: `${REDIS_PREFIXES.SSE}:replay:events:`,
+  EVICTED: `${REDIS_PREFIXES.SSE}:replay:evicted:`,
+} as const;
+
+export const SSE_BACKPLANE = 'SSE_BACKPLANE';
+export const SSE_BACKPLANE_CHANNEL = REDIS_CHANNELS.SSE_EVENTS;
+export const SSE_BACKPLANE_STREAM = `${REDIS_PREFIXES.SSE}:backplane`;
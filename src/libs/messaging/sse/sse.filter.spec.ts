@@ -0,0 +1,94 @@
+import { compileSSEFilter, compileSSEProjection } from './sse.filter';
+import { SSEEvent, SSEFilterError } from './sse.types';
+
+const event = (data: any, name = 'alert'): SSEEvent => ({ event: name, topic: 'alerts', data });
+
+describe('compileSSEFilter', () => {
+  it('should compare numbers and strings', () => {
+    const filter = compileSSEFilter({ path: 'data.priority', gte: 2 });
+
+    expect(filter(event({ priority: 3 }))).toBe(true);
+    expect(filter(event({ priority: 1 }))).toBe(false);
+    expect(filter(event({ priority: '3' }))).toBe(false);
+    expect(filter(event({}))).toBe(false);
+  });
+
+  it('should require every operator on a condition', () => {
+    const filter = compileSSEFilter({ path: 'data.score', gt: 10, lt: 20 });
+
+    expect(filter(event({ score: 15 }))).toBe(true);
+    expect(filter(event({ score: 25 }))).toBe(false);
+  });
+
+  it('should support equality, membership, existence and contains', () => {
+    expect(compileSSEFilter({ path: 'event', eq: 'alert' })(event({}))).toBe(true);
+    expect(compileSSEFilter({ path: 'data.level', ne: 'debug' })(event({ level: 'debug' }))).toBe(false);
+    expect(compileSSEFilter({ path: 'data.region', in: ['eu', 'us'] })(event({ region: 'eu' }))).toBe(true);
+    expect(compileSSEFilter({ path: 'data.user', exists: false })(event({}))).toBe(true);
+    expect(compileSSEFilter({ path: 'data.tags', contains: 'urgent' })(event({ tags: ['urgent'] }))).toBe(true);
+    expect(compileSSEFilter({ path: 'data.title', contains: 'down' })(event({ title: 'db down' }))).toBe(true);
+  });
+
+  it('should combine conditions with all, any and not', () => {
+    const filter = compileSSEFilter({
+      all: [
+        { path: 'data.priority', gte: 2 },
+        { any: [{ path: 'data.region', eq: 'eu' }, { not: { path: 'data.internal', exists: true } }] },
+      ],
+    });
+
+    expect(filter(event({ priority: 2, region: 'us' }))).toBe(true);
+    expect(filter(event({ priority: 2, region: 'us', internal: true }))).toBe(false);
+    expect(filter(event({ priority: 2, region: 'eu', internal: true }))).toBe(true);
+    expect(filter(event({ priority: 1 }))).toBe(false);
+  });
+
+  it.each([
+    [{ path: 'data.priority' }, 'needs an operator'],
+    [{ path: 'data.priority', matches: '.*' }, 'Unknown filter operator: matches'],
+    [{ path: 'data.priority', gt: {} }, 'Invalid operand for gt'],
+    [{ path: 'data..x', eq: 1 }, 'Invalid data path'],
+    [{ path: 'data.priority', constructor: 1 }, 'Unknown filter operator: constructor'],
+    [{ path: 'data.priority', toString: 1 }, 'Unknown filter operator: toString'],
+    [JSON.parse('{"path": "data.priority", "__proto__": 1}'), 'Unknown filter operator: __proto__'],
+    [{ all: [] }, 'non-empty list'],
+    [[], 'must be an object'],
+  ])('should reject malformed filters %#', (expression, message) => {
+    expect(() => compileSSEFilter(expression as any)).toThrow(SSEFilterError);
+    expect(() => compileSSEFilter(expression as any)).toThrow(message);
+  });
+
+  it('should reject oversized filters', () => {
+    let deep: any = { path: 'data.a', eq: 1 };
+    for (let level = 0; level < 10; level++) deep = { not: deep };
+    expect(() => compileSSEFilter(deep)).toThrow('nest at most');
+
+    const wide = { any: Array.from({ length: 70 }, () => ({ path: 'data.a', eq: 1 })) };
+    expect(() => compileSSEFilter(wide)).toThrow('at most 64 conditions');
+  });
+});
+
+describe('compileSSEProjection', () => {
+  it('should keep only the listed data paths', () => {
+    const project = compileSSEProjection(['id', 'user.name']);
+
+    expect(project(event({ id: 1, body: 'large', user: { name: 'a', email: 'b' } }))).toEqual({
+      event: 'alert',
+      topic: 'alerts',
+      data: { id: 1, user: { name: 'a' } },
+    });
+  });
+
+  it('should reject array indexes', () => {
+    expect(() => compileSSEProjection(['items[0]'])).toThrow(SSEFilterError);
+  });
+
+  it('should reject paths into prototypes', () => {
+    expect(() => compileSSEProjection(['__proto__.polluted'])).toThrow(SSEFilterError);
+    expect(() => compileSSEFilter({ path: 'data.constructor', exists: true })).toThrow(SSEFilterError);
+
+    const project = compileSSEProjection(['user.toString']);
+    expect(project(event(JSON.parse('{"__proto__": {"polluted": true}, "user": {}}'))).data).toEqual({});
+    expect(({} as any).polluted).toBeUndefined();
+  });
+});
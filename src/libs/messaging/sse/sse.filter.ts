@@ -0,0 +1,143 @@
+import { parseDataPath, projectPayload, resolveSegments } from '../webhook/webhook.filter';
+import {
+  SSEEvent,
+  SSEFieldPredicate,
+  SSEFilterError,
+  SSEFilterExpression,
+} from './sse.types';
+
+// Client-supplied filters run on every event, so keep them small
+const MAX_FILTER_DEPTH = 8;
+const MAX_FILTER_CONDITIONS = 64;
+const MAX_PROJECTED_FIELDS = 32;
+
+type Operator = Exclude<keyof SSEFieldPredicate, 'path'>;
+type Predicate = (event: SSEEvent) => boolean;
+
+const isScalar = (value: unknown) =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+const isComparable = (value: unknown) => typeof value === 'string' || typeof value === 'number';
+
+const OPERAND_CHECKS: Record<Operator, (operand: unknown) => boolean> = {
+  eq: isScalar,
+  ne: isScalar,
+  gt: isComparable,
+  gte: isComparable,
+  lt: isComparable,
+  lte: isComparable,
+  in: operand => Array.isArray(operand) && operand.every(isScalar),
+  exists: operand => typeof operand === 'boolean',
+  contains: isScalar,
+};
+
+function compare(value: unknown, operand: unknown, test: (a: any, b: any) => boolean): boolean {
+  // Only like with like, so '10' never compares against 9
+  return isComparable(value) && typeof value === typeof operand && test(value, operand);
+}
+
+const OPERATORS: Record<Operator, (value: unknown, operand: any) => boolean> = {
+  eq: (value, operand) => value === operand,
+  ne: (value, operand) => value !== operand,
+  gt: (value, operand) => compare(value, operand, (a, b) => a > b),
+  gte: (value, operand) => compare(value, operand, (a, b) => a >= b),
+  lt: (value, operand) => compare(value, operand, (a, b) => a < b),
+  lte: (value, operand) => compare(value, operand, (a, b) => a <= b),
+  in: (value, operand: unknown[]) => operand.includes(value),
+  exists: (value, operand: boolean) => (value !== undefined) === operand,
+  contains: (value, operand) =>
+    Array.isArray(value)
+      ? value.includes(operand)
+      : typeof value === 'string' && typeof operand === 'string' && value.includes(operand),
+};
+
+function parsePath(path: string) {
+  try {
+    return parseDataPath(path);
+  } catch (error) {
+    throw new SSEFilterError(error.message);
+  }
+}
+
+function compilePredicate(predicate: SSEFieldPredicate): Predicate {
+  if (typeof predicate.path !== 'string') {
+    throw new SSEFilterError('Filter condition needs a path');
+  }
+  const segments = parsePath(predicate.path);
+
+  const operators = Object.keys(predicate).filter(key => key !== 'path') as Operator[];
+  if (operators.length === 0) {
+    throw new SSEFilterError(`Filter on ${predicate.path} needs an operator`);
+  }
+
+  for (const operator of operators) {
+    // Own keys only, so inherited names such as `constructor` are not operators
+    if (!Object.prototype.hasOwnProperty.call(OPERATORS, operator)) {
+      throw new SSEFilterError(`Unknown filter operator: ${operator}`);
+    }
+    if (!OPERAND_CHECKS[operator](predicate[operator])) {
+      throw new SSEFilterError(`Invalid operand for ${operator} on ${predicate.path}`);
+    }
+  }
+
+  return event => {
+    const value = resolveSegments(event, segments);
+    return operators.every(operator => OPERATORS[operator](value, predicate[operator]));
+  };
+}
+
+/**
+ * Turns a JSON filter into a predicate over events, rejecting anything
+ * malformed or oversized up front. Paths resolve against the whole event,
+ * e.g. `data.priority` or `event`.
+ */
+export function compileSSEFilter(expression: SSEFilterExpression): Predicate {
+  let conditions = 0;
+
+  const compile = (node: SSEFilterExpression, depth: number): Predicate => {
+    if (depth > MAX_FILTER_DEPTH) {
+      throw new SSEFilterError(`Filters may nest at most ${MAX_FILTER_DEPTH} levels`);
+    }
+    if (++conditions > MAX_FILTER_CONDITIONS) {
+      throw new SSEFilterError(`Filters may have at most ${MAX_FILTER_CONDITIONS} conditions`);
+    }
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      throw new SSEFilterError('Filter must be an object');
+    }
+
+    if ('all' in node || 'any' in node) {
+      const children = 'all' in node ? node.all : node.any;
+      if (!Array.isArray(children) || children.length === 0) {
+        throw new SSEFilterError('all and any need a non-empty list of conditions');
+      }
+      const predicates = children.map(child => compile(child, depth + 1));
+      return 'all' in node
+        ? event => predicates.every(predicate => predicate(event))
+        : event => predicates.some(predicate => predicate(event));
+    }
+
+    if ('not' in node) {
+      const predicate = compile(node.not, depth + 1);
+      return event => !predicate(event);
+    }
+
+    return compilePredicate(node);
+  };
+
+  return compile(expression, 1);
+}
+
+/**
+ * Returns a transform that keeps only the listed paths of `event.data`.
+ */
+export function compileSSEProjection(fields: string[]): (event: SSEEvent) => SSEEvent {
+  if (fields.length > MAX_PROJECTED_FIELDS) {
+    throw new SSEFilterError(`At most ${MAX_PROJECTED_FIELDS} fields can be projected`);
+  }
+  for (const field of fields) {
+    if (parsePath(field).some(segment => typeof segment === 'number')) {
+      throw new SSEFilterError(`Projected fields cannot index into arrays: ${field}`);
+    }
+  }
+
+  return event => ({ ...event, data: projectPayload(event.data, fields) });
+}
@@ -0,0 +1,36 @@
+import { Counter } from 'prom-client';
+
+export const sseCompressionInputBytes = new Counter({
+  name: 'sse_compression_input_bytes_total',
+  help: 'Bytes of SSE stream text written to compressed client streams',
+  labelNames: ['encoding'],
+});
+
+export const sseCompressionOutputBytes = new Counter({
+  name: 'sse_compression_output_bytes_total',
+  help: 'Compressed bytes sent to SSE clients',
+  labelNames: ['encoding'],
+});
+
+export const sseBackpressureOverflows = new Counter({
+  name: 'sse_backpressure_overflows_total',
+  help: 'Times a congested SSE client went over its high-water mark',
+  labelNames: ['policy'],
+});
+
+export const sseBackpressureDroppedEvents = new Counter({
+  name: 'sse_backpressure_dropped_events_total',
+  help: 'SSE events discarded for congested clients',
+  labelNames: ['reason'],
+});
+
+export const sseBackpressureEvictions = new Counter({
+  name: 'sse_backpressure_evictions_total',
+  help: 'SSE clients disconnected for not keeping up',
+});
+
+export const sseSchemaViolations = new Counter({
+  name: 'sse_schema_violations_total',
+  help: 'SSE events whose payload did not match the registered schema',
+  labelNames: ['event', 'mode'],
+});
@@ -1,19 +1,119 @@
-import { DynamicModule, Module } from '@nestjs/common';
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import Redis from 'ioredis';
 import { SSEService } from './sse.service';
-import { SSEConfig } from './sse.types';
+import { SSEConfig, SSEClientConfig } from './sse.types';
+import { SSEClient } from './sse.client';
+import { SSEReplayStore, RedisSSEReplayStore } from './sse.replay';
+import {
+  SSEBackplane,
+  InProcessSSEBackplane,
+  RedisPubSubSSEBackplane,
+  UpstashStreamSSEBackplane,
+} from './sse.backplane';
+import { SSE_BACKPLANE, SSE_CLIENT_CONFIG, SSE_CONFIG, SSE_REPLAY_STORE } from './sse.constants';
+import { TopicAclService } from '../acl';
+import { SharedModule } from '../../../core/shared/shared.module';
+import { RedisService } from '../../../core/shared/services/redis.service';
+
+function createBackplaneProvider(config: SSEConfig): Provider {
+  const backplane = config.backplane!;
+
+  switch (backplane.type) {
+    case 'redis':
+      return {
+        provide: SSE_BACKPLANE,
+        useFactory: (configService: ConfigService): SSEBackplane => {
+          const url = configService.getOrThrow<string>('REDIS_URL');
+          // A connection in subscriber mode cannot publish, so each side gets its own
+          return new RedisPubSubSSEBackplane(new Redis(url), new Redis(url), backplane.channel);
+        },
+        inject: [ConfigService],
+      };
+    case 'upstash':
+      return {
+        provide: SSE_BACKPLANE,
+        useFactory: (redisService: RedisService): SSEBackplane =>
+          new UpstashStreamSSEBackplane(
+            redisService,
+            backplane.channel,
+            backplane.pollInterval,
+            backplane.streamMaxLength,
+          ),
+        inject: [RedisService],
+      };
+    default:
+      return {
+        provide: SSE_BACKPLANE,
+        useValue: new InProcessSSEBackplane(),
+      };
+  }
+}
 
 @Module({})
 export class SSEModule {
-  static forRoot(config?: SSEConfig): DynamicModule {
+  static forRoot(config: SSEConfig = {}): DynamicModule {
+    // Only pull in Redis when the replay buffer or backplane is meant to live there
+    const useRedisReplay = !!config.replay?.enabled && config.replay.storage === 'redis';
+    const useBackplane = !!config.backplane;
+    const needsShared = useRedisReplay || config.backplane?.type === 'upstash';
+
     return {
       module: SSEModule,
+      imports: needsShared ? [SharedModule] : [],
       providers: [
+        {
+          provide: SSE_CONFIG,
+          useValue: config,
+        },
+        ...(useRedisReplay
+          ? [
+              {
+                provide: SSE_REPLAY_STORE,
+                useFactory: (redisService: RedisService): SSEReplayStore =>
+                  new RedisSSEReplayStore(redisService, config.replay?.bufferSize, config.replay?.ttl),
+                inject: [RedisService],
+              },
+            ]
+          : []),
+        ...(useBackplane ? [createBackplaneProvider(config)] : []),
         {
           provide: SSEService,
-          useFactory: () => new SSEService(config),
+          useFactory: (
+            replayStore?: SSEReplayStore,
+            backplane?: SSEBackplane,
+            topicAcl?: TopicAclService,
+          ) => new SSEService(config, replayStore, backplane, topicAcl),
+          inject: [
+            { token: SSE_REPLAY_STORE, optional: true },
+            { token: SSE_BACKPLANE, optional: true },
+            // Provided globally by TopicAclModule when the app configures one
+            { token: TopicAclService, optional: true },
+          ],
         },
       ],
       exports: [SSEService],
     };
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Provides SSEClient for consuming event streams, independently of the
+ * server side in SSEModule.
+ */
+@Module({})
+export class SSEClientModule {
+  static forRoot(config: SSEClientConfig = {}): DynamicModule {
+    return {
+      module: SSEClientModule,
+      providers: [
+        {
+          provide: SSE_CLIENT_CONFIG,
+          useValue: config,
+        },
+        SSEClient,
+      ],
+      exports: [SSEClient],
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import { RedisService } from '../../../core/shared/services/redis.service';
+import { InMemorySSEReplayStore, RedisSSEReplayStore, SSEReplayStore } from './sse.replay';
+import { SSE_REPLAY_KEYS } from './sse.constants';
+
+const createRedisMock = () => {
+  const values = new Map<string, any>();
+  const lists = new Map<string, string[]>();
+  let sequence = 0;
+
+  return {
+    values,
+    lists,
+    incr: jest.fn(async () => ++sequence),
+    expire: jest.fn(async () => true),
+    get: jest.fn(async (key: string) => values.get(key) ?? null),
+    set: jest.fn(async (key: string, value: any) => {
+      values.set(key, value);
+      return true;
+    }),
+    lpush: jest.fn(async (key: string, value: string) => {
+      lists.set(key, [value, ...(lists.get(key) ?? [])]);
+      return true;
+    }),
+    lrange: jest.fn(async (key: string, start: number, stop: number) => {
+      const list = lists.get(key) ?? [];
+      return list.slice(start, stop === -1 ? undefined : stop + 1);
+    }),
+    ltrim: jest.fn(async (key: string, start: number, stop: number) => {
+      lists.set(key, (lists.get(key) ?? []).slice(start, stop + 1));
+      return true;
+    }),
+  };
+};
+
+describe.each([
+  ['InMemorySSEReplayStore', () => new InMemorySSEReplayStore(3)],
+  [
+    'RedisSSEReplayStore',
+    () => new RedisSSEReplayStore(createRedisMock() as unknown as RedisService, 3),
+  ],
+])('%s', (_name, createStore: () => SSEReplayStore) => {
+  let store: SSEReplayStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('should assign increasing ids across topics', async () => {
+    const first = await store.append('chat', { data: 'a' });
+    const second = await store.append('news', { data: 'b' });
+
+    expect(first.id).toBe('1');
+    expect(second.id).toBe('2');
+  });
+
+  it('should return events after the given id, in order, for the requested topics', async () => {
+    await store.append('chat', { data: 'a' });
+    await store.append('news', { data: 'b' });
+    await store.append('chat', { data: 'c' });
+    await store.append('other', { data: 'd' });
+
+    const result = await store.getEventsAfter(['chat', 'news'], '1');
+
+    expect(result.reset).toBe(false);
+    expect(result.events.map(event => event.data)).toEqual(['b', 'c']);
+  });
+
+  it('should signal a reset once events after the id were evicted', async () => {
+    for (const data of ['a', 'b', 'c', 'd', 'e']) {
+      await store.append('chat', { data });
+    }
+
+    expect((await store.getEventsAfter(['chat'], '1')).reset).toBe(true);
+    const result = await store.getEventsAfter(['chat'], '2');
+    expect(result.reset).toBe(false);
+    expect(result.events.map(event => event.data)).toEqual(['c', 'd', 'e']);
+  });
+
+  it('should signal a reset for ids it did not issue', async () => {
+    expect((await store.getEventsAfter(['chat'], 'heartbeat')).reset).toBe(true);
+  });
+});
+
+describe('RedisSSEReplayStore', () => {
+  it('should namespace keys and expire idle buffers', async () => {
+    const redis = createRedisMock();
+    const store = new RedisSSEReplayStore(redis as unknown as RedisService, 10, 60);
+
+    await store.append('chat', { data: 'a' });
+
+    expect(redis.incr).toHaveBeenCalledWith(SSE_REPLAY_KEYS.SEQUENCE);
+    expect(redis.lists.has(`${SSE_REPLAY_KEYS.EVENTS}chat`)).toBe(true);
+    expect(redis.expire).toHaveBeenCalledWith(`${SSE_REPLAY_KEYS.EVENTS}chat`, 60);
+  });
+
+  it('should throw when no id can be allocated', async () => {
+    const redis = createRedisMock();
+    redis.incr.mockResolvedValueOnce(null as any);
+    const store = new RedisSSEReplayStore(redis as unknown as RedisService);
+
+    await expect(store.append('chat', { data: 'a' })).rejects.toThrow(
+      'Failed to allocate an event id for topic chat'
+    );
+  });
+});
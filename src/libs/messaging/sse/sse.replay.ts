@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { RedisService } from '../../../core/shared/services/redis.service';
+import { SSE_REPLAY_KEYS } from './sse.constants';
+import { SSEEvent, SSEReplayResult } from './sse.types';
+
+const DEFAULT_BUFFER_SIZE = 100;
+const DEFAULT_BUFFER_TTL = 3600; // 1 hour
+
+/**
+ * Keeps the most recent events per topic so reconnecting clients can catch
+ * up. Ids are assigned by the store from a single increasing sequence, so one
+ * `Last-Event-ID` marks a position across every topic a client follows.
+ */
+export interface SSEReplayStore {
+  append<T>(topic: string, event: SSEEvent<T>): Promise<SSEEvent<T>>;
+  getEventsAfter(topics: string[], lastEventId: string): Promise<SSEReplayResult>;
+}
+
+function parseSequence(id: string | undefined): number | null {
+  if (id === undefined || !/^\d+$/.test(id)) return null;
+  return Number(id);
+}
+
+function sortById(events: SSEEvent[]): SSEEvent[] {
+  return events.sort((a, b) => Number(a.id) - Number(b.id));
+}
+
+export class InMemorySSEReplayStore implements SSEReplayStore {
+  private sequence = 0;
+  private readonly buffers = new Map<string, { events: SSEEvent[]; evictedThrough: number }>();
+
+  constructor(private readonly bufferSize: number = DEFAULT_BUFFER_SIZE) {}
+
+  async append<T>(topic: string, event: SSEEvent<T>): Promise<SSEEvent<T>> {
+    const stored = { ...event, id: String(++this.sequence) };
+    const buffer = this.buffers.get(topic) ?? { events: [], evictedThrough: 0 };
+
+    buffer.events.push(stored);
+    while (buffer.events.length > this.bufferSize) {
+      buffer.evictedThrough = Number(buffer.events.shift()!.id);
+    }
+    this.buffers.set(topic, buffer);
+
+    return stored;
+  }
+
+  async getEventsAfter(topics: string[], lastEventId: string): Promise<SSEReplayResult> {
+    const after = parseSequence(lastEventId);
+    if (after === null) return { events: [], reset: true };
+
+    const events: SSEEvent[] = [];
+    for (const topic of topics) {
+      const buffer = this.buffers.get(topic);
+      if (!buffer) continue;
+      if (buffer.evictedThrough > after) return { events: [], reset: true };
+      events.push(...buffer.events.filter(event => Number(event.id) > after));
+    }
+
+    return { events: sortById(events), reset: false };
+  }
+}
+
+@Injectable()
+export class RedisSSEReplayStore implements SSEReplayStore {
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly bufferSize: number = DEFAULT_BUFFER_SIZE,
+    private readonly ttl: number = DEFAULT_BUFFER_TTL,
+  ) {}
+
+  async append<T>(topic: string, event: SSEEvent<T>): Promise<SSEEvent<T>> {
+    const sequence = await this.redisService.incr(SSE_REPLAY_KEYS.SEQUENCE);
+    if (sequence === null) {
+      throw new Error(`Failed to allocate an event id for topic ${topic}`);
+    }
+
+    const stored = { ...event, id: String(sequence) };
+    const key = `${SSE_REPLAY_KEYS.EVENTS}${topic}`;
+    // Newest first, so the entries past `bufferSize` are the ones to evict
+    await this.redisService.lpush(key, JSON.stringify(stored));
+
+    const evicted = await this.redisService.lrange(key, this.bufferSize, -1);
+    if (evicted.length > 0) {
+      const evictedThrough = Math.max(...evicted.map(entry => Number(this.parse(entry)?.id ?? 0)));
+      const evictedKey = `${SSE_REPLAY_KEYS.EVICTED}${topic}`;
+      const current = Number(await this.redisService.get(evictedKey)) || 0;
+      if (evictedThrough > current) {
+        await this.redisService.set(evictedKey, evictedThrough, this.ttl);
+      }
+      await this.redisService.ltrim(key, 0, this.bufferSize - 1);
+    }
+
+    await this.redisService.expire(key, this.ttl);
+    return stored;
+  }
+
+  async getEventsAfter(topics: string[], lastEventId: string): Promise<SSEReplayResult> {
+    const after = parseSequence(lastEventId);
+    if (after === null) return { events: [], reset: true };
+
+    const events: SSEEvent[] = [];
+    for (const topic of topics) {
+      const evictedThrough = Number(await this.redisService.get(`${SSE_REPLAY_KEYS.EVICTED}${topic}`)) || 0;
+      if (evictedThrough > after) return { events: [], reset: true };
+
+      const entries = await this.redisService.lrange(`${SSE_REPLAY_KEYS.EVENTS}${topic}`, 0, -1);
+      for (const entry of entries) {
+        const event = this.parse(entry);
+        if (event && Number(event.id) > after) events.push(event);
+      }
+    }
+
+    return { events: sortById(events), reset: false };
+  }
+
+  private parse(entry: unknown): SSEEvent | null {
+    try {
+      return typeof entry === 'string' ? JSON.parse(entry) : (entry as SSEEvent);
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { IsIn, IsInt, IsOptional, IsString, Min } from 'class-validator';
+import { SSEEventSchemaRegistry, dtoToJsonSchema, validateJsonSchema } from './sse.schema';
+import { SSEJsonSchema } from './sse.types';
+
+class OrderUpdatedDto {
+  @IsString()
+  orderId: string;
+
+  @IsIn(['pending', 'shipped'])
+  status: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  items?: number;
+}
+
+const priceSchema: SSEJsonSchema = {
+  type: 'object',
+  properties: {
+    symbol: { type: 'string', pattern: '^[A-Z]+$' },
+    price: { type: 'number', minimum: 0 },
+    tags: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['symbol', 'price'],
+  additionalProperties: false,
+};
+
+describe('SSE event schemas', () => {
+  describe('validateJsonSchema', () => {
+    it('should accept conforming payloads', () => {
+      expect(validateJsonSchema(priceSchema, { symbol: 'ACME', price: 1.5, tags: ['a'] })).toEqual([]);
+    });
+
+    it('should report each violation with its path', () => {
+      expect(validateJsonSchema(priceSchema, { symbol: 'acme', price: -1, tags: [1], extra: true })).toEqual([
+        'data.symbol: must match ^[A-Z]+$',
+        'data.price: must be >= 0',
+        'data.tags[0]: must be string',
+        'data.extra: is not allowed',
+      ]);
+    });
+
+    it('should report missing required properties and wrong types', () => {
+      expect(validateJsonSchema(priceSchema, { symbol: 'ACME' })).toEqual(['data.price: is required']);
+      expect(validateJsonSchema(priceSchema, 'ACME')).toEqual(['data: must be object']);
+      expect(validateJsonSchema({ type: 'integer' }, 1.5)).toEqual(['data: must be integer']);
+    });
+  });
+
+  describe('dtoToJsonSchema', () => {
+    it('should derive a schema from class-validator metadata', () => {
+      expect(dtoToJsonSchema(OrderUpdatedDto)).toEqual({
+        type: 'object',
+        properties: {
+          orderId: { type: 'string' },
+          status: { enum: ['pending', 'shipped'] },
+          items: { type: 'integer', minimum: 0 },
+        },
+        required: ['orderId', 'status'],
+      });
+    });
+  });
+
+  describe('SSEEventSchemaRegistry', () => {
+    const registry = new SSEEventSchemaRegistry({
+      'order.updated': { dto: OrderUpdatedDto, description: 'An order changed state' },
+      price: { jsonSchema: priceSchema },
+    });
+
+    it('should validate DTO-backed events with class-validator', () => {
+      expect(registry.validate({ event: 'order.updated', data: { orderId: 'o1', status: 'pending' } })).toEqual([]);
+      expect(registry.validate({ event: 'order.updated', data: { orderId: 'o1', status: 'lost' } }))
+        .toEqual([expect.stringMatching(/^data\.status: /)]);
+      expect(registry.validate({ event: 'order.updated', data: 'o1' })).toEqual(['data: must be an object']);
+    });
+
+    it('should not check events without a registered schema', () => {
+      expect(registry.validate({ event: 'unknown', data: 42 })).toEqual([]);
+      expect(registry.validate({ data: 42 })).toEqual([]);
+    });
+
+    it('should export a sorted JSON catalogue', () => {
+      const catalogue = registry.getCatalogue();
+
+      expect(Object.keys(catalogue.events)).toEqual(['order.updated', 'price']);
+      expect(catalogue.events['order.updated'].description).toBe('An order changed state');
+      expect(catalogue.events.price.schema).toBe(priceSchema);
+      expect(JSON.parse(JSON.stringify(catalogue))).toEqual(catalogue);
+    });
+
+    it('should render TypeScript declarations for the catalogue', () => {
+      const source = registry.toTypeScript();
+
+      expect(source).toContain('/** An order changed state */');
+      expect(source).toContain('"order.updated": {\n    orderId: string;\n    status: "pending" | "shipped";\n    items?: number;\n  };');
+      expect(source).toContain('price: {\n    symbol: string;\n    price: number;\n    tags?: Array<string>;\n  };');
+      expect(source).toContain('export type SSEEventName = keyof SSEEventPayloads;');
+    });
+  });
+});
@@ -0,0 +1,384 @@
+import { plainToInstance } from 'class-transformer';
+import { ValidationError, ValidationTypes, getMetadataStorage, validateSync } from 'class-validator';
+import {
+  SSEEvent,
+  SSEEventCatalogue,
+  SSEEventSchemaDefinition,
+  SSEJsonSchema,
+  SSEJsonSchemaType,
+} from './sse.types';
+
+// Name SSE clients see for events sent without one
+export const SSE_DEFAULT_EVENT_NAME = 'message';
+
+/**
+ * Events the service itself sends, so they appear in the catalogue. `close`
+ * is written directly to the stream and never validated.
+ */
+export const SSE_BUILT_IN_EVENT_SCHEMAS: Record<string, SSEEventSchemaDefinition> = {
+  subscription_denied: {
+    description: 'Topics left out of a subscription because access was denied',
+    jsonSchema: {
+      type: 'object',
+      properties: { topics: { type: 'array', items: { type: 'string' } } },
+      required: ['topics'],
+    },
+  },
+  heartbeat: {
+    description: 'Keep-alive sent on every heartbeat interval, carrying the server time',
+    jsonSchema: { type: 'string', format: 'date-time' },
+  },
+  reset: {
+    description: 'Events since lastEventId can no longer be replayed; reload state before continuing',
+    jsonSchema: {
+      type: 'object',
+      properties: { lastEventId: { type: 'string' } },
+      required: ['lastEventId'],
+    },
+  },
+  close: {
+    description: 'The server is closing the stream; reconnect after the retry delay',
+    jsonSchema: {
+      type: 'object',
+      properties: { reason: { type: 'string' } },
+      required: ['reason'],
+    },
+  },
+};
+
+interface RegisteredSchema {
+  description?: string;
+  schema: SSEJsonSchema;
+  validate: (data: unknown) => string[];
+}
+
+type DtoClass = new (...args: any[]) => object;
+
+/**
+ * class-validator decorators with a JSON Schema equivalent. Anything else is
+ * still enforced at runtime but does not show up in the catalogue.
+ */
+const DTO_CONSTRAINTS: Record<string, (constraints: any[]) => SSEJsonSchema> = {
+  isString: () => ({ type: 'string' }),
+  isNumber: () => ({ type: 'number' }),
+  isInt: () => ({ type: 'integer' }),
+  isBoolean: () => ({ type: 'boolean' }),
+  isArray: () => ({ type: 'array' }),
+  isObject: () => ({ type: 'object' }),
+  isIn: ([values]) => ({ enum: values }),
+  isEnum: ([entity]) => ({
+    // Skip the reverse mappings TypeScript adds to numeric enums
+    enum: Object.keys(entity).filter(key => isNaN(Number(key))).map(key => entity[key]),
+  }),
+  min: ([value]) => ({ minimum: value }),
+  max: ([value]) => ({ maximum: value }),
+  minLength: ([value]) => ({ minLength: value }),
+  maxLength: ([value]) => ({ maxLength: value }),
+  isNotEmpty: () => ({ minLength: 1 }),
+  matches: ([pattern]) => ({ pattern: pattern instanceof RegExp ? pattern.source : String(pattern) }),
+  isUUID: () => ({ type: 'string', format: 'uuid' }),
+  isEmail: () => ({ type: 'string', format: 'email' }),
+  isUrl: () => ({ type: 'string', format: 'uri' }),
+  isDateString: () => ({ type: 'string', format: 'date-time' }),
+  isISO8601: () => ({ type: 'string', format: 'date-time' }),
+  arrayMinSize: ([value]) => ({ minItems: value }),
+  arrayMaxSize: ([value]) => ({ maxItems: value }),
+};
+
+/**
+ * Derives a JSON Schema for a class-validator DTO from its decorator
+ * metadata. Properties are required unless marked `@IsOptional()`.
+ */
+export function dtoToJsonSchema(dto: DtoClass): SSEJsonSchema {
+  const metadatas = getMetadataStorage().getTargetValidationMetadatas(dto, '', true, false);
+  const properties: Record<string, SSEJsonSchema> = {};
+  const optional = new Set<string>();
+
+  for (const metadata of metadatas) {
+    const property = (properties[metadata.propertyName] ??= {});
+    if (metadata.type === ValidationTypes.CONDITIONAL_VALIDATION) {
+      optional.add(metadata.propertyName);
+      continue;
+    }
+
+    const toSchema = metadata.name ? DTO_CONSTRAINTS[metadata.name] : undefined;
+    if (!toSchema) {
+      continue;
+    }
+
+    const schema = toSchema(metadata.constraints ?? []);
+    if (metadata.each) {
+      property.type = 'array';
+      property.items = { ...property.items, ...schema };
+    } else {
+      Object.assign(property, schema);
+    }
+  }
+
+  const required = Object.keys(properties).filter(name => !optional.has(name));
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+function flattenValidationErrors(errors: ValidationError[], parent = 'data'): string[] {
+  return errors.flatMap(error => {
+    const path = `${parent}.${error.property}`;
+    const messages = Object.values(error.constraints ?? {}).map(message => `${path}: ${message}`);
+    return [...messages, ...flattenValidationErrors(error.children ?? [], path)];
+  });
+}
+
+function validateDto(dto: DtoClass, data: unknown): string[] {
+  if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+    return ['data: must be an object'];
+  }
+  const instance = plainToInstance(dto, data);
+  return flattenValidationErrors(validateSync(instance, { forbidUnknownValues: false }));
+}
+
+function typeOf(value: unknown): SSEJsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value as SSEJsonSchemaType;
+}
+
+function matchesType(value: unknown, type: SSEJsonSchemaType): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeOf(value) === type;
+}
+
+/**
+ * Checks a value against the subset of JSON Schema in `SSEJsonSchema` and
+ * returns one message per violation, prefixed with the value's path.
+ */
+export function validateJsonSchema(schema: SSEJsonSchema, value: unknown, path = 'data'): string[] {
+  if (schema.anyOf && !schema.anyOf.some(option => validateJsonSchema(option, value, path).length === 0)) {
+    return [`${path}: must match one of the allowed schemas`];
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: must be ${types.join(' or ')}`];
+    }
+  }
+
+  const errors: string[] = [];
+  if ('const' in schema && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(schema.items!, item, `${path}[${index}]`)));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) {
+        errors.push(`${path}.${name}: is required`);
+      }
+    }
+    for (const [name, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(propertySchema, propertyValue, `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name}: is not allowed`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(schema.additionalProperties, propertyValue, `${path}.${name}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function renderKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function renderComment(description: string | undefined, indent: string): string {
+  return description ? `${indent}/** ${description.replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+/**
+ * Renders a schema as a TypeScript type expression. Keywords TypeScript
+ * cannot express, such as `minimum` or `pattern`, are left out.
+ */
+function renderType(schema: SSEJsonSchema, indent = ''): string {
+  if (schema.anyOf) {
+    return schema.anyOf.map(option => renderType(option, indent)).join(' | ');
+  }
+  if ('const' in schema) {
+    return JSON.stringify(schema.const);
+  }
+  if (schema.enum) {
+    return schema.enum.map(option => JSON.stringify(option)).join(' | ');
+  }
+
+  const types = schema.type ? (Array.isArray(schema.type) ? schema.type : [schema.type]) : [];
+  if (types.length === 0) {
+    return schema.properties ? renderObject(schema, indent) : 'unknown';
+  }
+
+  return types
+    .map(type => {
+      switch (type) {
+        case 'integer':
+          return 'number';
+        case 'array':
+          return schema.items ? `Array<${renderType(schema.items, indent)}>` : 'unknown[]';
+        case 'object':
+          return renderObject(schema, indent);
+        default:
+          return type;
+      }
+    })
+    .join(' | ');
+}
+
+function renderObject(schema: SSEJsonSchema, indent: string): string {
+  const inner = `${indent}  `;
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(
+    ([name, property]) =>
+      `${renderComment(property.description, inner)}${inner}${renderKey(name)}${required.has(name) ? '' : '?'}: ${renderType(property, inner)};`,
+  );
+
+  if (schema.additionalProperties !== false && (!schema.properties || schema.additionalProperties)) {
+    const valueType =
+      typeof schema.additionalProperties === 'object' ? renderType(schema.additionalProperties, inner) : 'unknown';
+    lines.push(`${inner}[key: string]: ${valueType};`);
+  }
+
+  return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+}
+
+/**
+ * Payload schemas for SSE events, keyed by event name. Events whose name is
+ * not registered are sent unchecked.
+ */
+export class SSEEventSchemaRegistry {
+  private readonly schemas = new Map<string, RegisteredSchema>();
+
+  constructor(definitions: Record<string, SSEEventSchemaDefinition> = {}) {
+    Object.entries(definitions).forEach(([name, definition]) => this.register(name, definition));
+  }
+
+  register(eventName: string, definition: SSEEventSchemaDefinition): this {
+    if ('dto' in definition) {
+      const dto = definition.dto;
+      this.schemas.set(eventName, {
+        description: definition.description,
+        schema: dtoToJsonSchema(dto),
+        validate: data => validateDto(dto, data),
+      });
+    } else {
+      const schema = definition.jsonSchema;
+      this.schemas.set(eventName, {
+        description: definition.description,
+        schema,
+        validate: data => validateJsonSchema(schema, data),
+      });
+    }
+    return this;
+  }
+
+  unregister(eventName: string): boolean {
+    return this.schemas.delete(eventName);
+  }
+
+  has(eventName: string): boolean {
+    return this.schemas.has(eventName);
+  }
+
+  getSchema(eventName: string): SSEJsonSchema | undefined {
+    return this.schemas.get(eventName)?.schema;
+  }
+
+  /**
+   * Returns the violations in the event's payload, or an empty list when it
+   * conforms or its name has no schema.
+   */
+  validate(event: SSEEvent): string[] {
+    const registered = this.schemas.get(event.event ?? SSE_DEFAULT_EVENT_NAME);
+    return registered ? registered.validate(event.data) : [];
+  }
+
+  getCatalogue(): SSEEventCatalogue {
+    const events: SSEEventCatalogue['events'] = {};
+    Array.from(this.schemas.keys())
+      .sort()
+      .forEach(name => {
+        const { description, schema } = this.schemas.get(name)!;
+        events[name] = { ...(description ? { description } : {}), schema };
+      });
+    return { events, generatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Renders the catalogue as TypeScript declarations: one entry per event in
+   * `SSEEventPayloads`, plus a discriminated union of the events themselves.
+   */
+  toTypeScript(): string {
+    const { events } = this.getCatalogue();
+    const entries = Object.entries(events).map(
+      ([name, { description, schema }]) =>
+        `${renderComment(description, '  ')}  ${renderKey(name)}: ${renderType(schema, '  ')};`,
+    );
+
+    return [
+      '// Generated from the SSE event catalogue. Do not edit.',
+      '',
+      'export interface SSEEventPayloads {',
+      ...entries,
+      '}',
+      '',
+      'export type SSEEventName = keyof SSEEventPayloads;',
+      '',
+      'export type SSETypedEvent = {',
+      '  [K in SSEEventName]: { id?: string; event: K; data: SSEEventPayloads[K]; topic?: string; timestamp?: string };',
+      '}[SSEEventName];',
+      '',
+    ].join('\n');
+  }
+}
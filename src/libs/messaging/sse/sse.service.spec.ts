@@ -1,6 +1,15 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SSEService } from './sse.service';
-import { SSEConfig, SSEClient, SSEEvent } from './sse.types';
+import { TopicAclService } from '../acl';
+import {
+  SSEConfig,
+  SSEConnection,
+  SSEEvent,
+  SSEFilterError,
+  SSEConnectionLimitError,
+  SSELifecycleEvent,
+  SSEEventValidationError,
+} from './sse.types';
 import { Response } from 'express';
 import { Logger } from '@nestjs/common';
 import { Socket } from 'net';
@@ -126,12 +135,23 @@ describe('SSEService', () => {
       });
     });
 
-    it('should add client with compression if enabled', () => {
+    it('should add client with compression if enabled and accepted', () => {
       const compressedService = new SSEService({ ...mockConfig, compression: true });
-      const clientId = compressedService.addClient(mockResponse as Response);
+      const clientId = compressedService.addClient(mockResponse as Response, [], {
+        acceptEncoding: 'gzip, deflate, br',
+      });
       expect(mockResponse.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
         'Content-Encoding': 'gzip',
       }));
+      expect(compressedService.getClient(clientId)?.encoding).toBe('gzip');
+    });
+
+    it('should not compress for clients that do not accept it', () => {
+      const compressedService = new SSEService({ ...mockConfig, compression: true });
+      compressedService.addClient(mockResponse as Response);
+      expect(mockResponse.writeHead).toHaveBeenCalledWith(200, expect.not.objectContaining({
+        'Content-Encoding': expect.anything(),
+      }));
     });
 
     it('should handle client disconnection', () => {
@@ -165,6 +185,71 @@ describe('SSEService', () => {
       expect(service.getActiveTopics()).not.toContain(topics[0]);
       expect(service.getActiveTopics()).not.toContain(topics[1]);
     });
+
+    it('should only change subscriptions for the owning user when one is given', () => {
+      const clientId = service.addClient(mockResponse as Response, [], {
+        metadata: { userId: 'user_1' },
+      });
+
+      service.subscribe(clientId, ['private'], 'user_2');
+      expect(service.getClient(clientId)?.topics.has('private')).toBe(false);
+
+      service.subscribe(clientId, ['private'], 'user_1');
+      expect(service.getClient(clientId)?.topics.has('private')).toBe(true);
+
+      service.unsubscribe(clientId, ['private'], 'user_2');
+      expect(service.getClient(clientId)?.topics.has('private')).toBe(true);
+    });
+
+    it('should filter and project events per subscription', async () => {
+      const clientId = service.addClient(mockResponse as Response);
+      await service.subscribe(clientId, ['alerts'], undefined, {
+        where: { path: 'data.priority', gte: 2 },
+        fields: ['title'],
+      });
+      (mockResponse.write as jest.Mock).mockClear();
+
+      await service.broadcast({ topic: 'alerts', event: 'alert', data: { priority: 1, title: 'low' } });
+      await service.broadcast({ topic: 'alerts', event: 'alert', data: { priority: 3, title: 'high' } });
+
+      expect(mockResponse.write).toHaveBeenCalledTimes(1);
+      expect(mockResponse.write).toHaveBeenCalledWith(expect.stringContaining('data: {"title":"high"}'));
+      expect(service.getSubscriptions()[0]).toEqual(expect.objectContaining({
+        where: { path: 'data.priority', gte: 2 },
+        fields: ['title'],
+      }));
+    });
+
+    it('should reject malformed filters without subscribing', async () => {
+      const clientId = service.addClient(mockResponse as Response);
+
+      await expect(
+        service.subscribe(clientId, ['alerts'], undefined, { where: { path: 'data.x' } })
+      ).rejects.toThrow(SSEFilterError);
+      expect(service.getClient(clientId)?.topics.has('alerts')).toBe(false);
+    });
+
+    it('should skip and report topics denied by the topic ACL', async () => {
+      const aclService = new SSEService(
+        mockConfig,
+        undefined,
+        undefined,
+        new TopicAclService({ rules: [{ pattern: 'user-{userId}', userParam: 'userId' }] })
+      );
+      const clientId = aclService.addClient(mockResponse as Response, [], {
+        metadata: { userId: 'user_1' },
+      });
+
+      await aclService.subscribe(clientId, ['user-user_1', 'user-user_2']);
+
+      expect(Array.from(aclService.getClient(clientId)!.topics)).toEqual(['user-user_1']);
+      expect(mockResponse.write).toHaveBeenCalledWith(
+        expect.stringContaining('event: subscription_denied')
+      );
+      expect(await aclService.authorizeTopics({ userId: 'user_1' }, ['user-user_2'])).toEqual([
+        'user-user_2',
+      ]);
+    });
   });
 
   describe('heartbeat mechanism', () => {
@@ -420,6 +505,267 @@ describe('SSEService', () => {
     });
   });
 
+  describe('event replay', () => {
+    let replayService: SSEService;
+
+    const createResponse = () => ({
+      ...mockResponse,
+      writeHead: jest.fn(),
+      write: jest.fn(),
+      end: jest.fn(),
+    }) as unknown as Response & { write: jest.Mock };
+
+    const written = (response: { write: jest.Mock }) =>
+      response.write.mock.calls.map(([chunk]) => chunk).join('');
+
+    const flushPromises = async () => {
+      for (let i = 0; i < 10; i++) await Promise.resolve();
+    };
+
+    beforeEach(() => {
+      replayService = new SSEService({ ...mockConfig, replay: { enabled: true, bufferSize: 2 } });
+    });
+
+    afterEach(async () => {
+      await replayService.onModuleDestroy();
+    });
+
+    it('should assign monotonic ids to broadcast events', async () => {
+      const response = createResponse();
+      replayService.addClient(response, ['chat']);
+
+      await replayService.broadcast({ event: 'message', data: 'a', topic: 'chat' });
+      await replayService.broadcast({ event: 'message', data: 'b', topic: 'chat' });
+
+      expect(written(response)).toContain('id: 1\n');
+      expect(written(response)).toContain('id: 2\n');
+    });
+
+    it('should replay missed events to a reconnecting client before live events', async () => {
+      await replayService.broadcast({ event: 'message', data: 'a', topic: 'chat' });
+      await replayService.broadcast({ event: 'message', data: 'b', topic: 'chat' });
+
+      const response = createResponse();
+      replayService.addClient(response, ['chat'], { lastEventId: '1' });
+      const live = replayService.broadcast({ event: 'message', data: 'c', topic: 'chat' });
+      await live;
+      await flushPromises();
+
+      const output = written(response);
+      expect(output).not.toContain('data: a');
+      expect(output.indexOf('data: b')).toBeGreaterThan(-1);
+      expect(output.indexOf('data: b')).toBeLessThan(output.indexOf('data: c'));
+      expect(output.match(/data: c/g)).toHaveLength(1);
+    });
+
+    it('should send a reset event when the requested id was evicted', async () => {
+      for (const data of ['a', 'b', 'c']) {
+        await replayService.broadcast({ event: 'message', data, topic: 'chat' });
+      }
+
+      const response = createResponse();
+      replayService.addClient(response, ['chat'], { lastEventId: '0' });
+      await flushPromises();
+
+      const output = written(response);
+      expect(output).toContain('event: reset');
+      expect(output).not.toContain('data: b');
+    });
+
+    it('should not give heartbeats an id', () => {
+      const response = createResponse();
+      service.addClient(response);
+
+      jest.advanceTimersByTime(mockConfig.heartbeatInterval!);
+
+      expect(written(response)).toContain('event: heartbeat');
+      expect(written(response)).not.toContain('id: heartbeat');
+    });
+  });
+
+  describe('client lifecycle', () => {
+    const createLifecycleService = async (config: Partial<SSEConfig>) => {
+      const lifecycleService = new SSEService({ ...mockConfig, debug: false, ...config });
+      await lifecycleService.onModuleInit();
+      const events: SSELifecycleEvent[] = [];
+      lifecycleService.onLifecycleEvent(event => events.push(event));
+      return { lifecycleService, events };
+    };
+
+    it('should drop a removed client\'s subscriptions', async () => {
+      const clientId = service.addClient(mockResponse as Response);
+      const otherId = service.addClient(mockResponse as Response);
+      await service.subscribe(clientId, ['topic1', 'topic2']);
+      await service.subscribe(otherId, ['topic1']);
+
+      await service.removeClient(clientId);
+
+      expect(service.getSubscriptions()).toEqual([
+        expect.objectContaining({ clientId: otherId, topic: 'topic1' }),
+      ]);
+    });
+
+    it('should limit concurrent connections per user', async () => {
+      const { lifecycleService } = await createLifecycleService({ maxConnectionsPerUser: 2 });
+      const metadata = { userId: 'user_1' };
+
+      lifecycleService.addClient(mockResponse as Response, [], { metadata });
+      lifecycleService.addClient(mockResponse as Response, [], { metadata });
+
+      expect(() => lifecycleService.addClient(mockResponse as Response, [], { metadata }))
+        .toThrow(SSEConnectionLimitError);
+      expect(() => lifecycleService.addClient(mockResponse as Response, [], {
+        metadata: { userId: 'user_2' },
+      })).not.toThrow();
+
+      await lifecycleService.onModuleDestroy();
+    });
+
+    it('should evict idle clients with a retry hint', async () => {
+      const { lifecycleService, events } = await createLifecycleService({ idleTimeout: 250 });
+      const clientId = lifecycleService.addClient(mockResponse as Response, [], {
+        metadata: { userId: 'user_1' },
+      });
+
+      jest.advanceTimersByTime(300);
+      await Promise.resolve();
+
+      expect(lifecycleService.getClient(clientId)).toBeUndefined();
+      expect(mockResponse.write).toHaveBeenCalledWith(
+        'event: close\nretry: 1000\ndata: {"reason":"idle_timeout"}\n\n'
+      );
+      expect(events.map(event => [event.type, event.reason])).toEqual([
+        ['connected', undefined],
+        ['evicted', 'idle_timeout'],
+        ['disconnected', 'idle_timeout'],
+      ]);
+      expect(events[1].userId).toBe('user_1');
+
+      await lifecycleService.onModuleDestroy();
+    });
+
+    it('should close connections past their maximum age even when active', async () => {
+      const { lifecycleService, events } = await createLifecycleService({
+        idleTimeout: 250,
+        maxConnectionAge: 450,
+      });
+      const clientId = lifecycleService.addClient(mockResponse as Response);
+
+      for (let tick = 0; tick < 4; tick++) {
+        await lifecycleService.broadcast({ event: 'update', data: tick });
+        jest.advanceTimersByTime(100);
+      }
+      expect(lifecycleService.getClient(clientId)).toBeDefined();
+
+      jest.advanceTimersByTime(100);
+      await Promise.resolve();
+
+      expect(lifecycleService.getClient(clientId)).toBeUndefined();
+      expect(events.pop()).toEqual(expect.objectContaining({ type: 'disconnected', reason: 'max_age' }));
+
+      await lifecycleService.onModuleDestroy();
+    });
+
+    it('should close clients gracefully without reporting an eviction', async () => {
+      const { lifecycleService, events } = await createLifecycleService({});
+      const clientId = lifecycleService.addClient(mockResponse as Response);
+
+      await lifecycleService.closeClient(clientId, 'server_close', 2500);
+
+      expect(mockResponse.write).toHaveBeenCalledWith(expect.stringContaining('retry: 2500\n'));
+      expect(mockResponse.end).toHaveBeenCalled();
+      expect(events.map(event => event.type)).toEqual(['connected', 'disconnected']);
+    });
+
+    it('should spread reconnects after shutdown across a second retry window', async () => {
+      const { lifecycleService, events } = await createLifecycleService({});
+      lifecycleService.addClient(mockResponse as Response);
+
+      await lifecycleService.onModuleDestroy();
+
+      const closeEvent = (mockResponse.write as jest.Mock).mock.calls
+        .map(([chunk]) => chunk as string)
+        .find(chunk => chunk.startsWith('event: close'))!;
+      const retry = Number(closeEvent.match(/retry: (\d+)/)![1]);
+      expect(retry).toBeGreaterThanOrEqual(1000);
+      expect(retry).toBeLessThan(2000);
+      expect(events.pop()?.reason).toBe('shutdown');
+    });
+
+    it('should stop notifying removed listeners and survive failing ones', async () => {
+      const { lifecycleService } = await createLifecycleService({});
+      const listener = jest.fn();
+      const unsubscribe = lifecycleService.onLifecycleEvent(listener);
+      lifecycleService.onLifecycleEvent(() => {
+        throw new Error('listener failed');
+      });
+
+      const clientId = lifecycleService.addClient(mockResponse as Response);
+      unsubscribe();
+      await lifecycleService.removeClient(clientId);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(lifecycleService.getClient(clientId)).toBeUndefined();
+    });
+  });
+
+  describe('event schemas', () => {
+    const schemas: SSEConfig['schemas'] = {
+      events: {
+        'order.updated': {
+          jsonSchema: {
+            type: 'object',
+            properties: { orderId: { type: 'string' } },
+            required: ['orderId'],
+          },
+        },
+      },
+    };
+
+    it('should reject broadcasts whose payload does not match', async () => {
+      const schemaService = new SSEService({ ...mockConfig, schemas });
+      schemaService.addClient(mockResponse as Response);
+      (mockResponse.write as jest.Mock).mockClear();
+
+      await expect(schemaService.broadcast({ event: 'order.updated', data: { orderId: 1 } }))
+        .rejects.toThrow(SSEEventValidationError);
+      expect(() => schemaService.sendToClient('any', { event: 'order.updated', data: {} }))
+        .toThrow('data.orderId: is required');
+      expect(mockResponse.write).not.toHaveBeenCalled();
+
+      await schemaService.broadcast({ event: 'order.updated', data: { orderId: 'o1' } });
+      expect(mockResponse.write).toHaveBeenCalledTimes(1);
+
+      await schemaService.onModuleDestroy();
+    });
+
+    it('should only log mismatches in log mode', async () => {
+      const schemaService = new SSEService({ ...mockConfig, schemas: { ...schemas, mode: 'log' } });
+      schemaService.addClient(mockResponse as Response);
+      (mockResponse.write as jest.Mock).mockClear();
+
+      await schemaService.broadcast({ event: 'order.updated', data: {} });
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('does not match its schema'));
+      expect(mockResponse.write).toHaveBeenCalledTimes(1);
+
+      await schemaService.onModuleDestroy();
+    });
+
+    it('should list registered and built-in events in the catalogue', () => {
+      service.registerEventSchema('ping', { jsonSchema: { type: 'object' } });
+
+      expect(Object.keys(service.getEventCatalogue().events)).toEqual([
+        'close',
+        'heartbeat',
+        'ping',
+        'reset',
+        'subscription_denied',
+      ]);
+      expect(service.getEventTypeDefinitions()).toContain('ping: {\n    [key: string]: unknown;\n  };');
+    });
+  });
+
   describe('service lifecycle', () => {
     it('should cleanup resources on module destroy', async () => {
       const clientId = service.addClient(mockResponse as Response);
@@ -1,16 +1,80 @@
 import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
 import { Response } from 'express';
-import { SSEConfig, SSEClient, SSEEvent, SSESubscription } from './sse.types';
+import { randomUUID } from 'crypto';
+import * as zlib from 'zlib';
+import {
+  SSEConfig,
+  SSEConnection,
+  SSEClientOptions,
+  SSEEvent,
+  SSESubscription,
+  SSEBackplaneMessage,
+  SSECompressionStats,
+  SSEEncoding,
+  SSEBackpressureConfig,
+  SSEBackpressureStats,
+  SSESubscribeOptions,
+  SSEConnectionLimitError,
+  SSEDisconnectReason,
+  SSELifecycleEvent,
+  SSELifecycleListener,
+  SSEEventSchemaDefinition,
+  SSEEventCatalogue,
+  SSEEventValidationError,
+} from './sse.types';
+import { SSEReplayStore, InMemorySSEReplayStore } from './sse.replay';
+import { SSEBackplane } from './sse.backplane';
+import { createEncoder, negotiateEncoding } from './sse.compression';
+import { compileSSEFilter, compileSSEProjection } from './sse.filter';
+import { SSEOutboundQueue, defaultSSEBackpressureConfig } from './sse.backpressure';
+import {
+  SSEEventSchemaRegistry,
+  SSE_BUILT_IN_EVENT_SCHEMAS,
+  SSE_DEFAULT_EVENT_NAME,
+} from './sse.schema';
+import {
+  sseCompressionInputBytes,
+  sseCompressionOutputBytes,
+  sseBackpressureOverflows,
+  sseBackpressureDroppedEvents,
+  sseBackpressureEvictions,
+  sseSchemaViolations,
+} from './sse.metrics';
+import { TopicAclService, TopicAclSubject } from '../acl';
+import { SSE_GLOBAL_TOPIC } from './sse.constants';
+
+const MAX_SEEN_MESSAGE_IDS = 10000;
+const EVICTION_REASONS: SSEDisconnectReason[] = ['idle_timeout', 'max_age', 'backpressure'];
 
 @Injectable()
 export class SSEService implements OnModuleInit, OnModuleDestroy {
-  private readonly clients = new Map<string, SSEClient>();
+  private readonly clients = new Map<string, SSEConnection>();
   private readonly subscriptions = new Map<string, SSESubscription>();
   private heartbeatInterval?: NodeJS.Timeout;
   private readonly logger = new Logger(SSEService.name);
   private readonly activeTopics = new Set<string>();
-
-  constructor(private readonly config: SSEConfig = {}) {
+  // Live events held back while a reconnecting client is being replayed to
+  private readonly replayQueues = new Map<string, SSEEvent[]>();
+  private readonly replayStore?: SSEReplayStore;
+  private readonly instanceId = randomUUID();
+  // Ids of backplane messages already handled, oldest first
+  private readonly seenMessageIds = new Set<string>();
+  // zlib streams for clients that negotiated compression
+  private readonly encoders = new Map<string, zlib.Gzip | zlib.Deflate>();
+  private readonly compressionStats = { inputBytes: 0, outputBytes: 0 };
+  // Present only for clients whose socket has stopped accepting writes
+  private readonly outboundQueues = new Map<string, SSEOutboundQueue>();
+  private readonly backpressure: Required<SSEBackpressureConfig>;
+  private readonly schemaRegistry: SSEEventSchemaRegistry;
+  private readonly backpressureStats = { overflows: 0, droppedEvents: 0, coalescedEvents: 0, evictions: 0 };
+  private readonly lifecycleListeners = new Set<SSELifecycleListener>();
+
+  constructor(
+    private readonly config: SSEConfig = {},
+    replayStore?: SSEReplayStore,
+    private readonly backplane?: SSEBackplane,
+    private readonly topicAcl?: TopicAclService,
+  ) {
     this.config = {
       enabled: true,
       debug: false,
@@ -22,6 +86,16 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
       retryAfter: 5000,
       ...config,
     };
+
+    this.backpressure = { ...defaultSSEBackpressureConfig, ...this.config.backpressure };
+    this.schemaRegistry = new SSEEventSchemaRegistry({
+      ...SSE_BUILT_IN_EVENT_SCHEMAS,
+      ...this.config.schemas?.events,
+    });
+
+    if (this.config.replay?.enabled) {
+      this.replayStore = replayStore ?? new InMemorySSEReplayStore(this.config.replay.bufferSize);
+    }
   }
 
   async onModuleInit() {
@@ -32,6 +106,9 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
 
     try {
       await this.startHeartbeat();
+      if (this.backplane) {
+        await this.backplane.subscribe(message => this.handleBackplaneMessage(message));
+      }
       this.logger.log('SSE service initialized successfully');
     } catch (error) {
       this.logger.error('Failed to initialize SSE service:', error);
@@ -54,19 +131,22 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
     }
 
     this.heartbeatInterval = setInterval(() => {
+      this.closeExpiredClients();
+
       const now = new Date().toISOString();
       this.clients.forEach(client => {
         try {
+          // No id, so the client's Last-Event-ID keeps pointing at real events.
+          // Not queued for congested clients, whose socket is evidently alive.
           this.sendEvent(client, {
-            id: 'heartbeat',
             event: 'heartbeat',
             data: now,
             timestamp: now,
-          });
+          }, false);
           client.lastHeartbeatAt = now;
         } catch (error) {
           this.logger.error(`Failed to send heartbeat to client ${client.id}:`, error);
-          this.removeClient(client.id);
+          this.removeClient(client.id, 'error');
         }
       });
     }, this.config.heartbeatInterval);
@@ -77,10 +157,16 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
       clearInterval(this.heartbeatInterval);
     }
 
-    // Close all client connections
+    if (this.backplane) {
+      await this.backplane.close();
+    }
+
+    // Close all client connections, spreading their reconnects over a second
+    // retry window so a deploy does not bring every client back at once
     for (const client of this.clients.values()) {
       try {
-        await this.removeClient(client.id);
+        const jitter = Math.floor(Math.random() * this.config.retryAfter!);
+        await this.closeClient(client.id, 'shutdown', this.config.retryAfter! + jitter);
       } catch (error) {
         this.logger.error(`Failed to remove client ${client.id}:`, error);
       }
@@ -89,15 +175,29 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
     this.clients.clear();
     this.subscriptions.clear();
     this.activeTopics.clear();
+    this.replayQueues.clear();
+    this.outboundQueues.clear();
   }
 
-  addClient(response: Response, topics: string[] = []): string {
+  /**
+   * Opens the stream. The initial topics are not checked against the topic
+   * ACL here; callers authorize them first with `authorizeTopics`.
+   */
+  addClient(response: Response, topics: string[] = [], options: SSEClientOptions = {}): string {
     if (!this.config.enabled) {
       throw new Error('SSE service is disabled');
     }
 
     if (this.clients.size >= this.config.maxClients!) {
-      throw new Error('Maximum number of clients reached');
+      throw new SSEConnectionLimitError('Maximum number of clients reached', 'global');
+    }
+
+    const userId = options.metadata?.userId;
+    if (userId && this.config.maxConnectionsPerUser) {
+      const userConnections = this.getClients().filter(client => client.metadata?.userId === userId);
+      if (userConnections.length >= this.config.maxConnectionsPerUser) {
+        throw new SSEConnectionLimitError('Maximum number of connections for this user reached', 'user');
+      }
     }
 
     const clientId = `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -109,38 +209,56 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
       'X-Accel-Buffering': 'no',
     };
 
-    if (this.config.compression) {
-      headers['Content-Encoding'] = 'gzip';
+    const encoding = this.config.compression ? negotiateEncoding(options.acceptEncoding) : undefined;
+    if (encoding) {
+      headers['Content-Encoding'] = encoding;
+      headers['Vary'] = 'Accept-Encoding';
     }
 
     response.writeHead(200, headers);
 
     const now = new Date().toISOString();
-    const client: SSEClient = {
+    const client: SSEConnection = {
       id: clientId,
       response,
       topics: new Set(topics),
-      metadata: {},
+      metadata: { ...options.metadata },
       connectedAt: now,
       lastEventId: undefined,
       lastEventAt: now,
       lastHeartbeatAt: now,
+      encoding,
     };
 
     this.clients.set(clientId, client);
     topics.forEach(topic => this.activeTopics.add(topic));
 
+    if (encoding) {
+      this.attachEncoder(client, encoding);
+    }
+
     // Send retry interval
-    response.write(`retry: ${this.config.retryInterval}\n\n`);
+    this.writeToClient(client, `retry: ${this.config.retryInterval}\n\n`);
+
+    if (this.replayStore && options.lastEventId) {
+      this.replayQueues.set(clientId, []);
+      void this.replayMissedEvents(client, options.lastEventId);
+    }
 
     if (this.config.debug) {
       this.logger.debug(`Client connected: ${clientId}, topics: ${topics.join(', ')}`);
     }
 
+    this.emitLifecycleEvent({ type: 'connected', clientId, userId, timestamp: now });
+
     return clientId;
   }
 
-  async removeClient(clientId: string) {
+  /**
+   * Detaches a client and ends its response. `reason` is reported to
+   * lifecycle listeners; 'closed' means the client went away by itself.
+   */
+  async removeClient(clientId: string, reason: SSEDisconnectReason = 'closed') {
     const client = this.clients.get(clientId);
     if (client) {
       try {
@@ -149,7 +267,7 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
           .filter(sub => sub.clientId === clientId);
         
         for (const sub of clientSubs) {
-          this.subscriptions.delete(sub.topic);
+          this.subscriptions.delete(`${clientId}:${sub.topic}`);
         }
 
         // Update active topics
@@ -161,9 +279,18 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
           }
         });
 
-        // Close connection
-        client.response.end();
+        // Close connection, letting the encoder write its trailer first
+        const encoder = this.encoders.get(clientId);
+        if (encoder) {
+          this.encoders.delete(clientId);
+          encoder.once('end', () => client.response.end());
+          encoder.end();
+        } else {
+          client.response.end();
+        }
         this.clients.delete(clientId);
+        this.replayQueues.delete(clientId);
+        this.outboundQueues.delete(clientId);
 
         if (this.config.debug) {
           this.logger.debug(`Client disconnected: ${clientId}`);
@@ -173,90 +300,291 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
         // Ensure client is removed even if there's an error
         this.clients.delete(clientId);
       }
+
+      const timestamp = new Date().toISOString();
+      const userId = client.metadata?.userId;
+      if (EVICTION_REASONS.includes(reason)) {
+        this.emitLifecycleEvent({ type: 'evicted', clientId, userId, reason, timestamp });
+      }
+      this.emitLifecycleEvent({ type: 'disconnected', clientId, userId, reason, timestamp });
     }
   }
 
-  subscribe(clientId: string, topics: string[]) {
+  /**
+   * Ends a stream from the server side. The client first gets a `close`
+   * event with a retry hint, so browsers reconnect after `retryAfter` ms
+   * rather than immediately.
+   */
+  async closeClient(
+    clientId: string,
+    reason: SSEDisconnectReason = 'server_close',
+    retryAfter: number = this.config.retryAfter!,
+  ) {
     const client = this.clients.get(clientId);
-    if (client) {
-      const now = new Date().toISOString();
-      topics.forEach(topic => {
-        client.topics.add(topic);
-        this.activeTopics.add(topic);
-
-        const subscription: SSESubscription = {
-          topic,
-          clientId,
-          metadata: {},
-          createdAt: now,
-          updatedAt: now,
-        };
-        this.subscriptions.set(`${clientId}:${topic}`, subscription);
-      });
+    if (!client) return;
 
-      if (this.config.debug) {
-        this.logger.debug(`Client ${clientId} subscribed to topics: ${topics.join(', ')}`);
+    try {
+      // Bypasses the outbound queue so it still goes out to congested clients
+      this.writeToClient(
+        client,
+        `event: close\nretry: ${retryAfter}\ndata: ${JSON.stringify({ reason })}\n\n`,
+      );
+    } catch (error) {
+      this.logger.error(`Failed to send close event to client ${clientId}:`, error);
+    }
+
+    await this.removeClient(clientId, reason);
+  }
+
+  /**
+   * Closes every client connected to this instance, e.g. before a deploy.
+   */
+  async closeAllClients(reason: SSEDisconnectReason = 'server_close', retryAfter?: number) {
+    await Promise.all(
+      this.getClients().map(client => this.closeClient(client.id, reason, retryAfter)),
+    );
+  }
+
+  /**
+   * Registers a listener for connected, disconnected and evicted events.
+   * Returns a function that removes it again.
+   */
+  onLifecycleEvent(listener: SSELifecycleListener): () => void {
+    this.lifecycleListeners.add(listener);
+    return () => this.lifecycleListeners.delete(listener);
+  }
+
+  private emitLifecycleEvent(event: SSELifecycleEvent) {
+    this.lifecycleListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        this.logger.error(`SSE lifecycle listener failed on ${event.type}:`, error);
+      }
+    });
+  }
+
+  /**
+   * Runs on every heartbeat tick, so timeouts are enforced with up to one
+   * heartbeat interval of delay.
+   */
+  private closeExpiredClients() {
+    const { idleTimeout, maxConnectionAge } = this.config;
+    if (!idleTimeout && !maxConnectionAge) return;
+
+    const now = Date.now();
+    this.getClients().forEach(client => {
+      if (maxConnectionAge && now - Date.parse(client.connectedAt) >= maxConnectionAge) {
+        void this.closeClient(client.id, 'max_age');
+      } else if (idleTimeout && now - Date.parse(client.lastEventAt) >= idleTimeout) {
+        void this.closeClient(client.id, 'idle_timeout');
       }
+    });
+  }
+
+  /**
+   * Returns the topics the subject may not join under the topic ACL, or an
+   * empty list when no ACL is configured.
+   */
+  async authorizeTopics(subject: TopicAclSubject, topics: string[]): Promise<string[]> {
+    return this.topicAcl ? this.topicAcl.findDenied(subject, topics) : [];
+  }
+
+  /**
+   * Adds topics to a client's subscriptions. When `userId` is given the call
+   * is ignored unless the client was opened by that user. Topics the ACL
+   * denies are skipped and reported to the client as `subscription_denied`.
+   * Filters and projections in `options` replace any earlier ones on the same
+   * topics; malformed ones throw `SSEFilterError` before anything changes.
+   */
+  async subscribe(
+    clientId: string,
+    topics: string[],
+    userId?: string,
+    options: SSESubscribeOptions = {},
+  ): Promise<void> {
+    const filter = options.where ? compileSSEFilter(options.where) : undefined;
+    const transform = options.fields?.length ? compileSSEProjection(options.fields) : undefined;
+
+    const client = this.clients.get(clientId);
+    if (!client) {
+      // The client may be connected to another instance
+      void this.publishToBackplane({ type: 'subscribe', clientId, topics, userId, options });
+      return;
+    }
+
+    if (!this.isOwnedBy(client, userId)) {
+      this.logger.warn(`Rejected subscription change for client ${clientId} by another user`);
+      return;
+    }
+
+    // Only await when there is an ACL, so unchecked subscriptions apply synchronously
+    const denied = this.topicAcl ? await this.authorizeTopics(this.getSubject(client), topics) : [];
+    if (!this.clients.has(clientId)) return;
+
+    if (denied.length) {
+      this.sendToClient(clientId, { event: 'subscription_denied', data: { topics: denied } });
+    }
+
+    const now = new Date().toISOString();
+    topics.filter(topic => !denied.includes(topic)).forEach(topic => {
+      client.topics.add(topic);
+      this.activeTopics.add(topic);
+
+      const subscription: SSESubscription = {
+        topic,
+        clientId,
+        where: options.where,
+        fields: options.fields,
+        filter,
+        transform,
+        metadata: {},
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.subscriptions.set(`${clientId}:${topic}`, subscription);
+    });
+
+    if (this.config.debug) {
+      this.logger.debug(`Client ${clientId} subscribed to topics: ${topics.join(', ')}`);
     }
   }
 
-  unsubscribe(clientId: string, topics: string[]) {
+  unsubscribe(clientId: string, topics: string[], userId?: string) {
     const client = this.clients.get(clientId);
-    if (client) {
-      topics.forEach(topic => {
-        client.topics.delete(topic);
-        this.subscriptions.delete(`${clientId}:${topic}`);
-
-        // Check if topic is still active
-        const hasOtherClients = Array.from(this.clients.values())
-          .some(c => c.id !== clientId && c.topics.has(topic));
-        if (!hasOtherClients) {
-          this.activeTopics.delete(topic);
-        }
-      });
+    if (!client) {
+      void this.publishToBackplane({ type: 'unsubscribe', clientId, topics, userId });
+      return;
+    }
+
+    if (!this.isOwnedBy(client, userId)) {
+      this.logger.warn(`Rejected subscription change for client ${clientId} by another user`);
+      return;
+    }
+
+    topics.forEach(topic => {
+      client.topics.delete(topic);
+      this.subscriptions.delete(`${clientId}:${topic}`);
+
+      // Check if topic is still active
+      const hasOtherClients = Array.from(this.clients.values())
+        .some(c => c.id !== clientId && c.topics.has(topic));
+      if (!hasOtherClients) {
+        this.activeTopics.delete(topic);
+      }
+    });
+
+    if (this.config.debug) {
+      this.logger.debug(`Client ${clientId} unsubscribed from topics: ${topics.join(', ')}`);
+    }
+  }
+
+  /**
+   * Sends any buffered events the client missed since `lastEventId`, then
+   * flushes the live events that arrived meanwhile. If the buffer no longer
+   * reaches back that far the client gets a `reset` event instead, telling it
+   * to reload its state.
+   */
+  private async replayMissedEvents(client: SSEConnection, lastEventId: string) {
+    try {
+      const topics = [...client.topics, SSE_GLOBAL_TOPIC];
+      const { events, reset } = await this.replayStore!.getEventsAfter(topics, lastEventId);
+      if (!this.clients.has(client.id)) return;
+
+      if (reset) {
+        this.sendEvent(client, { event: 'reset', data: { lastEventId } });
+      } else {
+        events.forEach(event => this.deliverToClient(client, event));
+      }
+
+      const replayed = new Set(events.map(event => event.id));
+      const pending = this.replayQueues.get(client.id) ?? [];
+      pending
+        .filter(event => !event.id || !replayed.has(event.id))
+        .forEach(event => this.deliverToClient(client, event));
 
       if (this.config.debug) {
-        this.logger.debug(`Client ${clientId} unsubscribed from topics: ${topics.join(', ')}`);
+        this.logger.debug(`Replayed ${reset ? 0 : events.length} events to client ${client.id}`);
       }
+    } catch (error) {
+      this.logger.error(`Failed to replay events to client ${client.id}:`, error);
+      this.removeClient(client.id, 'error');
+    } finally {
+      this.replayQueues.delete(client.id);
     }
   }
 
-  broadcast<T = any>(event: SSEEvent<T>) {
+  /**
+   * Applies the client's subscription filter and transform for the event's
+   * topic and writes it. Returns false when the filter drops the event.
+   */
+  private deliverToClient(client: SSEConnection, event: SSEEvent): boolean {
+    // Get subscription for this client and topic
+    const subscription = event.topic ?
+      this.subscriptions.get(`${client.id}:${event.topic}`) :
+      undefined;
+
+    // Apply filter if exists
+    if (subscription?.filter && !subscription.filter(event)) {
+      return false;
+    }
+
+    // Apply transform if exists
+    const transformedEvent = subscription?.transform ?
+      subscription.transform(event) :
+      event;
+
+    this.sendEvent(client, transformedEvent);
+    client.lastEventAt = new Date().toISOString();
+    return true;
+  }
+
+  async broadcast<T = any>(event: SSEEvent<T>): Promise<void> {
     if (!this.config.enabled) {
       return;
     }
 
+    this.checkEventSchema(event);
+
     const now = new Date().toISOString();
-    const finalEvent = {
+    let finalEvent: SSEEvent<T> = {
       ...event,
       timestamp: now,
     };
 
+    if (this.replayStore) {
+      try {
+        finalEvent = await this.replayStore.append(event.topic ?? SSE_GLOBAL_TOPIC, finalEvent);
+      } catch (error) {
+        this.logger.error('Failed to buffer event for replay:', error);
+      }
+    }
+
+    this.deliverLocally(finalEvent);
+    await this.publishToBackplane({ type: 'broadcast', event: finalEvent });
+  }
+
+  /**
+   * Writes an event to the clients connected to this instance that are
+   * subscribed to its topic, or to all of them for topic-less events.
+   */
+  private deliverLocally(event: SSEEvent) {
     let sentCount = 0;
     this.clients.forEach(client => {
       if (!event.topic || client.topics.has(event.topic)) {
+        const pending = this.replayQueues.get(client.id);
+        if (pending) {
+          pending.push(event);
+          return;
+        }
+
         try {
-          // Get subscription for this client and topic
-          const subscription = event.topic ? 
-            this.subscriptions.get(`${client.id}:${event.topic}`) : 
-            undefined;
-
-          // Apply filter if exists
-          if (subscription?.filter && !subscription.filter(finalEvent)) {
-            return;
+          if (this.deliverToClient(client, event)) {
+            sentCount++;
           }
-
-          // Apply transform if exists
-          const transformedEvent = subscription?.transform ? 
-            subscription.transform(finalEvent) : 
-            finalEvent;
-
-          this.sendEvent(client, transformedEvent);
-          client.lastEventAt = now;
-          sentCount++;
         } catch (error) {
           this.logger.error(`Failed to send event to client ${client.id}:`, error);
-          this.removeClient(client.id);
+          this.removeClient(client.id, 'error');
         }
       }
     });
@@ -271,29 +599,126 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
       return;
     }
 
+    this.checkEventSchema(event);
+
+    const now = new Date().toISOString();
+    const finalEvent = {
+      ...event,
+      timestamp: now,
+    };
+
     const client = this.clients.get(clientId);
-    if (client) {
-      const now = new Date().toISOString();
-      const finalEvent = {
-        ...event,
-        timestamp: now,
-      };
+    if (!client) {
+      void this.publishToBackplane({ type: 'client', clientId, event: finalEvent });
+      return;
+    }
 
-      try {
-        this.sendEvent(client, finalEvent);
-        client.lastEventAt = now;
+    try {
+      this.sendEvent(client, finalEvent);
+      client.lastEventAt = now;
 
-        if (this.config.debug) {
-          this.logger.debug(`Event sent to client ${clientId}`);
-        }
-      } catch (error) {
-        this.logger.error(`Failed to send event to client ${clientId}:`, error);
-        this.removeClient(clientId);
+      if (this.config.debug) {
+        this.logger.debug(`Event sent to client ${clientId}`);
       }
+    } catch (error) {
+      this.logger.error(`Failed to send event to client ${clientId}:`, error);
+      this.removeClient(clientId, 'error');
+    }
+  }
+
+  registerEventSchema(eventName: string, definition: SSEEventSchemaDefinition) {
+    this.schemaRegistry.register(eventName, definition);
+  }
+
+  getEventCatalogue(): SSEEventCatalogue {
+    return this.schemaRegistry.getCatalogue();
+  }
+
+  getEventTypeDefinitions(): string {
+    return this.schemaRegistry.toTypeScript();
+  }
+
+  /**
+   * Throws SSEEventValidationError for payloads that do not match their
+   * event's schema, or only logs them when schemas are in 'log' mode.
+   */
+  private checkEventSchema(event: SSEEvent) {
+    const errors = this.schemaRegistry.validate(event);
+    if (errors.length === 0) {
+      return;
+    }
+
+    const eventName = event.event ?? SSE_DEFAULT_EVENT_NAME;
+    const mode = this.config.schemas?.mode ?? 'reject';
+    sseSchemaViolations.inc({ event: eventName, mode });
+
+    const message = `Event "${eventName}" does not match its schema: ${errors.join('; ')}`;
+    if (mode === 'log') {
+      this.logger.warn(message);
+      return;
+    }
+    throw new SSEEventValidationError(message, eventName, errors);
+  }
+
+  private async publishToBackplane(message: Omit<SSEBackplaneMessage, 'id' | 'origin'>) {
+    if (!this.backplane) {
+      return;
+    }
+
+    const id = randomUUID();
+    this.markSeen(id);
+
+    try {
+      await this.backplane.publish({ ...message, id, origin: this.instanceId });
+    } catch (error) {
+      this.logger.error(`Failed to publish ${message.type} message to SSE backplane:`, error);
     }
   }
 
-  private sendEvent(client: SSEClient, event: SSEEvent) {
+  /**
+   * Applies a message published by another instance. Messages this instance
+   * sent and ones it has already seen are ignored, since backplanes may echo
+   * or redeliver.
+   */
+  private handleBackplaneMessage(message: SSEBackplaneMessage) {
+    if (message.origin === this.instanceId || this.seenMessageIds.has(message.id)) {
+      return;
+    }
+    this.markSeen(message.id);
+
+    switch (message.type) {
+      case 'broadcast':
+        if (message.event) this.deliverLocally(message.event);
+        break;
+      case 'client':
+        if (message.event && message.clientId && this.clients.has(message.clientId)) {
+          this.sendToClient(message.clientId, message.event);
+        }
+        break;
+      case 'subscribe':
+        if (message.clientId && this.clients.has(message.clientId)) {
+          this.subscribe(message.clientId, message.topics ?? [], message.userId, message.options)
+            .catch(error => this.logger.error(`Failed to apply subscription for ${message.clientId}:`, error));
+        }
+        break;
+      case 'unsubscribe':
+        if (message.clientId && this.clients.has(message.clientId)) {
+          this.unsubscribe(message.clientId, message.topics ?? [], message.userId);
+        }
+        break;
+    }
+  }
+
+  private markSeen(messageId: string) {
+    this.seenMessageIds.add(messageId);
+    if (this.seenMessageIds.size > MAX_SEEN_MESSAGE_IDS) {
+      // Sets iterate in insertion order, so this drops the oldest id
+      const oldest = this.seenMessageIds.values().next().value;
+      if (oldest !== undefined) this.seenMessageIds.delete(oldest);
+    }
+  }
+
+  private sendEvent(client: SSEConnection, event: SSEEvent, queueable = true) {
     if (!this.config.enabled) {
       return;
     }
@@ -325,7 +750,7 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
 
       message += `data: ${data}\n\n`;
 
-      client.response.write(message);
+      this.writeMessage(client, message, event.event ?? 'message', queueable);
       client.lastHeartbeatAt = new Date().toISOString();
     } catch (error) {
       this.logger.error(`Error sending event to client ${client.id}:`, error);
@@ -333,11 +758,176 @@ export class SSEService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  getClient(clientId: string): SSEClient | undefined {
+  private getSubject(client: SSEConnection): TopicAclSubject {
+    return {
+      userId: client.metadata?.userId,
+      roles: client.metadata?.roles,
+    };
+  }
+
+  private isOwnedBy(client: SSEConnection, userId?: string): boolean {
+    return userId === undefined || client.metadata?.userId === userId;
+  }
+
+  private attachEncoder(client: SSEConnection, encoding: SSEEncoding) {
+    const encoder = createEncoder(encoding, this.config.compressionLevel);
+
+    encoder.on('data', (chunk: Buffer) => {
+      // Stop producing until the socket catches up; the encoder's own buffer
+      // then fills and its writes report the congestion
+      if (client.response.write(chunk) === false) {
+        encoder.pause();
+        client.response.once('drain', () => encoder.resume());
+      }
+      this.compressionStats.outputBytes += chunk.length;
+      sseCompressionOutputBytes.labels(encoding).inc(chunk.length);
+    });
+    encoder.on('error', error => {
+      this.logger.error(`Compression failed for client ${client.id}:`, error);
+      this.encoders.delete(client.id);
+      this.removeClient(client.id, 'error');
+    });
+
+    this.encoders.set(client.id, encoder);
+  }
+
+  /**
+   * Writes straight through while the client keeps up. Once a write reports
+   * a full buffer, later messages queue until `drain`, and the backpressure
+   * policy applies whenever the pending total exceeds the high-water mark.
+   */
+  private writeMessage(client: SSEConnection, message: string, type: string, queueable: boolean) {
+    const queue = this.outboundQueues.get(client.id);
+    if (queue) {
+      if (!queueable) return;
+      queue.push({ type, bytes: Buffer.byteLength(message), message });
+      this.relieveBackpressure(client, queue);
+      return;
+    }
+
+    if (!this.writeToClient(client, message)) {
+      this.outboundQueues.set(client.id, new SSEOutboundQueue());
+      this.getSink(client).once('drain', () => this.flushOutboundQueue(client.id));
+    }
+  }
+
+  private flushOutboundQueue(clientId: string) {
+    const client = this.clients.get(clientId);
+    const queue = this.outboundQueues.get(clientId);
+    if (!client || !queue) return;
+
+    let next = queue.shift();
+    while (next) {
+      if (!this.writeToClient(client, next.message)) {
+        this.getSink(client).once('drain', () => this.flushOutboundQueue(clientId));
+        return;
+      }
+      next = queue.shift();
+    }
+
+    this.outboundQueues.delete(clientId);
+  }
+
+  private relieveBackpressure(client: SSEConnection, queue: SSEOutboundQueue) {
+    const { policy, highWaterMark } = this.backpressure;
+    const result = queue.relieve(policy, highWaterMark, this.getSinkBufferedBytes(client));
+    if (!result.evict && !result.dropped && !result.coalesced) return;
+
+    this.backpressureStats.overflows++;
+    sseBackpressureOverflows.labels(policy).inc();
+
+    if (result.coalesced) {
+      this.backpressureStats.coalescedEvents += result.coalesced;
+      sseBackpressureDroppedEvents.labels('coalesce').inc(result.coalesced);
+    }
+    if (result.dropped) {
+      this.backpressureStats.droppedEvents += result.dropped;
+      sseBackpressureDroppedEvents.labels('drop-oldest').inc(result.dropped);
+    }
+
+    if (result.evict) {
+      this.evictSlowClient(client);
+    }
+  }
+
+  /**
+   * Disconnects a client that cannot keep up. The retry hint asks it to wait
+   * before reconnecting, after which replay can fill the gap.
+   */
+  private evictSlowClient(client: SSEConnection) {
+    this.backpressureStats.evictions++;
+    sseBackpressureEvictions.inc();
+    this.logger.warn(`Evicting slow SSE client ${client.id} over the backpressure limit`);
+
+    void this.closeClient(client.id, 'backpressure');
+  }
+
+  private getSink(client: SSEConnection): NodeJS.WritableStream {
+    return this.encoders.get(client.id) ?? client.response;
+  }
+
+  private getSinkBufferedBytes(client: SSEConnection): number {
+    const encoder = this.encoders.get(client.id);
+    const pending = encoder ? encoder.writableLength + encoder.readableLength : 0;
+    return pending + (client.response.writableLength ?? 0);
+  }
+
+  /**
+   * Returns false when the underlying stream asks the caller to wait for
+   * `drain` before writing more.
+   */
+  private writeToClient(client: SSEConnection, message: string): boolean {
+    const encoder = this.encoders.get(client.id);
+    if (!encoder) {
+      return client.response.write(message) !== false;
+    }
+
+    const size = Buffer.byteLength(message);
+    this.compressionStats.inputBytes += size;
+    sseCompressionInputBytes.labels(client.encoding!).inc(size);
+
+    const accepted = encoder.write(message);
+    // Emit everything written so far instead of waiting for zlib's window to fill
+    encoder.flush(zlib.constants.Z_SYNC_FLUSH);
+    return accepted;
+  }
+
+  /**
+   * Bytes waiting to reach the client: events queued by the service plus
+   * whatever the encoder and socket still hold.
+   */
+  getBufferedBytes(clientId: string): number {
+    const client = this.clients.get(clientId);
+    if (!client) return 0;
+    return (this.outboundQueues.get(clientId)?.bytes ?? 0) + this.getSinkBufferedBytes(client);
+  }
+
+  getBackpressureStats(): SSEBackpressureStats {
+    return {
+      ...this.backpressureStats,
+      congestedClients: this.outboundQueues.size,
+    };
+  }
+
+  /**
+   * Totals across compressed streams since the service started. The same
+   * figures are exported as Prometheus counters per encoding.
+   */
+  getCompressionStats(): SSECompressionStats {
+    const { inputBytes, outputBytes } = this.compressionStats;
+    return {
+      inputBytes,
+      outputBytes,
+      bytesSaved: inputBytes - outputBytes,
+      ratio: inputBytes ? outputBytes / inputBytes : 1,
+    };
+  }
+
+  getClient(clientId: string): SSEConnection | undefined {
     return this.clients.get(clientId);
   }
 
-  getClients(): SSEClient[] {
+  getClients(): SSEConnection[] {
     return Array.from(this.clients.values());
   }
 
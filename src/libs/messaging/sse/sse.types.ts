@@ -5,12 +5,231 @@ export interface SSEConfig extends BaseConfig, ConnectionConfig, SecurityConfig
   heartbeatInterval?: number;
   retryInterval?: number;
   maxEventSize?: number;
+  // Compress streams for clients whose Accept-Encoding allows gzip or deflate
   compression?: boolean;
+  // zlib level, 0-9
+  compressionLevel?: number;
   retryAfter?: number;
   maxClients?: number;
+  // Concurrent streams allowed per `metadata.userId`
+  maxConnectionsPerUser?: number;
+  // Close streams that received no events (heartbeats aside) for this many ms
+  idleTimeout?: number;
+  // Close streams older than this many ms, e.g. so they re-authenticate
+  maxConnectionAge?: number;
+  replay?: SSEReplayConfig;
+  backplane?: SSEBackplaneConfig;
+  backpressure?: SSEBackpressureConfig;
+  schemas?: SSESchemaConfig;
 }
 
-export interface SSEClient {
+export interface SSESchemaConfig {
+  // Payload schemas by event name; events without a name are 'message'
+  events?: Record<string, SSEEventSchemaDefinition>;
+  // 'reject' throws from broadcast/sendToClient, 'log' warns and sends anyway
+  mode?: 'reject' | 'log';
+}
+
+/**
+ * The subset of JSON Schema the registry validates and exports. Keywords
+ * outside it are kept in the catalogue but not checked.
+ */
+export interface SSEJsonSchema {
+  type?: SSEJsonSchemaType | SSEJsonSchemaType[];
+  description?: string;
+  properties?: Record<string, SSEJsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | SSEJsonSchema;
+  items?: SSEJsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: SSEJsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: unknown;
+}
+
+export type SSEJsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * Either a class-validator DTO, like request bodies elsewhere in the app, or
+ * a JSON Schema. DTOs are converted to JSON Schema for the catalogue.
+ */
+export type SSEEventSchemaDefinition =
+  | { dto: new (...args: any[]) => object; description?: string }
+  | { jsonSchema: SSEJsonSchema; description?: string };
+
+export interface SSEEventCatalogue {
+  events: Record<string, { description?: string; schema: SSEJsonSchema }>;
+  generatedAt: string;
+}
+
+export class SSEEventValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly eventName: string,
+    public readonly errors: string[],
+  ) {
+    super(message);
+    this.name = 'SSEEventValidationError';
+  }
+}
+
+export type SSEBackpressurePolicy = 'drop-oldest' | 'coalesce' | 'disconnect';
+
+export interface SSEBackpressureConfig {
+  // Bytes a client may have pending before the policy applies
+  highWaterMark?: number;
+  // 'coalesce' keeps the newest pending event per event name
+  policy?: SSEBackpressurePolicy;
+}
+
+export interface SSEBackpressureStats {
+  overflows: number;
+  droppedEvents: number;
+  coalescedEvents: number;
+  evictions: number;
+  // Clients currently waiting for their socket to drain
+  congestedClients: number;
+}
+
+export interface SSEBackplaneConfig {
+  // 'redis' uses pub/sub over REDIS_URL; 'upstash' polls a stream over REST
+  type: 'redis' | 'upstash' | 'memory';
+  channel?: string;
+  // Upstash only
+  pollInterval?: number;
+  streamMaxLength?: number;
+}
+
+/**
+ * What instances exchange over the backplane. `id` is unique per message so
+ * receivers can drop duplicates; `origin` identifies the sending instance.
+ */
+export interface SSEBackplaneMessage {
+  id: string;
+  origin: string;
+  type: 'broadcast' | 'client' | 'subscribe' | 'unsubscribe';
+  event?: SSEEvent;
+  clientId?: string;
+  topics?: string[];
+  // Subscription changes only apply to clients opened by this user
+  userId?: string;
+  options?: SSESubscribeOptions;
+}
+
+/**
+ * A condition on one value of the event. Every operator given must hold.
+ * Comparisons only match values of the same type as the operand.
+ */
+export interface SSEFieldPredicate {
+  // Resolved against the event, e.g. `data.priority` or `event`
+  path: string;
+  eq?: string | number | boolean | null;
+  ne?: string | number | boolean | null;
+  gt?: string | number;
+  gte?: string | number;
+  lt?: string | number;
+  lte?: string | number;
+  in?: Array<string | number | boolean | null>;
+  exists?: boolean;
+  // Element of an array, or substring of a string
+  contains?: string | number | boolean | null;
+}
+
+export type SSEFilterExpression =
+  | { all: SSEFilterExpression[] }
+  | { any: SSEFilterExpression[] }
+  | { not: SSEFilterExpression }
+  | SSEFieldPredicate;
+
+export interface SSESubscribeOptions {
+  // Only events matching this filter are delivered on the subscribed topics
+  where?: SSEFilterExpression;
+  // Paths of `data` to keep; everything else is trimmed
+  fields?: string[];
+}
+
+export type SSEDisconnectReason =
+  | 'closed'
+  | 'server_close'
+  | 'shutdown'
+  | 'idle_timeout'
+  | 'max_age'
+  | 'backpressure'
+  | 'error';
+
+/**
+ * Every removal emits `disconnected`. Removals for idle timeout, maximum age
+ * or backpressure also emit `evicted` just before it.
+ */
+export interface SSELifecycleEvent {
+  type: 'connected' | 'disconnected' | 'evicted';
+  clientId: string;
+  userId?: string;
+  reason?: SSEDisconnectReason;
+  timestamp: string;
+}
+
+export type SSELifecycleListener = (event: SSELifecycleEvent) => void;
+
+export class SSEConnectionLimitError extends Error {
+  constructor(message: string, public readonly scope: 'global' | 'user') {
+    super(message);
+    this.name = 'SSEConnectionLimitError';
+  }
+}
+
+export class SSEFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SSEFilterError';
+  }
+}
+
+export interface SSEReplayConfig {
+  enabled?: boolean;
+  // Events kept per topic
+  bufferSize?: number;
+  storage?: 'memory' | 'redis';
+  // Seconds an idle topic's buffer is kept in Redis
+  ttl?: number;
+}
+
+export type SSEEncoding = 'gzip' | 'deflate';
+
+export interface SSECompressionStats {
+  // Stream text written before compression
+  inputBytes: number;
+  // Bytes actually sent
+  outputBytes: number;
+  bytesSaved: number;
+  // outputBytes / inputBytes; 1 when nothing was compressed yet
+  ratio: number;
+}
+
+export interface SSEClientOptions {
+  // Value of the `Last-Event-ID` header sent by a reconnecting client
+  lastEventId?: string;
+  // Request's `Accept-Encoding` header, used when compression is enabled
+  acceptEncoding?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface SSEReplayResult {
+  events: SSEEvent[];
+  // True when events after the requested id were already evicted
+  reset: boolean;
+}
+
+// A stream held open by this instance; see SSEClient for consuming streams
+export interface SSEConnection {
   id: string;
   response: Response;
   topics: Set<string>;
@@ -19,6 +238,8 @@ export interface SSEClient {
   lastEventId?: string;
   lastEventAt: string;
   lastHeartbeatAt: string;
+  // Set when the stream is compressed
+  encoding?: SSEEncoding;
 }
 
 export interface SSEEvent<T = any> {
@@ -35,9 +256,64 @@ export interface SSEEvent<T = any> {
 export interface SSESubscription {
   topic: string;
   clientId: string;
+  // Serializable rules from SSESubscribeOptions; filter and transform are compiled from them
+  where?: SSEFilterExpression;
+  fields?: string[];
   filter?: (event: SSEEvent) => boolean;
   transform?: (event: SSEEvent) => SSEEvent;
   metadata?: Record<string, any>;
   createdAt: string;
   updatedAt: string;
-} 
\ No newline at end of file
+} 
+export interface SSEClientConfig {
+  // Streams are opened relative to this URL
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  // Delay before reconnecting until the server sends `retry`, in ms
+  retryInterval?: number;
+  backoff?: SSEClientBackoffConfig;
+  // Reconnect when nothing, not even a comment, arrives for this many ms; 0 disables
+  heartbeatTimeout?: number;
+  // Consecutive failed attempts before giving up; unlimited by default
+  maxRetries?: number;
+  debug?: boolean;
+}
+
+/**
+ * Consecutive failures multiply the retry delay by `multiplier`, up to
+ * `maxDelay`. `jitter` randomizes each delay by up to that fraction.
+ */
+export interface SSEClientBackoffConfig {
+  multiplier?: number;
+  maxDelay?: number;
+  jitter?: number;
+}
+
+export interface SSEClientConnectOptions {
+  headers?: Record<string, string>;
+  // Resume after this event, as if reconnecting
+  lastEventId?: string;
+}
+
+/**
+ * An event as parsed from the stream. `data` is the raw text, with
+ * multi-line data joined by newlines.
+ */
+export interface SSEMessage {
+  id?: string;
+  event: string;
+  data: string;
+  // Stream's Last-Event-ID at the time this event arrived
+  lastEventId: string;
+}
+
+export class SSEClientError extends Error {
+  constructor(
+    message: string,
+    // HTTP status when the server answered, undefined for network errors
+    public readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'SSEClientError';
+  }
+}
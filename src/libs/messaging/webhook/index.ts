@@ -1,3 +1,13 @@
 export * from './webhook.types';
+export * from './webhook.constants';
+export * from './webhook.queue';
+export * from './webhook.store';
+export * from './webhook.idempotency';
+export * from './webhook.signature';
+export * from './webhook.filter';
+export * from './webhook.health';
+export * from './webhook.concurrency';
+export * from './webhook.egress';
 export * from './webhook.service';
-export * from './webhook.module'; 
\ No newline at end of file
+export * from './webhook.controller';
+export * from './webhook.module';
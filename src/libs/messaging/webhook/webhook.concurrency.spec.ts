@@ -0,0 +1,71 @@
+import { ConcurrencyLimiter, KeyedConcurrencyLimiter } from './webhook.concurrency';
+
+const deferred = () => {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  it.each([0, -1, 1.5, NaN, Infinity])('should reject a limit of %p', limit => {
+    expect(() => new ConcurrencyLimiter(limit)).toThrow(RangeError);
+  });
+
+  it('should run at most `limit` tasks at once, in order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const gates = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+
+    const runs = gates.map((gate, index) =>
+      limiter.run(async () => {
+        started.push(index);
+        await gate.promise;
+        return index;
+      })
+    );
+
+    await flush();
+    expect(started).toEqual([0, 1]);
+
+    gates[0].resolve();
+    await flush();
+    expect(started).toEqual([0, 1, 2]);
+
+    gates[1].resolve();
+    gates[2].resolve();
+    expect(await Promise.all(runs)).toEqual([0, 1, 2]);
+    expect(limiter.pending).toBe(0);
+  });
+
+  it('should free the slot when a task throws', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(await limiter.run(async () => 'next')).toBe('next');
+  });
+});
+
+describe('KeyedConcurrencyLimiter', () => {
+  it.each([0, -1, NaN])('should reject a limit of %p', limit => {
+    expect(() => new KeyedConcurrencyLimiter(limit)).toThrow(RangeError);
+  });
+
+  it('should limit each key independently', async () => {
+    const limiter = new KeyedConcurrencyLimiter(1);
+    const gate = deferred();
+    const started: string[] = [];
+
+    const first = limiter.run('a.com', async () => { started.push('a1'); await gate.promise; });
+    const second = limiter.run('a.com', async () => { started.push('a2'); });
+    const other = limiter.run('b.com', async () => { started.push('b1'); });
+
+    await flush();
+    expect(started).toEqual(['a1', 'b1']);
+
+    gate.resolve();
+    await Promise.all([first, second, other]);
+    expect(started).toEqual(['a1', 'b1', 'a2']);
+  });
+});
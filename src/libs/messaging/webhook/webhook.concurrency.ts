@@ -0,0 +1,69 @@
+// A limit of 0 would leave every task waiting forever
+function assertValidLimit(limit: number) {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new RangeError(`Concurrency limit must be a positive integer, got ${limit}`);
+  }
+}
+
+/**
+ * Runs at most `limit` tasks at a time; the rest wait in FIFO order.
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {
+    assertValidLimit(limit);
+  }
+
+  get pending(): number {
+    return this.active + this.waiting.length;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // The finishing task hands its slot over, so `active` stays the same
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+/**
+ * One `ConcurrencyLimiter` per key, created on demand and dropped once idle.
+ */
+export class KeyedConcurrencyLimiter {
+  private readonly limiters = new Map<string, ConcurrencyLimiter>();
+
+  constructor(private readonly limit: number) {
+    assertValidLimit(limit);
+  }
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    let limiter = this.limiters.get(key);
+    if (!limiter) {
+      limiter = new ConcurrencyLimiter(this.limit);
+      this.limiters.set(key, limiter);
+    }
+
+    try {
+      return await limiter.run(task);
+    } finally {
+      if (limiter.pending === 0) {
+        this.limiters.delete(key);
+      }
+    }
+  }
+}
@@ -1,3 +1,20 @@
 import { INJECTION_TOKENS } from '../common/constants';
+import { REDIS_PREFIXES } from '../../../common/constants/injection.tokens';
 
-export const WEBHOOK_CONFIG = INJECTION_TOKENS.WEBHOOK_CONFIG; 
\ No newline at end of file
+export const WEBHOOK_CONFIG = INJECTION_TOKENS.WEBHOOK_CONFIG;
+export const WEBHOOK_SUBSCRIPTION_STORE = 'WEBHOOK_SUBSCRIPTION_STORE';
+export const WEBHOOK_IDEMPOTENCY_STORE = 'WEBHOOK_IDEMPOTENCY_STORE';
+
+export const WEBHOOK_SUBSCRIPTION_PREFIX = `${REDIS_PREFIXES.WEBHOOK}:subscription:`;
+export const WEBHOOK_ATTEMPTS_PREFIX = `${REDIS_PREFIXES.WEBHOOK}:attempts:`;
+export const WEBHOOK_DELIVERY_STATE_PREFIX = `${REDIS_PREFIXES.WEBHOOK}:delivery-state:`;
+export const DEFAULT_WEBHOOK_RECEIVER_PATH = 'webhooks/inbound';
+
+export const WEBHOOK_INBOUND_PREFIX = `${REDIS_PREFIXES.WEBHOOK}:inbound:`;
+
+export const WEBHOOK_QUEUE_KEYS = {
+  JOB: `${REDIS_PREFIXES.WEBHOOK}:job:`,
+  PENDING: `${REDIS_PREFIXES.WEBHOOK}:queue:pending`,
+  INFLIGHT: `${REDIS_PREFIXES.WEBHOOK}:queue:inflight`,
+  DEAD: `${REDIS_PREFIXES.WEBHOOK}:queue:dead`,
+} as const;
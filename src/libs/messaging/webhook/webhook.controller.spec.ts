@@ -0,0 +1,41 @@
+import { RequestMethod } from '@nestjs/common';
+import { INTERCEPTORS_METADATA, METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants';
+import { Request, Response } from 'express';
+import { LoggingInterceptor } from '../../../core/interceptors/logging.interceptor';
+import { MetricsInterceptor } from '../../../core/interceptors/metrics.interceptor';
+import { createWebhookReceiverController } from './webhook.controller';
+import { WebhookService } from './webhook.service';
+
+describe('createWebhookReceiverController', () => {
+  const ReceiverController = createWebhookReceiverController('webhooks/inbound');
+  const webhookService = { handleInbound: jest.fn().mockResolvedValue(undefined) };
+  const controller = new (ReceiverController as any)(webhookService as unknown as WebhookService);
+
+  const req = { body: { type: 'test' } } as Request;
+  const res = {} as Response;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should mount under the configured path', () => {
+    expect(Reflect.getMetadata(PATH_METADATA, ReceiverController)).toBe('webhooks/inbound');
+    expect(Reflect.getMetadata(METHOD_METADATA, controller.receive)).toBe(RequestMethod.POST);
+    expect(Reflect.getMetadata(PATH_METADATA, controller.receiveForHandler)).toBe(':handlerPath');
+  });
+
+  it('should run through the logging and metrics interceptors', () => {
+    expect(Reflect.getMetadata(INTERCEPTORS_METADATA, ReceiverController)).toEqual([
+      LoggingInterceptor,
+      MetricsInterceptor,
+    ]);
+  });
+
+  it('should delegate to the webhook service', async () => {
+    await controller.receive(req, res);
+    await controller.receiveForHandler('stripe', req, res);
+
+    expect(webhookService.handleInbound).toHaveBeenNthCalledWith(1, req, res);
+    expect(webhookService.handleInbound).toHaveBeenNthCalledWith(2, req, res, 'stripe');
+  });
+});
@@ -0,0 +1,34 @@
+import { Controller, Param, Post, Req, Res, Type, UseInterceptors } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { LoggingInterceptor } from '../../../core/interceptors/logging.interceptor';
+import { MetricsInterceptor } from '../../../core/interceptors/metrics.interceptor';
+import { WebhookService } from './webhook.service';
+
+/**
+ * Builds the controller that serves inbound webhooks from the main Nest app.
+ * The route prefix comes from configuration, so the class is created per
+ * module registration rather than declared statically.
+ */
+export function createWebhookReceiverController(path: string): Type<unknown> {
+  @Controller(path)
+  @UseInterceptors(LoggingInterceptor, MetricsInterceptor)
+  class WebhookReceiverController {
+    constructor(private readonly webhookService: WebhookService) {}
+
+    @Post()
+    receive(@Req() req: Request, @Res() res: Response): Promise<void> {
+      return this.webhookService.handleInbound(req, res);
+    }
+
+    @Post(':handlerPath')
+    receiveForHandler(
+      @Param('handlerPath') handlerPath: string,
+      @Req() req: Request,
+      @Res() res: Response
+    ): Promise<void> {
+      return this.webhookService.handleInbound(req, res, handlerPath);
+    }
+  }
+
+  return WebhookReceiverController;
+}
@@ -0,0 +1,167 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { fetch } from 'undici';
+import {
+  createPinnedDispatcher,
+  isPrivateAddress,
+  matchesHostPattern,
+  pinnedLookup,
+  WebhookEgressPolicy,
+} from './webhook.egress';
+import { WebhookEgressError } from './webhook.types';
+
+describe('webhook egress', () => {
+  describe('isPrivateAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::ffff:7f00:1',
+      '::7f00:1',
+      '::127.0.0.1',
+      '::a9fe:a9fe',
+      '64:ff9b::a9fe:a9fe',
+      '64:ff9b::169.254.169.254',
+      '64:ff9b::808:808',
+      '64:ff9b:1::a00:1',
+    ])('should flag %s', address => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each(['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8'])(
+      'should allow %s',
+      address => {
+        expect(isPrivateAddress(address)).toBe(false);
+      }
+    );
+  });
+
+  describe('matchesHostPattern', () => {
+    it('should match exact hosts and subdomain wildcards', () => {
+      expect(matchesHostPattern('example.com', 'example.com')).toBe(true);
+      expect(matchesHostPattern('*.example.com', 'hooks.example.com')).toBe(true);
+      expect(matchesHostPattern('*.example.com', 'example.com')).toBe(false);
+      expect(matchesHostPattern('*.example.com', 'evilexample.com')).toBe(false);
+    });
+  });
+
+  describe('WebhookEgressPolicy', () => {
+    const resolveTo = (...addresses: string[]) => jest.fn(async () => addresses);
+
+    it('should allow public hosts', async () => {
+      const policy = new WebhookEgressPolicy({}, resolveTo('93.184.216.34'));
+      await expect(policy.assertAllowed('https://example.com/hook')).resolves.toBeUndefined();
+    });
+
+    it('should reject disallowed schemes and invalid URLs', async () => {
+      const policy = new WebhookEgressPolicy({ allowedSchemes: ['https'] }, resolveTo('93.184.216.34'));
+
+      await expect(policy.assertAllowed('http://example.com/hook')).rejects.toThrow(
+        'Scheme http is not allowed for webhooks'
+      );
+      await expect(policy.assertAllowed('not a url')).rejects.toThrow(WebhookEgressError);
+    });
+
+    it('should reject literal and resolved private addresses', async () => {
+      const policy = new WebhookEgressPolicy({}, resolveTo('93.184.216.34', '127.0.0.1'));
+
+      await expect(policy.assertAllowed('http://169.254.169.254/')).rejects.toThrow(
+        'Host 169.254.169.254 resolves to a private or reserved address'
+      );
+      await expect(policy.assertAllowed('http://[::1]:8080/')).rejects.toThrow(WebhookEgressError);
+      await expect(policy.assertAllowed('http://[64:ff9b::a9fe:a9fe]/')).rejects.toThrow(
+        WebhookEgressError
+      );
+      await expect(policy.assertAllowed('http://[::7f00:1]/')).rejects.toThrow(WebhookEgressError);
+      await expect(policy.assertAllowed('https://sneaky.com/')).rejects.toThrow(
+        'Host sneaky.com resolves to a private or reserved address'
+      );
+    });
+
+    it('should reject hosts that do not resolve', async () => {
+      const policy = new WebhookEgressPolicy({}, jest.fn().mockRejectedValue(new Error('ENOTFOUND')));
+      await expect(policy.assertAllowed('https://missing.invalid/')).rejects.toThrow(
+        'Host missing.invalid could not be resolved'
+      );
+    });
+
+    it('should apply host allow and deny lists', async () => {
+      const policy = new WebhookEgressPolicy(
+        { allowedHosts: ['*.partner.com'], deniedHosts: ['legacy.partner.com'] },
+        resolveTo('93.184.216.34')
+      );
+
+      await expect(policy.assertAllowed('https://hooks.partner.com/')).resolves.toBeUndefined();
+      await expect(policy.assertAllowed('https://legacy.partner.com/')).rejects.toThrow(
+        'Host legacy.partner.com is denied for webhooks'
+      );
+      await expect(policy.assertAllowed('https://other.com/')).rejects.toThrow(
+        'Host other.com is not in the webhook allow-list'
+      );
+    });
+
+    it('should permit private networks only when configured', async () => {
+      const resolve = resolveTo('10.0.0.5');
+      const policy = new WebhookEgressPolicy({ allowPrivateNetworks: true }, resolve);
+
+      await expect(policy.assertAllowed('http://internal.local/')).resolves.toBeUndefined();
+      expect(resolve).not.toHaveBeenCalled();
+    });
+
+    it('should allow everything when disabled', async () => {
+      const policy = new WebhookEgressPolicy({ enabled: false }, resolveTo('127.0.0.1'));
+      await expect(policy.assertAllowed('ftp://localhost/')).resolves.toBeUndefined();
+    });
+
+    it('should return the addresses it checked', async () => {
+      const policy = new WebhookEgressPolicy({}, resolveTo('93.184.216.34', '2606:2800:220:1::'));
+
+      await expect(policy.resolveAllowedAddresses('https://example.com/hook')).resolves.toEqual([
+        '93.184.216.34',
+        '2606:2800:220:1::',
+      ]);
+      await expect(policy.resolveAllowedAddresses('https://8.8.8.8/hook')).resolves.toEqual(['8.8.8.8']);
+    });
+  });
+
+  describe('pinned connections', () => {
+    it('should answer lookups with the checked addresses only', () => {
+      const lookup = pinnedLookup(['93.184.216.34', '2606:2800:220:1::']);
+      const callback = jest.fn();
+
+      lookup('rebind.com', { all: true }, callback);
+      lookup('rebind.com', { family: 6 }, callback);
+      lookup('rebind.com', {}, callback);
+
+      expect(callback.mock.calls).toEqual([
+        [null, [{ address: '93.184.216.34', family: 4 }, { address: '2606:2800:220:1::', family: 6 }]],
+        [null, '2606:2800:220:1::', 6],
+        [null, '93.184.216.34', 4],
+      ]);
+    });
+
+    it('should connect to the pinned address without resolving the host', async () => {
+      const server: Server = createServer((req, res) => res.end(req.headers.host));
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      const dispatcher = createPinnedDispatcher(['127.0.0.1']);
+
+      try {
+        const response = await fetch(`http://rebind.invalid:${port}/hook`, { dispatcher });
+        expect(await response.text()).toBe(`rebind.invalid:${port}`);
+      } finally {
+        await dispatcher.close();
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { LookupAddress, promises as dns } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Agent } from 'undici';
+import { WebhookEgressConfig, WebhookEgressError } from './webhook.types';
+
+export const defaultWebhookEgressConfig: Required<WebhookEgressConfig> = {
+  enabled: true,
+  allowedSchemes: ['https', 'http'],
+  allowPrivateNetworks: false,
+  allowedHosts: [],
+  deniedHosts: [],
+};
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges
+const BLOCKED_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  // IPv4-compatible addresses, including :: and ::1
+  ['::', 96, 'ipv6'],
+  // NAT64, which reaches IPv4 hosts through a translator
+  ['64:ff9b::', 96, 'ipv6'],
+  ['64:ff9b:1::', 48, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix, family] of BLOCKED_RANGES) {
+  blockedAddresses.addSubnet(network, prefix, family);
+}
+
+// First 96 bits of IPv6 addresses whose last 32 bits are an IPv4 address:
+// IPv4-mapped, IPv4-compatible and NAT64
+const EMBEDDED_IPV4_PREFIXES = [
+  [0, 0, 0, 0, 0, 0xffff],
+  [0, 0, 0, 0, 0, 0],
+  [0x64, 0xff9b, 0, 0, 0, 0],
+];
+
+// The eight 16-bit groups of a valid IPv6 address, in either notation
+function parseIPv6Groups(address: string): number[] {
+  let value = address.toLowerCase().replace(/%.*$/, '');
+  const dotted = value.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number);
+    value = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = value.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const zeros = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill('0');
+  return [...headGroups, ...zeros, ...tailGroups].map(group => parseInt(group, 16));
+}
+
+function embeddedIPv4(address: string): string | undefined {
+  const groups = parseIPv6Groups(address);
+  const isEmbedding = EMBEDDED_IPV4_PREFIXES.some(prefix =>
+    prefix.every((group, index) => group === groups[index])
+  );
+  if (!isEmbedding) return undefined;
+  return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return blockedAddresses.check(address, 'ipv4');
+  if (family !== 6) return false;
+
+  // IPv4 addresses inside IPv6 ones (::ffff:127.0.0.1, ::7f00:1,
+  // 64:ff9b::a9fe:a9fe) are also checked as IPv4
+  const embedded = embeddedIPv4(address);
+  if (embedded && blockedAddresses.check(embedded, 'ipv4')) return true;
+  return blockedAddresses.check(address, 'ipv6');
+}
+
+/**
+ * `*.example.com` matches subdomains of example.com; anything else must match
+ * the host exactly.
+ */
+export function matchesHostPattern(pattern: string, host: string): boolean {
+  const normalizedPattern = pattern.toLowerCase();
+  if (normalizedPattern.startsWith('*.')) {
+    return host.endsWith(normalizedPattern.slice(1));
+  }
+  return host === normalizedPattern;
+}
+
+/**
+ * A socket `lookup` that answers with addresses the policy already checked,
+ * whatever the hostname, so connecting does not ask DNS again and cannot
+ * land on a rebound address.
+ */
+export function pinnedLookup(addresses: string[]): LookupFunction {
+  const entries: LookupAddress[] = addresses.map(address => ({ address, family: isIP(address) }));
+
+  return (hostname, options, callback) => {
+    const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family ?? 0;
+    const matching = family ? entries.filter(entry => entry.family === family) : entries;
+    if (matching.length === 0) {
+      callback(Object.assign(new Error(`No checked address for ${hostname}`), { code: 'ENOTFOUND' }), '');
+    } else if (options.all) {
+      callback(null, matching);
+    } else {
+      callback(null, matching[0].address, matching[0].family);
+    }
+  };
+}
+
+/**
+ * An HTTP dispatcher whose connections go to the given addresses only. TLS
+ * still verifies the certificate against the URL's hostname.
+ */
+export function createPinnedDispatcher(addresses: string[]): Agent {
+  return new Agent({ connect: { lookup: pinnedLookup(addresses) } });
+}
+
+/**
+ * Decides whether the service may send requests to a URL. Hostnames are
+ * resolved and every address they resolve to must be public, unless private
+ * networks are explicitly allowed.
+ */
+export class WebhookEgressPolicy {
+  private readonly config: Required<WebhookEgressConfig>;
+
+  constructor(
+    config: WebhookEgressConfig = {},
+    private readonly resolve: (host: string) => Promise<string[]> = async host =>
+      (await dns.lookup(host, { all: true, verbatim: true })).map(entry => entry.address),
+  ) {
+    this.config = { ...defaultWebhookEgressConfig, ...config };
+  }
+
+  async assertAllowed(url: string): Promise<void> {
+    await this.resolveAllowedAddresses(url);
+  }
+
+  /**
+   * Checks the URL like `assertAllowed` and returns the addresses it checked,
+   * for the request to be pinned to. Empty when nothing was resolved because
+   * the policy is off or private networks are allowed.
+   */
+  async resolveAllowedAddresses(url: string): Promise<string[]> {
+    if (!this.config.enabled) return [];
+
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new WebhookEgressError(`Invalid webhook URL: ${url}`, url);
+    }
+
+    const scheme = parsed.protocol.replace(/:$/, '');
+    if (!this.config.allowedSchemes.includes(scheme)) {
+      throw new WebhookEgressError(`Scheme ${scheme} is not allowed for webhooks`, url);
+    }
+
+    // URL keeps IPv6 literals in brackets
+    const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    if (this.config.deniedHosts.some(pattern => matchesHostPattern(pattern, host))) {
+      throw new WebhookEgressError(`Host ${host} is denied for webhooks`, url);
+    }
+    if (
+      this.config.allowedHosts.length > 0 &&
+      !this.config.allowedHosts.some(pattern => matchesHostPattern(pattern, host))
+    ) {
+      throw new WebhookEgressError(`Host ${host} is not in the webhook allow-list`, url);
+    }
+
+    if (this.config.allowPrivateNetworks) return [];
+
+    let addresses: string[];
+    try {
+      addresses = isIP(host) ? [host] : await this.resolve(host);
+    } catch {
+      throw new WebhookEgressError(`Host ${host} could not be resolved`, url);
+    }
+
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      throw new WebhookEgressError(`Host ${host} resolves to a private or reserved address`, url);
+    }
+    return addresses;
+  }
+}
@@ -0,0 +1,134 @@
+import {
+  matchesEventPattern,
+  matchesFilters,
+  parseDataPath,
+  projectPayload,
+  subscriptionMatchesEvent,
+  validateSubscriptionRules,
+} from './webhook.filter';
+import { WebhookSubscription, WebhookSubscriptionError } from './webhook.types';
+
+describe('webhook filters', () => {
+  const data = {
+    roomId: 'room_1',
+    message: { text: 'Hello', sender: { id: 'user_1', name: 'Ada' } },
+    tags: ['urgent', 'support'],
+  };
+
+  describe('parseDataPath', () => {
+    it('should parse dot, index and quoted segments', () => {
+      expect(parseDataPath('$.message.sender.id')).toEqual(['message', 'sender', 'id']);
+      expect(parseDataPath('tags[1]')).toEqual(['tags', 1]);
+      expect(parseDataPath("$['content-type']")).toEqual(['content-type']);
+    });
+
+    it('should reject malformed paths', () => {
+      expect(() => parseDataPath('$')).toThrow(WebhookSubscriptionError);
+      expect(() => parseDataPath('$.a..b')).toThrow('Invalid data path: $.a..b');
+      expect(() => parseDataPath('$.a[x]')).toThrow(WebhookSubscriptionError);
+    });
+
+    it('should reject segments that reach object prototypes', () => {
+      expect(() => parseDataPath('__proto__.polluted')).toThrow('Data path not allowed');
+      expect(() => parseDataPath("$['__proto__']")).toThrow(WebhookSubscriptionError);
+      expect(() => parseDataPath('a.constructor.prototype')).toThrow(WebhookSubscriptionError);
+    });
+  });
+
+  describe('matchesEventPattern', () => {
+    it('should match exact types and wildcards', () => {
+      expect(matchesEventPattern('chat.message', 'chat.message')).toBe(true);
+      expect(matchesEventPattern('chat.*', 'chat.message')).toBe(true);
+      expect(matchesEventPattern('chat.*', 'chatroom.message')).toBe(false);
+      expect(matchesEventPattern('*', 'anything')).toBe(true);
+      expect(matchesEventPattern('chat.message', 'chat.messages')).toBe(false);
+    });
+  });
+
+  describe('matchesFilters', () => {
+    it('should require every filter to match', () => {
+      expect(matchesFilters(data, [
+        { path: '$.roomId', in: ['room_1', 'room_2'] },
+        { path: '$.message.sender.id', equals: 'user_1' },
+      ])).toBe(true);
+      expect(matchesFilters(data, [
+        { path: '$.roomId', in: ['room_1'] },
+        { path: '$.message.sender.id', equals: 'user_2' },
+      ])).toBe(false);
+    });
+
+    it('should match array values by element', () => {
+      expect(matchesFilters(data, [{ path: '$.tags', equals: 'urgent' }])).toBe(true);
+      expect(matchesFilters(data, [{ path: '$.tags', in: ['billing'] }])).toBe(false);
+    });
+
+    it('should check for presence', () => {
+      expect(matchesFilters(data, [{ path: '$.message.text', exists: true }])).toBe(true);
+      expect(matchesFilters(data, [{ path: '$.message.edited', exists: false }])).toBe(true);
+      expect(matchesFilters(data, [{ path: '$.missing.deep', exists: true }])).toBe(false);
+    });
+
+    it('should match everything without filters', () => {
+      expect(matchesFilters(data)).toBe(true);
+    });
+  });
+
+  describe('projectPayload', () => {
+    it('should keep only the requested fields with their nesting', () => {
+      expect(projectPayload(data, ['roomId', '$.message.sender.id', 'missing'])).toEqual({
+        roomId: 'room_1',
+        message: { sender: { id: 'user_1' } },
+      });
+    });
+
+    it('should return the payload untouched without fields', () => {
+      expect(projectPayload(data)).toBe(data);
+      expect(projectPayload('text', ['a'])).toBe('text');
+    });
+
+    it('should not follow or write to prototypes', () => {
+      const payload = JSON.parse('{"__proto__": {"polluted": true}, "a": {}}');
+
+      expect(() => projectPayload(payload, ['__proto__.polluted'])).toThrow(WebhookSubscriptionError);
+      expect(projectPayload(payload, ['a.toString', 'hasOwnProperty'])).toEqual({});
+      expect(({} as any).polluted).toBeUndefined();
+    });
+  });
+
+  describe('subscriptionMatchesEvent', () => {
+    const subscription: WebhookSubscription = {
+      id: 'sub_1',
+      url: 'https://example.com/webhook',
+      events: ['chat.*'],
+      active: true,
+      createdAt: new Date().toISOString(),
+      filters: [{ path: '$.roomId', in: ['room_1'] }],
+    };
+    const event = { id: 'evt_1', type: 'chat.message', data, timestamp: new Date().toISOString() };
+
+    it('should match on pattern and filters', () => {
+      expect(subscriptionMatchesEvent(subscription, event)).toBe(true);
+      expect(subscriptionMatchesEvent(subscription, { ...event, data: { roomId: 'room_9' } })).toBe(false);
+      expect(subscriptionMatchesEvent({ ...subscription, active: false }, event)).toBe(false);
+    });
+  });
+
+  describe('validateSubscriptionRules', () => {
+    it('should reject filters without a condition', () => {
+      expect(() => validateSubscriptionRules({ filters: [{ path: '$.roomId' }] })).toThrow(
+        'Filter on $.roomId needs one of equals, in or exists'
+      );
+    });
+
+    it('should reject projections into arrays', () => {
+      expect(() => validateSubscriptionRules({ fields: ['tags[0]'] })).toThrow(WebhookSubscriptionError);
+    });
+
+    it('should accept valid rules', () => {
+      expect(() => validateSubscriptionRules({
+        filters: [{ path: '$.roomId', equals: 'room_1' }],
+        fields: ['message.text'],
+      })).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { WebhookEvent, WebhookEventFilter, WebhookSubscription, WebhookSubscriptionError } from './webhook.types';
+
+type PathSegment = string | number;
+
+const PATH_TOKEN = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(['"])(.*?)\3\]/y;
+// Paths come from clients; these would reach object prototypes
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype']);
+
+const hasOwn = (value: object, key: PathSegment) => Object.prototype.hasOwnProperty.call(value, key);
+
+/**
+ * Parses `$.a.b[0]['c-d']` (the leading `$` is optional) into its segments.
+ */
+export function parseDataPath(path: string): PathSegment[] {
+  let source = path.trim();
+  if (source.startsWith('$')) source = source.slice(1);
+  if (source && !source.startsWith('.') && !source.startsWith('[')) source = `.${source}`;
+
+  const segments: PathSegment[] = [];
+  PATH_TOKEN.lastIndex = 0;
+  while (PATH_TOKEN.lastIndex < source.length) {
+    const match = PATH_TOKEN.exec(source);
+    if (!match) {
+      throw new WebhookSubscriptionError(`Invalid data path: ${path}`);
+    }
+    if (match[1] !== undefined) segments.push(match[1]);
+    else if (match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[4]);
+  }
+
+  if (segments.length === 0) {
+    throw new WebhookSubscriptionError(`Invalid data path: ${path}`);
+  }
+  if (segments.some(segment => FORBIDDEN_SEGMENTS.has(String(segment)))) {
+    throw new WebhookSubscriptionError(`Data path not allowed: ${path}`);
+  }
+  return segments;
+}
+
+export function resolveSegments(data: unknown, segments: PathSegment[]): unknown {
+  let current: any = data;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object' || !hasOwn(current, segment)) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+export function resolveDataPath(data: unknown, path: string): unknown {
+  return resolveSegments(data, parseDataPath(path));
+}
+
+/**
+ * `*` matches any run of characters, so `chat.*` matches `chat.message` and
+ * `*` matches every event type.
+ */
+export function matchesEventPattern(pattern: string, type: string): boolean {
+  if (!pattern.includes('*')) return pattern === type;
+
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(type);
+}
+
+function matchesFilter(data: unknown, filter: WebhookEventFilter): boolean {
+  const value = resolveDataPath(data, filter.path);
+
+  if (filter.exists !== undefined && (value !== undefined) !== filter.exists) {
+    return false;
+  }
+
+  const candidates = Array.isArray(value) ? value : [value];
+  if (filter.equals !== undefined && !candidates.some(candidate => candidate === filter.equals)) {
+    return false;
+  }
+  if (filter.in && !candidates.some(candidate => filter.in!.includes(candidate as any))) {
+    return false;
+  }
+
+  return true;
+}
+
+export function matchesFilters(data: unknown, filters: WebhookEventFilter[] = []): boolean {
+  return filters.every(filter => matchesFilter(data, filter));
+}
+
+/**
+ * Copies only the requested paths out of `data`, keeping their nesting.
+ * Paths that do not resolve are left out.
+ */
+export function projectPayload<T = any>(data: T, fields?: string[]): T | Record<string, unknown> {
+  if (!fields?.length || data === null || typeof data !== 'object') return data;
+
+  const projected: Record<string, any> = {};
+  for (const field of fields) {
+    const segments = parseDataPath(field);
+    const value = resolveSegments(data, segments);
+    if (value === undefined) continue;
+
+    let target = projected;
+    segments.slice(0, -1).forEach(segment => {
+      if (!hasOwn(target, segment)) target[segment] = {};
+      target = target[segment];
+    });
+    target[segments[segments.length - 1]] = value;
+  }
+
+  return projected;
+}
+
+export function subscriptionMatchesEvent(subscription: WebhookSubscription, event: WebhookEvent): boolean {
+  return subscription.active
+    && subscription.events.some(pattern => matchesEventPattern(pattern, event.type))
+    && matchesFilters(event.data, subscription.filters);
+}
+
+/**
+ * Returns the event as this subscription should receive it.
+ */
+export function projectEventForSubscription<T>(
+  subscription: WebhookSubscription,
+  event: WebhookEvent<T>
+): WebhookEvent<T> {
+  if (!subscription.fields?.length) return event;
+  return { ...event, data: projectPayload(event.data, subscription.fields) as T };
+}
+
+/**
+ * Rejects malformed filter and projection paths up front, so a bad
+ * subscription fails when it is created rather than on every delivery.
+ */
+export function validateSubscriptionRules(
+  rules: Pick<WebhookSubscription, 'filters' | 'fields'>
+): void {
+  for (const filter of rules.filters ?? []) {
+    parseDataPath(filter.path);
+    if (filter.equals === undefined && filter.in === undefined && filter.exists === undefined) {
+      throw new WebhookSubscriptionError(
+        `Filter on ${filter.path} needs one of equals, in or exists`
+      );
+    }
+  }
+
+  for (const field of rules.fields ?? []) {
+    if (parseDataPath(field).some(segment => typeof segment === 'number')) {
+      throw new WebhookSubscriptionError(`Projected fields cannot index into arrays: ${field}`);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { createSubscriptionHealth, recordHealthOutcome } from './webhook.health';
+import { WebhookSubscriptionHealth } from './webhook.types';
+
+describe('webhook health', () => {
+  const record = (outcomes: boolean[], config = {}) =>
+    outcomes.reduce<{ health: WebhookSubscriptionHealth; disableReason?: string }>(
+      (state, success) => recordHealthOutcome(state.health, success, config),
+      { health: createSubscriptionHealth() }
+    );
+
+  it('should track a rolling success rate over the window', () => {
+    const { health } = record([false, false, true, true, true], { window: 4 });
+
+    expect(health.recent).toEqual([false, true, true, true]);
+    expect(health.successRate).toBe(0.75);
+    expect(health.consecutiveFailures).toBe(0);
+  });
+
+  it('should flag consecutive failures', () => {
+    const config = { maxConsecutiveFailures: 3, minDeliveries: 100 };
+
+    expect(record([false, false], config).disableReason).toBeUndefined();
+    expect(record([false, false, false], config).disableReason).toBe('3 consecutive delivery failures');
+    expect(record([false, false, true, false], config).disableReason).toBeUndefined();
+  });
+
+  it('should flag a failure rate over the threshold once the window has enough deliveries', () => {
+    const config = {
+      window: 10,
+      minDeliveries: 5,
+      failureRateThreshold: 0.5,
+      maxConsecutiveFailures: 100,
+    };
+
+    expect(record([false, true, false, true], config).disableReason).toBeUndefined();
+    expect(record([false, true, false, true, false], config).disableReason).toBe(
+      'Failure rate 60% over the last 5 deliveries'
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { WebhookHealthConfig, WebhookSubscriptionHealth } from './webhook.types';
+
+export const defaultWebhookHealthConfig: Required<Omit<WebhookHealthConfig, 'onSubscriptionDisabled'>> = {
+  enabled: true,
+  window: 50,
+  maxConsecutiveFailures: 20,
+  failureRateThreshold: 0.9,
+  minDeliveries: 20,
+};
+
+export function createSubscriptionHealth(): WebhookSubscriptionHealth {
+  return { consecutiveFailures: 0, recent: [], successRate: 1 };
+}
+
+/**
+ * Folds one delivery outcome into the subscription's health. Returns the
+ * reason the subscription should be disabled, if it crossed a threshold.
+ */
+export function recordHealthOutcome(
+  health: WebhookSubscriptionHealth = createSubscriptionHealth(),
+  success: boolean,
+  config: WebhookHealthConfig = {}
+): { health: WebhookSubscriptionHealth; disableReason?: string } {
+  const settings = { ...defaultWebhookHealthConfig, ...config };
+
+  const recent = [...health.recent, success].slice(-settings.window);
+  const successes = recent.filter(Boolean).length;
+  const updated: WebhookSubscriptionHealth = {
+    ...health,
+    consecutiveFailures: success ? 0 : health.consecutiveFailures + 1,
+    recent,
+    successRate: recent.length ? successes / recent.length : 1,
+  };
+
+  if (updated.consecutiveFailures >= settings.maxConsecutiveFailures) {
+    return {
+      health: updated,
+      disableReason: `${updated.consecutiveFailures} consecutive delivery failures`,
+    };
+  }
+
+  const failureRate = 1 - updated.successRate;
+  if (recent.length >= settings.minDeliveries && failureRate >= settings.failureRateThreshold) {
+    return {
+      health: updated,
+      disableReason: `Failure rate ${Math.round(failureRate * 100)}% over the last ${recent.length} deliveries`,
+    };
+  }
+
+  return { health: updated };
+}
@@ -0,0 +1,94 @@
+import { RedisService } from '../../../core/shared/services/redis.service';
+import {
+  InMemoryWebhookIdempotencyStore,
+  RedisWebhookIdempotencyStore,
+  WebhookIdempotencyStore,
+} from './webhook.idempotency';
+import { WEBHOOK_INBOUND_PREFIX } from './webhook.constants';
+
+const createRedisMock = () => {
+  const values = new Map<string, any>();
+
+  return {
+    values,
+    setnx: jest.fn(async (key: string, value: string) => {
+      if (values.has(key)) return false;
+      values.set(key, value);
+      return true;
+    }),
+    get: jest.fn(async (key: string) => values.get(key) ?? null),
+    set: jest.fn(async (key: string, value: any) => {
+      values.set(key, value);
+      return true;
+    }),
+    del: jest.fn(async (key: string) => values.delete(key)),
+  };
+};
+
+describe.each([
+  ['InMemoryWebhookIdempotencyStore', () => new InMemoryWebhookIdempotencyStore()],
+  [
+    'RedisWebhookIdempotencyStore',
+    () => new RedisWebhookIdempotencyStore(createRedisMock() as unknown as RedisService),
+  ],
+])('%s', (_name, createStore: () => WebhookIdempotencyStore) => {
+  let store: WebhookIdempotencyStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('should only allow the first claim for an event id', async () => {
+    expect(await store.claim('evt_1', 60)).toBe(true);
+    expect(await store.claim('evt_1', 60)).toBe(false);
+    expect((await store.find('evt_1'))?.status).toBe('processing');
+  });
+
+  it('should keep the completed result', async () => {
+    await store.claim('evt_1', 60);
+    await store.complete('evt_1', {
+      status: 'completed',
+      statusCode: 200,
+      body: { ok: true },
+      createdAt: new Date().toISOString(),
+    }, 3600);
+
+    expect(await store.claim('evt_1', 60)).toBe(false);
+    expect(await store.find('evt_1')).toEqual(expect.objectContaining({
+      status: 'completed',
+      body: { ok: true },
+    }));
+  });
+
+  it('should allow a new claim after release', async () => {
+    await store.claim('evt_1', 60);
+    await store.release('evt_1');
+
+    expect(await store.find('evt_1')).toBeNull();
+    expect(await store.claim('evt_1', 60)).toBe(true);
+  });
+});
+
+describe('InMemoryWebhookIdempotencyStore', () => {
+  it('should forget records once their ttl has passed', async () => {
+    const store = new InMemoryWebhookIdempotencyStore();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+    await store.claim('evt_1', 1);
+    now.mockReturnValue(2500);
+
+    expect(await store.claim('evt_1', 1)).toBe(true);
+    now.mockRestore();
+  });
+});
+
+describe('RedisWebhookIdempotencyStore', () => {
+  it('should namespace keys and claim with an expiry', async () => {
+    const redis = createRedisMock();
+    const store = new RedisWebhookIdempotencyStore(redis as unknown as RedisService);
+
+    await store.claim('evt_1', 60);
+
+    expect(redis.setnx).toHaveBeenCalledWith(`${WEBHOOK_INBOUND_PREFIX}evt_1`, expect.any(String), 60);
+  });
+});
@@ -0,0 +1,85 @@
+import { Injectable } from '@nestjs/common';
+import { RedisStorage } from '../../../core/common/redis.storage';
+import { RedisService } from '../../../core/shared/services/redis.service';
+import { WEBHOOK_INBOUND_PREFIX } from './webhook.constants';
+import { WebhookIdempotencyRecord } from './webhook.types';
+
+export interface WebhookIdempotencyStore {
+  /**
+   * Atomically marks an event id as being processed. Returns false when the
+   * id has already been claimed or completed.
+   */
+  claim(eventId: string, ttl: number): Promise<boolean>;
+  find(eventId: string): Promise<WebhookIdempotencyRecord | null>;
+  complete(eventId: string, record: WebhookIdempotencyRecord, ttl: number): Promise<void>;
+  release(eventId: string): Promise<void>;
+}
+
+export class InMemoryWebhookIdempotencyStore implements WebhookIdempotencyStore {
+  private readonly records = new Map<string, { record: WebhookIdempotencyRecord; expiresAt: number }>();
+
+  private read(eventId: string): WebhookIdempotencyRecord | null {
+    const entry = this.records.get(eventId);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.records.delete(eventId);
+      return null;
+    }
+    return entry.record;
+  }
+
+  async claim(eventId: string, ttl: number): Promise<boolean> {
+    if (this.read(eventId)) return false;
+    this.records.set(eventId, {
+      record: { status: 'processing', createdAt: new Date().toISOString() },
+      expiresAt: Date.now() + ttl * 1000,
+    });
+    return true;
+  }
+
+  async find(eventId: string): Promise<WebhookIdempotencyRecord | null> {
+    return this.read(eventId);
+  }
+
+  async complete(eventId: string, record: WebhookIdempotencyRecord, ttl: number): Promise<void> {
+    this.records.set(eventId, { record, expiresAt: Date.now() + ttl * 1000 });
+  }
+
+  async release(eventId: string): Promise<void> {
+    this.records.delete(eventId);
+  }
+}
+
+@Injectable()
+export class RedisWebhookIdempotencyStore
+  extends RedisStorage<WebhookIdempotencyRecord>
+  implements WebhookIdempotencyStore
+{
+  constructor(redisService: RedisService) {
+    super(redisService);
+  }
+
+  private getKey(eventId: string): string {
+    return `${WEBHOOK_INBOUND_PREFIX}${eventId}`;
+  }
+
+  async claim(eventId: string, ttl: number): Promise<boolean> {
+    const record: WebhookIdempotencyRecord = {
+      status: 'processing',
+      createdAt: new Date().toISOString(),
+    };
+    return this.redisService.setnx(this.getKey(eventId), JSON.stringify(record), ttl);
+  }
+
+  async find(eventId: string): Promise<WebhookIdempotencyRecord | null> {
+    return this.get(this.getKey(eventId));
+  }
+
+  async complete(eventId: string, record: WebhookIdempotencyRecord, ttl: number): Promise<void> {
+    await this.set(this.getKey(eventId), record, ttl);
+  }
+
+  async release(eventId: string): Promise<void> {
+    await this.delete(this.getKey(eventId));
+  }
+}
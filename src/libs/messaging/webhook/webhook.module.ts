@@ -1,28 +1,89 @@
 import { DynamicModule, Module } from '@nestjs/common';
 import { WebhookService } from './webhook.service';
+import { WebhookDeliveryQueue } from './webhook.queue';
+import { createWebhookReceiverController } from './webhook.controller';
+import {
+  WebhookSubscriptionStore,
+  InMemoryWebhookSubscriptionStore,
+  RedisWebhookSubscriptionStore,
+} from './webhook.store';
+import {
+  WebhookIdempotencyStore,
+  InMemoryWebhookIdempotencyStore,
+  RedisWebhookIdempotencyStore,
+} from './webhook.idempotency';
 import { WebhookConfig, defaultWebhookConfig } from '../common/config.interface';
-import { WEBHOOK_CONFIG } from './webhook.constants';
+import { WebhookConfig as WebhookServiceConfig } from './webhook.types';
+import {
+  DEFAULT_WEBHOOK_RECEIVER_PATH,
+  WEBHOOK_CONFIG,
+  WEBHOOK_SUBSCRIPTION_STORE,
+  WEBHOOK_IDEMPOTENCY_STORE,
+} from './webhook.constants';
+import { SharedModule } from '../../../core/shared/shared.module';
+import { RedisService } from '../../../core/shared/services/redis.service';
 
 @Module({})
 export class WebhookModule {
-  static forRoot(config?: Partial<WebhookConfig>): DynamicModule {
-    const finalConfig: WebhookConfig = {
+  static forRoot(config?: Partial<WebhookConfig & WebhookServiceConfig>): DynamicModule {
+    const finalConfig: WebhookConfig & WebhookServiceConfig = {
       ...defaultWebhookConfig,
       endpoint: process.env.WEBHOOK_ENDPOINT || 'http://localhost:3000/webhook',
       secret: process.env.WEBHOOK_SECRET,
+      path: DEFAULT_WEBHOOK_RECEIVER_PATH,
+      receiver: 'nest',
       ...config,
-    } as WebhookConfig;
+    } as WebhookConfig & WebhookServiceConfig;
 
     return {
       module: WebhookModule,
+      imports: [SharedModule],
+      controllers: finalConfig.receiver === 'nest' && finalConfig.path
+        ? [createWebhookReceiverController(finalConfig.path)]
+        : [],
       providers: [
         {
           provide: WEBHOOK_CONFIG,
           useValue: finalConfig,
         },
+        {
+          provide: WebhookDeliveryQueue,
+          useFactory: (redisService: RedisService) =>
+            new WebhookDeliveryQueue(redisService, finalConfig.queue),
+          inject: [RedisService],
+        },
+        {
+          provide: WEBHOOK_SUBSCRIPTION_STORE,
+          useFactory: (redisService: RedisService): WebhookSubscriptionStore =>
+            finalConfig.subscriptionStorage === 'memory'
+              ? new InMemoryWebhookSubscriptionStore(finalConfig.deliveryHistoryLimit)
+              : new RedisWebhookSubscriptionStore(redisService, finalConfig.deliveryHistoryLimit),
+          inject: [RedisService],
+        },
+        {
+          provide: WEBHOOK_IDEMPOTENCY_STORE,
+          useFactory: (redisService: RedisService): WebhookIdempotencyStore =>
+            finalConfig.subscriptionStorage === 'memory'
+              ? new InMemoryWebhookIdempotencyStore()
+              : new RedisWebhookIdempotencyStore(redisService),
+          inject: [RedisService],
+        },
+        {
+          provide: WebhookService,
+          useFactory: (
+            queue: WebhookDeliveryQueue,
+            subscriptionStore: WebhookSubscriptionStore,
+            idempotencyStore: WebhookIdempotencyStore,
+          ) => new WebhookService(finalConfig, queue, subscriptionStore, idempotencyStore),
+          inject: [WebhookDeliveryQueue, WEBHOOK_SUBSCRIPTION_STORE, WEBHOOK_IDEMPOTENCY_STORE],
+        },
+      ],
+      exports: [
         WebhookService,
+        WebhookDeliveryQueue,
+        WEBHOOK_SUBSCRIPTION_STORE,
+        WEBHOOK_IDEMPOTENCY_STORE,
       ],
-      exports: [WebhookService],
       global: true,
     };
   }
@@ -34,4 +95,4 @@ export class WebhookModule {
       exports: [WebhookService],
     };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,230 @@
+import { Logger } from '@nestjs/common';
+import { RedisService } from '../../../core/shared/services/redis.service';
+import { WebhookDeliveryQueue, computeBackoffDelay } from './webhook.queue';
+import { WEBHOOK_QUEUE_KEYS } from './webhook.constants';
+import { WebhookEvent } from './webhook.types';
+
+jest.spyOn(Logger.prototype, 'warn').mockImplementation(jest.fn());
+
+// Minimal in-memory stand-in for the Upstash backed RedisService
+const createRedisMock = () => {
+  const values = new Map<string, any>();
+  const sortedSets = new Map<string, Map<string, number>>();
+  const lists = new Map<string, string[]>();
+
+  const zset = (key: string) => {
+    if (!sortedSets.has(key)) sortedSets.set(key, new Map());
+    return sortedSets.get(key)!;
+  };
+  const list = (key: string) => {
+    if (!lists.has(key)) lists.set(key, []);
+    return lists.get(key)!;
+  };
+
+  return {
+    sortedSets,
+    lists,
+    get: jest.fn(async (key: string) => values.get(key) ?? null),
+    set: jest.fn(async (key: string, value: any) => {
+      values.set(key, value);
+      return true;
+    }),
+    del: jest.fn(async (key: string) => values.delete(key)),
+    zadd: jest.fn(async (key: string, score: number, member: string) => {
+      zset(key).set(member, score);
+      return true;
+    }),
+    zrem: jest.fn(async (key: string, member: string) => (zset(key).delete(member) ? 1 : 0)),
+    zrangebyscore: jest.fn(async (key: string, min: number, max: number, limit?: number) => {
+      const members = Array.from(zset(key).entries())
+        .filter(([, score]) => score >= min && score <= max)
+        .sort((a, b) => a[1] - b[1])
+        .map(([member]) => member);
+      return limit ? members.slice(0, limit) : members;
+    }),
+    lpush: jest.fn(async (key: string, value: string) => {
+      list(key).unshift(value);
+      return true;
+    }),
+    lrange: jest.fn(async (key: string, start: number, stop: number) =>
+      list(key).slice(start, stop + 1)
+    ),
+    lrem: jest.fn(async (key: string, count: number, value: string) => {
+      const items = list(key);
+      const index = items.indexOf(value);
+      if (index === -1) return 0;
+      items.splice(index, 1);
+      return 1;
+    }),
+    llen: jest.fn(async (key: string) => list(key).length),
+  };
+};
+
+describe('WebhookDeliveryQueue', () => {
+  let redis: ReturnType<typeof createRedisMock>;
+  let queue: WebhookDeliveryQueue;
+
+  const event: WebhookEvent = {
+    id: 'evt_1',
+    type: 'test',
+    data: { message: 'Hello' },
+    timestamp: new Date().toISOString(),
+  };
+
+  beforeEach(() => {
+    redis = createRedisMock();
+    queue = new WebhookDeliveryQueue(redis as unknown as RedisService, {
+      maxAttempts: 2,
+      backoffBase: 1000,
+      backoffMax: 10000,
+    });
+  });
+
+  it('should enqueue jobs as due immediately', async () => {
+    const job = await queue.enqueue('sub_1', 'https://example.com/hook', event);
+
+    expect(job.attempts).toBe(0);
+    expect(redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.PENDING)?.has(job.id)).toBeTruthy();
+    expect(await queue.getJob(job.id)).toEqual(job);
+  });
+
+  it('should let only one worker claim a job', async () => {
+    const job = await queue.enqueue('sub_1', 'https://example.com/hook', event);
+
+    const first = await queue.claim(job.id);
+    const second = await queue.claim(job.id);
+
+    expect(first?.id).toBe(job.id);
+    expect(second).toBeNull();
+    expect(redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.INFLIGHT)?.has(job.id)).toBeTruthy();
+  });
+
+  it('should claim due jobs in batches', async () => {
+    await queue.enqueue('sub_1', 'https://example.com/a', event);
+    await queue.enqueue('sub_2', 'https://example.com/b', event);
+
+    const jobs = await queue.claimDue(1);
+    expect(jobs).toHaveLength(1);
+  });
+
+  it('should remove completed jobs', async () => {
+    const job = await queue.enqueue('sub_1', 'https://example.com/hook', event);
+    const claimed = await queue.claim(job.id);
+
+    await queue.complete(claimed!);
+
+    expect(await queue.getJob(job.id)).toBeNull();
+    expect(redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.INFLIGHT)?.has(job.id)).toBeFalsy();
+  });
+
+  it('should reschedule failed jobs with backoff', async () => {
+    const job = await queue.enqueue('sub_1', 'https://example.com/hook', event);
+    const claimed = await queue.claim(job.id);
+
+    const failed = await queue.fail(claimed!, 'HTTP 500', 500);
+
+    expect(failed.attempts).toBe(1);
+    expect(failed.lastStatusCode).toBe(500);
+    expect(new Date(failed.nextAttemptAt).getTime()).toBeGreaterThan(Date.now());
+    expect(redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.PENDING)?.has(job.id)).toBeTruthy();
+  });
+
+  it('should dead-letter jobs that exhaust their attempts', async () => {
+    const job = await queue.enqueue('sub_1', 'https://example.com/hook', event);
+    let claimed = await queue.claim(job.id);
+    await queue.fail(claimed!, 'Network error');
+
+    // Force the retry to be due
+    redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.PENDING)!.set(job.id, 0);
+    claimed = await queue.claim(job.id);
+    await queue.fail(claimed!, 'Network error');
+
+    expect(await queue.countDeadLetters()).toBe(1);
+    const [dead] = await queue.getDeadLetters();
+    expect(dead.id).toBe(job.id);
+    expect(dead.attempts).toBe(2);
+    expect(redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.PENDING)?.has(job.id)).toBeFalsy();
+  });
+
+  it('should replay dead-lettered jobs with a fresh attempt budget', async () => {
+    const job = await queue.enqueue('sub_1', 'https://example.com/hook', event, { retries: 1 });
+    await queue.fail((await queue.claim(job.id))!, 'Network error');
+
+    const replayed = await queue.replayDeadLetter(job.id);
+
+    expect(replayed?.attempts).toBe(0);
+    expect(await queue.countDeadLetters()).toBe(0);
+    expect(redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.PENDING)?.has(job.id)).toBeTruthy();
+  });
+
+  it('should return null when replaying an unknown dead letter', async () => {
+    expect(await queue.replayDeadLetter('missing')).toBeNull();
+  });
+
+  it('should recover jobs whose lease expired', async () => {
+    const job = await queue.enqueue('sub_1', 'https://example.com/hook', event);
+    await queue.claim(job.id);
+    redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.INFLIGHT)!.set(job.id, 0);
+
+    const recovered = await queue.recoverExpired();
+
+    expect(recovered).toBe(1);
+    expect(redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.PENDING)?.has(job.id)).toBeTruthy();
+    expect(await queue.getJob(job.id)).toEqual(expect.objectContaining({
+      attempts: 1,
+      lastError: 'Delivery lease expired before the attempt finished',
+    }));
+  });
+
+  it('should read jobs that Upstash hands back already deserialized', async () => {
+    redis.get.mockImplementation(async (key: string) => {
+      const value = redis.set.mock.calls.filter(([setKey]) => setKey === key).pop()?.[1];
+      return value ? JSON.parse(value) : null;
+    });
+    const job = await queue.enqueue('sub_1', 'https://example.com/hook', event);
+
+    expect(await queue.getJob(job.id)).toEqual(job);
+    expect(await queue.claim(job.id)).toEqual(job);
+    expect(redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.INFLIGHT)?.has(job.id)).toBe(true);
+  });
+
+  it('should dead-letter jobs whose leases keep expiring', async () => {
+    const job = await queue.enqueue('sub_1', 'https://example.com/hook', event);
+    const pending = () => redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.PENDING)!;
+
+    for (let lease = 0; lease < 2; lease++) {
+      pending().set(job.id, 0);
+      await queue.claim(job.id);
+      redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.INFLIGHT)!.set(job.id, 0);
+      await queue.recoverExpired();
+    }
+
+    expect(pending().has(job.id)).toBe(false);
+    expect(await queue.getDeadLetters()).toEqual([expect.objectContaining({ id: job.id, attempts: 2 })]);
+  });
+
+  it('should throw when a job cannot be stored', async () => {
+    redis.zadd.mockResolvedValueOnce(false);
+
+    await expect(queue.enqueue('sub_1', 'https://example.com/hook', event)).rejects.toThrow(
+      'Failed to enqueue webhook delivery to https://example.com/hook'
+    );
+    expect(redis.sortedSets.get(WEBHOOK_QUEUE_KEYS.PENDING)?.size ?? 0).toBe(0);
+    expect(redis.del).toHaveBeenCalled();
+  });
+
+  describe('computeBackoffDelay', () => {
+    it('should grow exponentially within jitter bounds', () => {
+      for (let attempt = 0; attempt < 4; attempt++) {
+        const cap = 1000 * Math.pow(2, attempt);
+        const delay = computeBackoffDelay(attempt, 1000, 60000);
+        expect(delay).toBeGreaterThanOrEqual(cap / 2);
+        expect(delay).toBeLessThanOrEqual(cap);
+      }
+    });
+
+    it('should respect the maximum delay', () => {
+      expect(computeBackoffDelay(20, 1000, 5000)).toBeLessThanOrEqual(5000);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { RedisStorage } from '../../../core/common/redis.storage';
+import { RedisService } from '../../../core/shared/services/redis.service';
+import { WEBHOOK_QUEUE_KEYS } from './webhook.constants';
+import {
+  WebhookDeliveryJob,
+  WebhookDeliveryOptions,
+  WebhookEvent,
+  WebhookQueueConfig,
+} from './webhook.types';
+
+export const defaultWebhookQueueConfig: Required<WebhookQueueConfig> = {
+  enabled: true,
+  pollInterval: 5000,
+  batchSize: 10,
+  maxAttempts: 8,
+  backoffBase: 1000,
+  backoffMax: 60 * 60 * 1000, // 1 hour
+  visibilityTimeout: 30000,
+};
+
+/**
+ * Exponential backoff with "equal jitter": half of the capped delay is fixed,
+ * the other half is random so that retries from many workers spread out.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  baseDelay: number,
+  maxDelay: number,
+): number {
+  const capped = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+  return Math.floor(capped / 2 + Math.random() * (capped / 2));
+}
+
+/**
+ * Redis backed delivery queue for outbound webhooks.
+ *
+ * Jobs live in a sorted set scored by their next attempt time. A worker claims
+ * a job by removing it from the pending set and leasing it in the in-flight
+ * set, so a process that dies mid-delivery only delays the job until the lease
+ * expires. Jobs that run out of attempts are moved to the dead-letter list.
+ */
+@Injectable()
+export class WebhookDeliveryQueue extends RedisStorage<WebhookDeliveryJob> {
+  private readonly logger = new Logger(WebhookDeliveryQueue.name);
+  readonly config: Required<WebhookQueueConfig>;
+
+  constructor(redisService: RedisService, config: WebhookQueueConfig = {}) {
+    super(redisService);
+    this.config = { ...defaultWebhookQueueConfig, ...config };
+  }
+
+  private getJobKey(jobId: string): string {
+    return `${WEBHOOK_QUEUE_KEYS.JOB}${jobId}`;
+  }
+
+  async enqueue<T = any>(
+    subscriptionId: string,
+    url: string,
+    event: WebhookEvent<T>,
+    options?: WebhookDeliveryOptions,
+  ): Promise<WebhookDeliveryJob<T>> {
+    const now = new Date();
+    const job: WebhookDeliveryJob<T> = {
+      id: `dlv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      subscriptionId,
+      url,
+      event,
+      attempts: 0,
+      maxAttempts: options?.retries ?? this.config.maxAttempts,
+      nextAttemptAt: now.toISOString(),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      options,
+    };
+
+    const stored = await this.set(this.getJobKey(job.id), job)
+      && await this.redisService.zadd(WEBHOOK_QUEUE_KEYS.PENDING, now.getTime(), job.id);
+    if (!stored) {
+      await this.delete(this.getJobKey(job.id));
+      throw new Error(`Failed to enqueue webhook delivery to ${url}`);
+    }
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<WebhookDeliveryJob | null> {
+    return this.get(this.getJobKey(jobId));
+  }
+
+  /**
+   * Claims a single pending job. Returns null when another worker got to it
+   * first.
+   */
+  async claim(jobId: string): Promise<WebhookDeliveryJob | null> {
+    const removed = await this.redisService.zrem(WEBHOOK_QUEUE_KEYS.PENDING, jobId);
+    if (removed !== 1) return null;
+
+    await this.redisService.zadd(
+      WEBHOOK_QUEUE_KEYS.INFLIGHT,
+      Date.now() + this.config.visibilityTimeout,
+      jobId,
+    );
+
+    const job = await this.getJob(jobId);
+    if (!job) {
+      await this.redisService.zrem(WEBHOOK_QUEUE_KEYS.INFLIGHT, jobId);
+    }
+    return job;
+  }
+
+  async claimDue(limit: number = this.config.batchSize): Promise<WebhookDeliveryJob[]> {
+    const jobIds = await this.redisService.zrangebyscore(
+      WEBHOOK_QUEUE_KEYS.PENDING,
+      0,
+      Date.now(),
+      limit,
+    );
+
+    const jobs: WebhookDeliveryJob[] = [];
+    for (const jobId of jobIds) {
+      const job = await this.claim(jobId);
+      if (job) jobs.push(job);
+    }
+    return jobs;
+  }
+
+  async complete(job: WebhookDeliveryJob): Promise<void> {
+    await this.delete(this.getJobKey(job.id));
+    await this.redisService.zrem(WEBHOOK_QUEUE_KEYS.INFLIGHT, job.id);
+  }
+
+  /**
+   * Records a failed attempt and schedules the next one, or dead-letters the
+   * job once it has used up its attempts.
+   */
+  async fail(
+    job: WebhookDeliveryJob,
+    error?: string,
+    statusCode?: number,
+  ): Promise<WebhookDeliveryJob> {
+    const now = Date.now();
+    const updated: WebhookDeliveryJob = {
+      ...job,
+      attempts: job.attempts + 1,
+      lastError: error,
+      lastStatusCode: statusCode,
+      updatedAt: new Date(now).toISOString(),
+    };
+
+    if (updated.attempts >= updated.maxAttempts) {
+      await this.deadLetter(updated);
+      return updated;
+    }
+
+    const baseDelay = job.options?.retryDelay ?? this.config.backoffBase;
+    const nextAttemptAt = now + computeBackoffDelay(
+      updated.attempts - 1,
+      baseDelay,
+      this.config.backoffMax,
+    );
+    updated.nextAttemptAt = new Date(nextAttemptAt).toISOString();
+
+    await this.set(this.getJobKey(job.id), updated);
+    await this.redisService.zrem(WEBHOOK_QUEUE_KEYS.INFLIGHT, job.id);
+    await this.redisService.zadd(WEBHOOK_QUEUE_KEYS.PENDING, nextAttemptAt, job.id);
+    return updated;
+  }
+
+  private async deadLetter(job: WebhookDeliveryJob): Promise<void> {
+    await this.set(this.getJobKey(job.id), job);
+    await this.redisService.zrem(WEBHOOK_QUEUE_KEYS.INFLIGHT, job.id);
+    await this.redisService.lpush(WEBHOOK_QUEUE_KEYS.DEAD, job.id);
+    this.logger.warn(
+      `Webhook delivery ${job.id} to ${job.url} dead-lettered after ${job.attempts} attempts: ${job.lastError}`,
+    );
+  }
+
+  async getDeadLetters(offset = 0, limit = 50): Promise<WebhookDeliveryJob[]> {
+    const jobIds = await this.redisService.lrange(
+      WEBHOOK_QUEUE_KEYS.DEAD,
+      offset,
+      offset + limit - 1,
+    );
+    const jobs = await Promise.all(jobIds.map(jobId => this.getJob(jobId)));
+    return jobs.filter((job): job is WebhookDeliveryJob => job !== null);
+  }
+
+  async countDeadLetters(): Promise<number> {
+    return this.redisService.llen(WEBHOOK_QUEUE_KEYS.DEAD);
+  }
+
+  /**
+   * Moves a dead-lettered job back onto the pending queue with a fresh
+   * attempt budget.
+   */
+  async replayDeadLetter(jobId: string): Promise<WebhookDeliveryJob | null> {
+    const removed = await this.redisService.lrem(WEBHOOK_QUEUE_KEYS.DEAD, 1, jobId);
+    if (removed === 0) return null;
+
+    const job = await this.getJob(jobId);
+    if (!job) return null;
+
+    const now = new Date();
+    const replayed: WebhookDeliveryJob = {
+      ...job,
+      attempts: 0,
+      nextAttemptAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+
+    await this.set(this.getJobKey(jobId), replayed);
+    await this.redisService.zadd(WEBHOOK_QUEUE_KEYS.PENDING, now.getTime(), jobId);
+    return replayed;
+  }
+
+  async discardDeadLetter(jobId: string): Promise<boolean> {
+    const removed = await this.redisService.lrem(WEBHOOK_QUEUE_KEYS.DEAD, 1, jobId);
+    if (removed === 0) return false;
+    return this.delete(this.getJobKey(jobId));
+  }
+
+  /**
+   * Returns jobs whose lease expired (the worker holding them went away) to
+   * the pending queue. The interrupted attempt counts, so a job that keeps
+   * taking its worker down is dead-lettered rather than retried forever.
+   */
+  async recoverExpired(): Promise<number> {
+    const jobIds = await this.redisService.zrangebyscore(
+      WEBHOOK_QUEUE_KEYS.INFLIGHT,
+      0,
+      Date.now(),
+    );
+
+    let recovered = 0;
+    for (const jobId of jobIds) {
+      const removed = await this.redisService.zrem(WEBHOOK_QUEUE_KEYS.INFLIGHT, jobId);
+      if (removed !== 1) continue;
+
+      const job = await this.getJob(jobId);
+      if (!job) continue;
+      await this.fail(job, 'Delivery lease expired before the attempt finished');
+      recovered++;
+    }
+
+    if (recovered > 0) {
+      this.logger.warn(`Recovered ${recovered} expired webhook deliveries`);
+    }
+    return recovered;
+  }
+}
@@ -1,9 +1,11 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { WebhookService } from './webhook.service';
-import { WebhookConfig, WebhookEvent, WebhookSubscription, WebhookHandler, WebhookDeliveryOptions } from './webhook.types';
+import { WebhookConfig, WebhookEvent, WebhookSubscription, WebhookHandler, WebhookDeliveryOptions, WebhookDeliveryJob, WebhookSubscriptionError, WebhookEgressError } from './webhook.types';
+import { WebhookDeliveryQueue } from './webhook.queue';
 import { Logger } from '@nestjs/common';
 import { Request, Response } from 'express';
 import * as crypto from 'crypto';
+import { fetch } from 'undici';
 
 // Mock logger
 const mockLogger = {
@@ -21,9 +23,9 @@ jest.spyOn(Logger.prototype, 'warn').mockImplementation(mockLogger.warn);
 jest.spyOn(Logger.prototype, 'debug').mockImplementation(mockLogger.debug);
 jest.spyOn(Logger.prototype, 'verbose').mockImplementation(mockLogger.verbose);
 
-// Mock fetch globally
-const mockFetch = jest.fn();
-global.fetch = mockFetch;
+// Deliveries use undici's fetch, so it is mocked there; the rest of undici stays real
+jest.mock('undici', () => ({ ...jest.requireActual('undici'), fetch: jest.fn() }));
+const mockFetch = fetch as jest.Mock;
 
 // Mock express
 jest.mock('express', () => {
@@ -39,6 +41,14 @@ jest.mock('express', () => {
   return mockExpress;
 });
 
+// Resolve every webhook host to a public address
+jest.mock('dns', () => ({
+  ...jest.requireActual('dns'),
+  promises: {
+    lookup: jest.fn(async () => [{ address: '93.184.216.34', family: 4 }]),
+  },
+}));
+
 // Configure test environment
 jest.setTimeout(30000);
 jest.useFakeTimers();
@@ -100,7 +110,7 @@ describe('WebhookService', () => {
       Promise.resolve({
         ok: true,
         status: 200,
-        json: () => Promise.resolve({ success: true }),
+        text: () => Promise.resolve(JSON.stringify({ success: true })),
       })
     );
 
@@ -131,6 +141,18 @@ describe('WebhookService', () => {
       expect(mockExpressApp.listen).toHaveBeenCalledWith(3000);
     });
 
+    it('should not start a separate server when mounted in the Nest app', async () => {
+      const mountedService = createService({ receiver: 'nest' });
+      await mountedService.onModuleInit();
+      expect(mockExpressApp.listen).not.toHaveBeenCalled();
+    });
+
+    it('should register per-handler routes on the standalone server', async () => {
+      await service.onModuleInit();
+      expect(mockExpressApp.post).toHaveBeenCalledWith('/webhooks', expect.any(Function));
+      expect(mockExpressApp.post).toHaveBeenCalledWith('/webhooks/:handlerPath', expect.any(Function));
+    });
+
     it('should not start server when path is not configured', async () => {
       const noServerService = createService({ path: undefined });
       await noServerService.onModuleInit();
@@ -209,6 +231,50 @@ describe('WebhookService', () => {
       expect(noVerifyService['verifySignature'](mockRequest as Request)).toBeTruthy();
     });
 
+    it('should verify timestamped signatures over the raw body', () => {
+      const rawBody = JSON.stringify({ type: 'test', data: { message: 'Hello' } });
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = crypto
+        .createHmac('sha256', 'test-secret')
+        .update(`${timestamp}.${rawBody}`)
+        .digest('hex');
+
+      const request = {
+        ...mockRequest,
+        body: JSON.parse(rawBody),
+        rawBody: Buffer.from(rawBody),
+        headers: { 'x-webhook-signature': `t=${timestamp},v1=${signature}` },
+      };
+
+      expect(service['verifySignature'](request as unknown as Request)).toBeTruthy();
+    });
+
+    it('should accept signatures made with a rotated-out secret', () => {
+      const rotatingService = createService({ secret: undefined, secrets: ['new-secret', 'old-secret'] });
+      const rawBody = JSON.stringify({ type: 'test', data: {} });
+      const header = rotatingService['generateSignature'](rawBody).split(',');
+      // Keep only the signature produced by the old secret
+      const request = {
+        ...mockRequest,
+        rawBody: Buffer.from(rawBody),
+        headers: { 'x-webhook-signature': `${header[0]},${header[2]}` },
+      };
+
+      expect(rotatingService['verifySignature'](request as unknown as Request)).toBeTruthy();
+    });
+
+    it('should use the configured signature header', () => {
+      const customService = createService({ signature: { header: 'X-Custom-Signature' } });
+      const rawBody = JSON.stringify({ type: 'test', data: {} });
+      const request = {
+        ...mockRequest,
+        rawBody: Buffer.from(rawBody),
+        headers: { 'x-custom-signature': customService['generateSignature'](rawBody) },
+      };
+
+      expect(customService['verifySignature'](request as unknown as Request)).toBeTruthy();
+    });
+
     it('should handle unregistered event types', async () => {
       const payload = { type: 'unknown', data: { message: 'Hello' } };
       mockRequest.body = payload;
@@ -232,7 +298,7 @@ describe('WebhookService', () => {
     it('should send webhook successfully', async () => {
       const data = { message: 'Hello' };
       
-      const subscription = service.subscribe('https://test-endpoint.com/webhook', ['test']);
+      const subscription = await service.subscribe('https://test-endpoint.com/webhook', ['test']);
       
       const results = await service.send('test', data);
       
@@ -251,10 +317,19 @@ describe('WebhookService', () => {
       );
     });
 
+    it('should sign outbound deliveries with a timestamped signature', async () => {
+      await service.subscribe('https://test-endpoint.com/webhook', ['test']);
+
+      await service.send('test', { message: 'Signed' });
+
+      const [, request] = mockFetch.mock.calls[0];
+      expect(request.headers['x-webhook-signature']).toMatch(/^t=\d+,v1=[a-f0-9]{64}$/);
+    });
+
     it('should handle delivery failure and retry', async () => {
       const data = { message: 'Retry Test' };
       
-      service.subscribe('https://test-endpoint.com/webhook', ['test']);
+      await service.subscribe('https://test-endpoint.com/webhook', ['test']);
 
       // Mock first two calls to fail, third to succeed
       mockFetch
@@ -264,7 +339,7 @@ describe('WebhookService', () => {
           Promise.resolve({
             ok: true,
             status: 200,
-            json: () => Promise.resolve({ success: true }),
+            text: () => Promise.resolve(JSON.stringify({ success: true })),
           })
         );
 
@@ -286,7 +361,7 @@ describe('WebhookService', () => {
       service = createService({ timeout: 100 });
       
       const data = { message: 'Timeout Test' };
-      service.subscribe('https://test-endpoint.com/webhook', ['test']);
+      await service.subscribe('https://test-endpoint.com/webhook', ['test']);
 
       // Mock fetch to simulate a timeout
       mockFetch.mockImplementation(() => {
@@ -305,14 +380,14 @@ describe('WebhookService', () => {
 
     it('should handle non-200 responses', async () => {
       const data = { message: 'Error Test' };
-      service.subscribe('https://test-endpoint.com/webhook', ['test']);
+      await service.subscribe('https://test-endpoint.com/webhook', ['test']);
 
       mockFetch.mockImplementationOnce(() =>
         Promise.resolve({
           ok: false,
           status: 404,
           statusText: 'Not Found',
-          json: () => Promise.resolve({ error: 'Not Found' }),
+          text: () => Promise.resolve(JSON.stringify({ error: 'Not Found' })),
         })
       );
 
@@ -323,9 +398,29 @@ describe('WebhookService', () => {
       expect(results[0].error).toBe('HTTP 404: Not Found');
     });
 
+    it('should report a result for each subscription when some deliveries fail', async () => {
+      const ok = await service.subscribe('https://ok.com/webhook', ['test']);
+      const missing = await service.subscribe('https://missing.com/webhook', ['test']);
+      mockFetch.mockImplementation((url: string) =>
+        Promise.resolve({
+          ok: url === ok.url,
+          status: url === ok.url ? 200 : 404,
+          statusText: url === ok.url ? 'OK' : 'Not Found',
+          text: () => Promise.resolve(''),
+        })
+      );
+
+      const results = await service.send('test', {});
+
+      expect(results).toEqual([
+        expect.objectContaining({ subscriptionId: ok.id, success: true }),
+        expect.objectContaining({ subscriptionId: missing.id, success: false, error: 'HTTP 404: Not Found' }),
+      ]);
+    });
+
     it('should respect custom delivery options', async () => {
       const data = { message: 'Custom Options Test' };
-      service.subscribe('https://test-endpoint.com/webhook', ['test']);
+      await service.subscribe('https://test-endpoint.com/webhook', ['test']);
 
       const options: WebhookDeliveryOptions = {
         timeout: 1000,
@@ -349,26 +444,295 @@ describe('WebhookService', () => {
     });
   });
 
+  describe('durable delivery queue', () => {
+    let queue: jest.Mocked<WebhookDeliveryQueue>;
+    let queuedService: WebhookService;
+
+    const toJob = (subscriptionId: string, url: string, event: WebhookEvent): WebhookDeliveryJob => ({
+      id: `dlv_${subscriptionId}`,
+      subscriptionId,
+      url,
+      event,
+      attempts: 0,
+      maxAttempts: 3,
+      nextAttemptAt: new Date().toISOString(),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    beforeEach(() => {
+      queue = {
+        config: { pollInterval: 1000 },
+        enqueue: jest.fn(),
+        claim: jest.fn(),
+        claimDue: jest.fn().mockResolvedValue([]),
+        complete: jest.fn().mockResolvedValue(undefined),
+        fail: jest.fn((job: WebhookDeliveryJob) => Promise.resolve({
+          ...job,
+          attempts: job.attempts + 1,
+          nextAttemptAt: new Date(Date.now() + 1000).toISOString(),
+        })),
+        recoverExpired: jest.fn().mockResolvedValue(0),
+        getDeadLetters: jest.fn().mockResolvedValue([]),
+        replayDeadLetter: jest.fn().mockResolvedValue(null),
+      } as unknown as jest.Mocked<WebhookDeliveryQueue>;
+
+      const jobs = new Map<string, WebhookDeliveryJob>();
+      queue.enqueue.mockImplementation(async (subscriptionId, url, event) => {
+        const job = toJob(subscriptionId, url, event);
+        jobs.set(job.id, job);
+        return job;
+      });
+      queue.claim.mockImplementation(async (jobId: string) => jobs.get(jobId) ?? null);
+
+      queuedService = new WebhookService(
+        { ...createService()['config'], path: undefined },
+        queue,
+      );
+    });
+
+    afterEach(() => {
+      queuedService.onModuleDestroy();
+    });
+
+    it('should enqueue every delivery before attempting it', async () => {
+      await queuedService.subscribe('https://endpoint1.com/webhook', ['test']);
+      await queuedService.subscribe('https://endpoint2.com/webhook', ['test']);
+
+      const results = await queuedService.send('test', { message: 'Queued' });
+
+      expect(queue.enqueue).toHaveBeenCalledTimes(2);
+      expect(queue.complete).toHaveBeenCalledTimes(2);
+      expect(results.every(result => result.success && result.deliveryId)).toBeTruthy();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should hand failed deliveries back to the queue instead of retrying inline', async () => {
+      await queuedService.subscribe('https://test-endpoint.com/webhook', ['test']);
+      mockFetch.mockImplementationOnce(() => Promise.reject(new Error('Network error')));
+
+      const results = await queuedService.send('test', { message: 'Failure' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(queue.fail).toHaveBeenCalledWith(expect.any(Object), 'Network error', undefined);
+      expect(results[0].success).toBeFalsy();
+      expect(results[0].nextAttemptAt).toBeDefined();
+    });
+
+    it('should fail only the deliveries whose jobs could not be enqueued', async () => {
+      const stored = await queuedService.subscribe('https://stored.com/webhook', ['test']);
+      const lost = await queuedService.subscribe('https://lost.com/webhook', ['test']);
+      const enqueue = queue.enqueue.getMockImplementation()!;
+      queue.enqueue.mockImplementation(async (subscriptionId, ...rest) => {
+        if (subscriptionId === lost.id) throw new Error('Redis unavailable');
+        return enqueue(subscriptionId, ...rest);
+      });
+
+      const results = await queuedService.send('test', {});
+
+      expect(results).toEqual([
+        expect.objectContaining({ subscriptionId: stored.id, success: true }),
+        expect.objectContaining({ subscriptionId: lost.id, success: false, error: 'Redis unavailable' }),
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drain due jobs from the queue', async () => {
+      const subscription = await queuedService.subscribe('https://test-endpoint.com/webhook', ['test']);
+      const event = { id: 'evt_1', type: 'test', data: {}, timestamp: new Date().toISOString() };
+      queue.claimDue.mockResolvedValueOnce([toJob(subscription.id, subscription.url, event)]);
+
+      const results = await queuedService.drainQueue();
+
+      expect(queue.recoverExpired).toHaveBeenCalled();
+      expect(results).toHaveLength(1);
+      expect((await queuedService.getSubscription(subscription.id))?.lastDelivery?.success).toBeTruthy();
+    });
+
+    it('should count an event towards health once, when it is finally given up on', async () => {
+      const healthService = new WebhookService(
+        { ...createService({ health: { maxConsecutiveFailures: 2 } })['config'], path: undefined },
+        queue,
+      );
+      const subscription = await healthService.subscribe('https://down.com/webhook', ['test']);
+      mockFetch.mockResolvedValue({ ok: false, status: 500, text: () => Promise.resolve('') });
+
+      const [retried] = await healthService.send('test', {});
+      expect(retried.nextAttemptAt).toBeDefined();
+      expect((await healthService.getSubscription(subscription.id))?.health).toBeUndefined();
+
+      const event = { id: 'evt_1', type: 'test', data: {}, timestamp: new Date().toISOString() };
+      queue.claimDue.mockResolvedValueOnce([{ ...toJob(subscription.id, subscription.url, event), attempts: 2 }]);
+      const [final] = await healthService.drainQueue();
+
+      expect(final.deadLettered).toBe(true);
+      const updated = await healthService.getSubscription(subscription.id);
+      expect(updated?.health?.consecutiveFailures).toBe(1);
+      expect(updated?.active).toBe(true);
+      healthService.onModuleDestroy();
+    });
+
+    it('should discard queued jobs for disabled subscriptions', async () => {
+      const subscription = await queuedService.subscribe('https://test-endpoint.com/webhook', ['test']);
+      await queuedService.updateSubscription(subscription.id, { active: false });
+      const event = { id: 'evt_1', type: 'test', data: {}, timestamp: new Date().toISOString() };
+      const job = toJob(subscription.id, subscription.url, event);
+      queue.claimDue.mockResolvedValueOnce([job]);
+
+      const results = await queuedService.drainQueue();
+
+      expect(results).toHaveLength(0);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(queue.complete).toHaveBeenCalledWith(job);
+    });
+
+    it('should poll the queue when initialized', () => {
+      const drainSpy = jest.spyOn(queuedService, 'drainQueue');
+      queuedService.onModuleInit();
+
+      jest.advanceTimersByTime(1000);
+
+      expect(drainSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('inbound idempotency', () => {
+    const createInboundResponse = () => {
+      const res: any = {
+        statusCode: 200,
+        headersSent: false,
+        setHeader: jest.fn(),
+      };
+      res.status = jest.fn((code: number) => {
+        res.statusCode = code;
+        return res;
+      });
+      res.json = jest.fn(() => {
+        res.headersSent = true;
+        return res;
+      });
+      res.send = jest.fn(() => {
+        res.headersSent = true;
+        return res;
+      });
+      return res;
+    };
+
+    const inboundRequest = (id?: string) =>
+      ({ ...mockRequest, body: { id, type: 'test', data: {} } } as Request);
+
+    let inboundService: WebhookService;
+
+    beforeEach(() => {
+      inboundService = createService({ verifySignature: false });
+    });
+
+    it('should process an event once and replay the original result for duplicates', async () => {
+      const handler = jest.fn(async (_event: WebhookEvent, _req: Request, res: Response) => {
+        res.status(200).json({ processed: 'evt_1' });
+      });
+      inboundService.registerHandler({ type: 'test', handler });
+
+      await inboundService.handleInbound(inboundRequest('evt_1'), createInboundResponse());
+      const duplicate = createInboundResponse();
+      await inboundService.handleInbound(inboundRequest('evt_1'), duplicate);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(duplicate.status).toHaveBeenCalledWith(200);
+      expect(duplicate.json).toHaveBeenCalledWith({ processed: 'evt_1' });
+      expect(duplicate.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    });
+
+    it('should acknowledge events whose handler does not respond', async () => {
+      inboundService.registerHandler({ type: 'test', handler: async () => {} });
+      const res = createInboundResponse();
+      const json = res.json;
+
+      await inboundService.handleInbound(inboundRequest('evt_1'), res);
+
+      expect(json).toHaveBeenCalledWith({ received: true });
+    });
+
+    it('should reject duplicates while the original is still processing', async () => {
+      let finish: () => void = () => {};
+      inboundService.registerHandler({
+        type: 'test',
+        handler: () => new Promise<void>(resolve => { finish = resolve; }),
+      });
+
+      const first = inboundService.handleInbound(inboundRequest('evt_1'), createInboundResponse());
+      const duplicate = createInboundResponse();
+      await inboundService.handleInbound(inboundRequest('evt_1'), duplicate);
+      finish();
+      await first;
+
+      expect(duplicate.status).toHaveBeenCalledWith(409);
+    });
+
+    it('should allow a retry after the handler fails', async () => {
+      const handler = jest.fn()
+        .mockRejectedValueOnce(new Error('Handler error'))
+        .mockResolvedValueOnce(undefined);
+      inboundService.registerHandler({ type: 'test', handler });
+
+      const failed = createInboundResponse();
+      await inboundService.handleInbound(inboundRequest('evt_1'), failed);
+      const retried = createInboundResponse();
+      const json = retried.json;
+      await inboundService.handleInbound(inboundRequest('evt_1'), retried);
+
+      expect(failed.status).toHaveBeenCalledWith(500);
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(json).toHaveBeenCalledWith({ received: true });
+    });
+
+    it('should route handlers registered with a path only from that path', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      inboundService.registerHandler({ type: 'test', path: 'stripe', handler });
+
+      const onBasePath = createInboundResponse();
+      await inboundService.handleInbound(inboundRequest('evt_1'), onBasePath);
+      await inboundService.handleInbound(inboundRequest('evt_2'), createInboundResponse(), '/stripe/');
+
+      expect(onBasePath.status).toHaveBeenCalledWith(404);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not deduplicate when disabled or when the event has no id', async () => {
+      const handler = jest.fn().mockResolvedValue(undefined);
+      const disabled = createService({ verifySignature: false, idempotency: { enabled: false } });
+      disabled.registerHandler({ type: 'test', handler });
+      inboundService.registerHandler({ type: 'test', handler });
+
+      await disabled.handleInbound(inboundRequest('evt_1'), createInboundResponse());
+      await disabled.handleInbound(inboundRequest('evt_1'), createInboundResponse());
+      await inboundService.handleInbound(inboundRequest(), createInboundResponse());
+      await inboundService.handleInbound(inboundRequest(), createInboundResponse());
+
+      expect(handler).toHaveBeenCalledTimes(4);
+    });
+  });
+
   describe('subscription management', () => {
     it('should manage webhook subscriptions', async () => {
-      const subscription = service.subscribe('https://test-endpoint.com/webhook', ['test']);
-      expect(service.getSubscription(subscription.id)).toEqual(subscription);
+      const subscription = await service.subscribe('https://test-endpoint.com/webhook', ['test']);
+      expect(await service.getSubscription(subscription.id)).toEqual(subscription);
 
       // Update subscription
-      const updated = service.updateSubscription(subscription.id, { active: false });
+      const updated = await service.updateSubscription(subscription.id, { active: false });
       expect(updated?.active).toBeFalsy();
 
       // Remove subscription
-      service.unsubscribe(subscription.id);
-      expect(service.getSubscription(subscription.id)).toBeUndefined();
+      await service.unsubscribe(subscription.id);
+      expect(await service.getSubscription(subscription.id)).toBeUndefined();
     });
 
     it('should deliver webhooks to all active subscriptions', async () => {
       // Add multiple subscriptions
-      service.subscribe('https://endpoint1.com/webhook', ['test']);
-      service.subscribe('https://endpoint2.com/webhook', ['test']);
-      const inactiveSub = service.subscribe('https://endpoint3.com/webhook', ['test']);
-      service.updateSubscription(inactiveSub.id, { active: false });
+      await service.subscribe('https://endpoint1.com/webhook', ['test']);
+      await service.subscribe('https://endpoint2.com/webhook', ['test']);
+      const inactiveSub = await service.subscribe('https://endpoint3.com/webhook', ['test']);
+      await service.updateSubscription(inactiveSub.id, { active: false });
 
       const data = { message: 'Broadcast Test' };
       const results = await service.send('test', data);
@@ -386,25 +750,48 @@ describe('WebhookService', () => {
       );
     });
 
-    it('should handle subscription updates for non-existent subscriptions', () => {
-      const result = service.updateSubscription('non-existent', { active: false });
+    it('should only deliver matching events, projected to the requested fields', async () => {
+      await service.subscribe('https://rooms.com/webhook', ['chat.*'], {
+        filters: [{ path: '$.roomId', in: ['room_1'] }],
+        fields: ['roomId', 'message.text'],
+      });
+
+      await service.send('chat.message', { roomId: 'room_2', message: { text: 'Skipped' } });
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await service.send('chat.message', { roomId: 'room_1', message: { text: 'Hi', senderId: 'user_1' } });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.data).toEqual({ roomId: 'room_1', message: { text: 'Hi' } });
+    });
+
+    it('should reject subscriptions with malformed filter paths', async () => {
+      await expect(
+        service.subscribe('https://rooms.com/webhook', ['chat.*'], {
+          filters: [{ path: '$.room..id', equals: 'room_1' }],
+        })
+      ).rejects.toThrow(WebhookSubscriptionError);
+    });
+
+    it('should handle subscription updates for non-existent subscriptions', async () => {
+      const result = await service.updateSubscription('non-existent', { active: false });
       expect(result).toBeUndefined();
     });
 
     it('should track delivery history', async () => {
-      const subscription = service.subscribe('https://test-endpoint.com/webhook', ['test']);
+      const subscription = await service.subscribe('https://test-endpoint.com/webhook', ['test']);
       
       // Successful delivery
       mockFetch.mockImplementationOnce(() =>
         Promise.resolve({
           ok: true,
           status: 200,
-          json: () => Promise.resolve({ success: true }),
+          text: () => Promise.resolve(JSON.stringify({ success: true })),
         })
       );
 
       await service.send('test', { message: 'Success' });
-      const afterSuccess = service.getSubscription(subscription.id);
+      const afterSuccess = await service.getSubscription(subscription.id);
       expect(afterSuccess?.lastDelivery?.success).toBeTruthy();
       expect(afterSuccess?.lastDelivery?.statusCode).toBe(200);
 
@@ -414,17 +801,306 @@ describe('WebhookService', () => {
           ok: false,
           status: 500,
           statusText: 'Internal Server Error',
-          json: () => Promise.resolve({ error: 'Server Error' }),
+          text: () => Promise.resolve(JSON.stringify({ error: 'Server Error' })),
         })
       );
 
       await service.send('test', { message: 'Failure' });
-      const afterFailure = service.getSubscription(subscription.id);
+      const afterFailure = await service.getSubscription(subscription.id);
       expect(afterFailure?.lastDelivery?.success).toBeFalsy();
       expect(afterFailure?.lastDelivery?.statusCode).toBe(500);
     });
   });
 
+  describe('delivery history', () => {
+    it('should record every delivery attempt', async () => {
+      const subscription = await service.subscribe('https://test-endpoint.com/webhook', ['test']);
+
+      mockFetch
+        .mockImplementationOnce(() => Promise.reject(new Error('Network error')))
+        .mockImplementationOnce(() =>
+          Promise.resolve({
+            ok: true,
+            status: 200,
+            text: () => Promise.resolve(JSON.stringify({ received: true })),
+          })
+        );
+
+      jest.spyOn(global, 'setTimeout').mockImplementation((fn) => {
+        fn();
+        return 0 as any;
+      });
+
+      await service.send('test', { message: 'History' });
+
+      const { attempts, total } = await service.getDeliveryAttempts(subscription.id);
+      expect(total).toBe(2);
+      expect(attempts[0]).toEqual(expect.objectContaining({
+        attempt: 2,
+        success: true,
+        statusCode: 200,
+        eventType: 'test',
+        responseSnippet: '{"received":true}',
+      }));
+      expect(attempts[0].latencyMs).toEqual(expect.any(Number));
+      expect(attempts[1]).toEqual(expect.objectContaining({
+        attempt: 1,
+        success: false,
+        error: 'Network error',
+      }));
+    });
+
+    it('should treat empty 204 responses as delivered', async () => {
+      const subscription = await service.subscribe('https://test-endpoint.com/webhook', ['test']);
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      const [result] = await service.send('test', {});
+
+      expect(result).toEqual(expect.objectContaining({ success: true, statusCode: 204, retries: 0 }));
+      expect(result.response).toBeUndefined();
+      const { attempts } = await service.getDeliveryAttempts(subscription.id);
+      expect(attempts).toEqual([expect.objectContaining({ success: true, responseSnippet: undefined })]);
+    });
+
+    it('should keep text response bodies as truncated snippets', async () => {
+      const subscription = await service.subscribe('https://test-endpoint.com/webhook', ['test']);
+      const body = `OK ${'x'.repeat(600)}`;
+      mockFetch.mockResolvedValueOnce(
+        new Response(body, { status: 200, headers: { 'Content-Type': 'text/plain' } })
+      );
+
+      const [result] = await service.send('test', {});
+
+      expect(result).toEqual(expect.objectContaining({ success: true, response: body }));
+      const { attempts } = await service.getDeliveryAttempts(subscription.id);
+      expect(attempts[0].responseSnippet).toBe(body.slice(0, 512));
+    });
+
+    it('should page through delivery attempts', async () => {
+      const subscription = await service.subscribe('https://test-endpoint.com/webhook', ['test']);
+
+      for (let i = 0; i < 3; i++) {
+        await service.send('test', { index: i });
+      }
+
+      const page = await service.getDeliveryAttempts(subscription.id, 1, 1);
+      expect(page.total).toBe(3);
+      expect(page.attempts).toHaveLength(1);
+    });
+
+    it('should send a test event to a single subscription', async () => {
+      const subscription = await service.subscribe('https://test-endpoint.com/webhook', ['other']);
+
+      const result = await service.sendTestEvent(subscription.id);
+
+      expect(result?.success).toBeTruthy();
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(body.type).toBe('webhook.test');
+      expect(body.data.subscriptionId).toBe(subscription.id);
+    });
+
+    it('should return undefined when testing an unknown subscription', async () => {
+      expect(await service.sendTestEvent('missing')).toBeUndefined();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parallel fan-out', () => {
+    const pendingResponses = () => {
+      const resolvers: Array<() => void> = [];
+      mockFetch.mockImplementation(() => new Promise(resolve => {
+        resolvers.push(() => resolve({ ok: true, status: 200, text: () => Promise.resolve(JSON.stringify({})) }));
+      }));
+      return resolvers;
+    };
+
+    const flush = async () => {
+      for (let i = 0; i < 50; i++) await Promise.resolve();
+    };
+
+    it('should reject fan-out limits that are not positive integers', () => {
+      expect(() => createService({ fanOut: { concurrency: 0 } })).toThrow(RangeError);
+      expect(() => createService({ fanOut: { perHostConcurrency: -1 } })).toThrow(RangeError);
+    });
+
+    it('should deliver to subscribers in parallel up to the concurrency limit', async () => {
+      const fanOutService = createService({ fanOut: { concurrency: 2, perHostConcurrency: 10 } });
+      await fanOutService.subscribe('https://one.com/webhook', ['test']);
+      await fanOutService.subscribe('https://two.com/webhook', ['test']);
+      await fanOutService.subscribe('https://three.com/webhook', ['test']);
+      const resolvers = pendingResponses();
+
+      const sending = fanOutService.send('test', {});
+      await flush();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      resolvers[0]();
+      await flush();
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      resolvers.slice(1).forEach(resolve => resolve());
+      expect(await sending).toHaveLength(3);
+    });
+
+    it('should cap concurrent deliveries to the same host', async () => {
+      const fanOutService = createService({ fanOut: { concurrency: 10, perHostConcurrency: 1 } });
+      await fanOutService.subscribe('https://shared.com/a', ['test']);
+      await fanOutService.subscribe('https://shared.com/b', ['test']);
+      await fanOutService.subscribe('https://other.com/webhook', ['test']);
+      const resolvers = pendingResponses();
+
+      const sending = fanOutService.send('test', {});
+      await flush();
+      expect(mockFetch.mock.calls.map(call => call[0])).toEqual([
+        'https://shared.com/a',
+        'https://other.com/webhook',
+      ]);
+
+      resolvers.forEach(resolve => resolve());
+      await flush();
+      expect(mockFetch).toHaveBeenLastCalledWith('https://shared.com/b', expect.any(Object));
+
+      resolvers[2]();
+      expect(await sending).toHaveLength(3);
+    });
+
+    it('should return delivery handles immediately when not waiting', async () => {
+      const subscription = await service.subscribe('https://slow.com/webhook', ['test']);
+      const resolvers = pendingResponses();
+
+      const handles = await service.send('test', {}, { wait: false });
+
+      expect(handles).toEqual([
+        expect.objectContaining({ subscriptionId: subscription.id, eventId: expect.stringMatching(/^evt_/) }),
+      ]);
+
+      await flush();
+      resolvers[0]();
+      expect((await handles[0].result)?.success).toBe(true);
+    });
+  });
+
+  describe('egress policy', () => {
+    it('should reject subscriptions to private addresses', async () => {
+      await expect(service.subscribe('http://169.254.169.254/latest/meta-data', ['test'])).rejects.toThrow(
+        WebhookEgressError
+      );
+      await expect(service.subscribe('ftp://files.com/hook', ['test'])).rejects.toThrow(
+        'Scheme ftp is not allowed for webhooks'
+      );
+    });
+
+    it('should re-check the policy on every delivery', async () => {
+      const dns = require('dns');
+      const subscription = await service.subscribe('https://rebind.com/webhook', ['test']);
+      dns.promises.lookup.mockResolvedValueOnce([{ address: '10.0.0.5', family: 4 }]);
+
+      const [result] = await service.send('test', {});
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(result).toEqual(expect.objectContaining({
+        success: false,
+        error: 'Host rebind.com resolves to a private or reserved address',
+      }));
+      expect((await service.getDeliveryAttempts(subscription.id)).total).toBe(1);
+    });
+
+    it('should not follow redirects', async () => {
+      await service.subscribe('https://redirect.com/webhook', ['test']);
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 302, text: () => Promise.resolve(JSON.stringify({})) });
+
+      const [result] = await service.send('test', {});
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://redirect.com/webhook',
+        expect.objectContaining({ redirect: 'manual' })
+      );
+      expect(result).toEqual(expect.objectContaining({
+        success: false,
+        error: 'HTTP 302: webhook endpoints may not redirect',
+      }));
+    });
+
+    it('should send the request to the address it checked', async () => {
+      const dns = require('dns');
+      const egress = require('./webhook.egress');
+      const pinned = jest.spyOn(egress, 'createPinnedDispatcher');
+      await service.subscribe('https://rebind.com/webhook', ['test']);
+      // The check sees a public address; a second lookup would see a private one
+      dns.promises.lookup
+        .mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }])
+        .mockResolvedValue([{ address: '10.0.0.5', family: 4 }]);
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: () => Promise.resolve(JSON.stringify({})) });
+
+      const [result] = await service.send('test', {});
+
+      expect(result.success).toBe(true);
+      expect(pinned).toHaveBeenCalledWith(['93.184.216.34']);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://rebind.com/webhook',
+        expect.objectContaining({ dispatcher: pinned.mock.results[0].value })
+      );
+      dns.promises.lookup.mockImplementation(async () => [{ address: '93.184.216.34', family: 4 }]);
+      pinned.mockRestore();
+    });
+  });
+
+  describe('endpoint health', () => {
+    const failingFetch = () =>
+      mockFetch.mockResolvedValue({ ok: false, status: 500, text: () => Promise.resolve(JSON.stringify({})) });
+
+    it('should disable a subscription after consecutive failures and notify the owner', async () => {
+      const onSubscriptionDisabled = jest.fn();
+      const healthService = createService({
+        retries: 1,
+        health: { maxConsecutiveFailures: 2, onSubscriptionDisabled },
+      });
+      const listener = jest.fn();
+      healthService.onSubscriptionDisabled(listener);
+      const subscription = await healthService.subscribe('https://down.com/webhook', ['test']);
+      failingFetch();
+
+      await healthService.send('test', {});
+      expect((await healthService.getSubscription(subscription.id))?.active).toBe(true);
+      await healthService.send('test', {});
+
+      const disabled = await healthService.getSubscription(subscription.id);
+      expect(disabled?.active).toBe(false);
+      expect(disabled?.health).toEqual(expect.objectContaining({
+        consecutiveFailures: 2,
+        successRate: 0,
+        disabledReason: '2 consecutive delivery failures',
+      }));
+      expect(onSubscriptionDisabled).toHaveBeenCalledWith(disabled, '2 consecutive delivery failures');
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      await healthService.send('test', {});
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reset health when a subscription is re-enabled', async () => {
+      const healthService = createService({ retries: 1, health: { maxConsecutiveFailures: 1 } });
+      const subscription = await healthService.subscribe('https://down.com/webhook', ['test']);
+      failingFetch();
+      await healthService.send('test', {});
+
+      const enabled = await healthService.updateSubscription(subscription.id, { active: true });
+
+      expect(enabled?.health).toEqual({ consecutiveFailures: 0, recent: [], successRate: 1 });
+    });
+
+    it('should not track health when disabled', async () => {
+      const healthService = createService({ retries: 1, health: { enabled: false, maxConsecutiveFailures: 1 } });
+      const subscription = await healthService.subscribe('https://down.com/webhook', ['test']);
+      failingFetch();
+      await healthService.send('test', {});
+
+      const stored = await healthService.getSubscription(subscription.id);
+      expect(stored?.active).toBe(true);
+      expect(stored?.health).toBeUndefined();
+    });
+  });
+
   describe('handler management', () => {
     it('should manage webhook handlers', () => {
       const handler: WebhookHandler = {
@@ -1,7 +1,7 @@
 import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
-import { createHmac } from 'crypto';
 import { Request, Response } from 'express';
 import express from 'express';
+import { fetch } from 'undici';
 import {
   WebhookConfig,
   WebhookEvent,
@@ -10,158 +10,435 @@ import {
   WebhookDeliveryOptions,
   WebhookSubscription,
   WebhookSignatureOptions,
+  WebhookDeliveryJob,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryState,
+  WebhookSubscriptionOptions,
+  WebhookSubscriptionDisabledListener,
+  WebhookSendOptions,
+  WebhookDeliveryHandle,
 } from './webhook.types';
+import { ConcurrencyLimiter, KeyedConcurrencyLimiter } from './webhook.concurrency';
+import { createPinnedDispatcher, WebhookEgressPolicy } from './webhook.egress';
+import { WebhookDeliveryQueue, computeBackoffDelay } from './webhook.queue';
+import { WebhookSubscriptionStore, InMemoryWebhookSubscriptionStore } from './webhook.store';
+import {
+  projectEventForSubscription,
+  subscriptionMatchesEvent,
+  validateSubscriptionRules,
+} from './webhook.filter';
+import { createSubscriptionHealth, recordHealthOutcome } from './webhook.health';
+import { WebhookIdempotencyStore, InMemoryWebhookIdempotencyStore } from './webhook.idempotency';
+import {
+  DEFAULT_SIGNATURE_HEADER,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhook.signature';
+
+const RESPONSE_SNIPPET_LENGTH = 512;
+const DEFAULT_IDEMPOTENCY_TTL = 86400; // 24 hours
+const DEFAULT_PROCESSING_TIMEOUT = 60;
+const DEFAULT_FAN_OUT_CONCURRENCY = 10;
+const DEFAULT_PER_HOST_CONCURRENCY = 2;
+
+function parseResponseBody(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function failedDelivery(error: unknown): WebhookDeliveryResult {
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : String(error),
+    timestamp: new Date().toISOString(),
+  };
+}
 
 @Injectable()
 export class WebhookService implements OnModuleInit, OnModuleDestroy {
   private readonly handlers: Map<string, WebhookHandler> = new Map();
-  private readonly subscriptions: Map<string, WebhookSubscription> = new Map();
+  private readonly disabledListeners = new Set<WebhookSubscriptionDisabledListener>();
   private server: any;
+  private workerInterval?: NodeJS.Timeout;
+  private draining = false;
   private readonly logger = new Logger(WebhookService.name);
-
-  constructor(private readonly config: WebhookConfig) {}
+  private readonly hostLimiter: KeyedConcurrencyLimiter;
+  private readonly egressPolicy: WebhookEgressPolicy;
+
+  constructor(
+    private readonly config: WebhookConfig,
+    private readonly queue?: WebhookDeliveryQueue,
+    private readonly subscriptionStore: WebhookSubscriptionStore = new InMemoryWebhookSubscriptionStore(),
+    private readonly idempotencyStore: WebhookIdempotencyStore = new InMemoryWebhookIdempotencyStore(),
+  ) {
+    this.hostLimiter = new KeyedConcurrencyLimiter(
+      config.fanOut?.perHostConcurrency ?? DEFAULT_PER_HOST_CONCURRENCY
+    );
+    // Each send gets its own fan-out limiter; building one here rejects a bad limit up front
+    this.createFanOutLimiter();
+    this.egressPolicy = new WebhookEgressPolicy(config.egress);
+  }
 
   onModuleInit() {
-    if (this.config.path) {
+    if (this.config.path && this.config.receiver !== 'nest') {
       this.startServer();
     }
+
+    if (this.isQueueEnabled()) {
+      this.startWorker();
+    }
   }
 
   onModuleDestroy() {
     if (this.server) {
       this.server.close();
     }
+
+    if (this.workerInterval) {
+      clearInterval(this.workerInterval);
+      this.workerInterval = undefined;
+    }
+  }
+
+  private isQueueEnabled(): boolean {
+    return !!this.queue && this.config.queue?.enabled !== false;
+  }
+
+  private startWorker() {
+    this.workerInterval = setInterval(() => {
+      this.drainQueue().catch(error => {
+        this.logger.error('Failed to drain webhook delivery queue:', error);
+      });
+    }, this.queue!.config.pollInterval);
   }
 
   private startServer() {
     try {
       const app = express();
-      app.use(express.json());
+      app.use(express.json({
+        // Keep the exact bytes around for signature verification
+        verify: (req: Request, _res: Response, buf: Buffer) => {
+          (req as Request & { rawBody?: Buffer }).rawBody = buf;
+        },
+      }));
+
+      const path = this.config.path!.replace(/\/+$/, '');
+      app.post(path, (req: Request, res: Response) => this.handleInbound(req, res));
+      app.post(`${path}/:handlerPath`, (req: Request, res: Response) =>
+        this.handleInbound(req, res, req.params.handlerPath)
+      );
 
-      app.post(this.config.path!, async (req: Request, res: Response) => {
-        try {
-          const event = req.body as WebhookEvent;
-          const handler = this.handlers.get(event.type);
+      this.server = app.listen(this.config.port || 3000);
+    } catch (error) {
+      this.logger.error('Failed to initialize webhook server:', error);
+    }
+  }
 
-          if (!handler) {
-            res.status(404).json({ error: 'No handler found for event type' });
-            return;
-          }
+  /**
+   * Runs an inbound webhook through handler lookup, signature verification
+   * and event-id deduplication before invoking the registered handler.
+   * `handlerPath` is the sub-path the request arrived on, if any.
+   */
+  async handleInbound(req: Request, res: Response, handlerPath?: string): Promise<void> {
+    try {
+      const event = req.body as WebhookEvent;
+      const handler = this.findHandler(event.type, handlerPath);
 
-          if (handler.verifySignature !== false && this.config.verifySignature) {
-            const isValid = this.verifySignature(req);
-            if (!isValid) {
-              res.status(401).json({ error: 'Invalid signature' });
-              return;
-            }
-          }
+      if (!handler) {
+        res.status(404).json({ error: 'No handler found for event type' });
+        return;
+      }
 
-          await handler.handler(event, req, res);
-        } catch (error) {
-          res.status(500).json({ error: error.message });
+      if (handler.verifySignature !== false && this.config.verifySignature) {
+        const isValid = this.verifySignature(req);
+        if (!isValid) {
+          res.status(401).json({ error: 'Invalid signature' });
+          return;
         }
-      });
+      }
 
-      this.server = app.listen(this.config.port || 3000);
+      if (this.config.idempotency?.enabled === false || !event.id) {
+        await handler.handler(event, req, res);
+        return;
+      }
+
+      await this.handleIdempotent(event, handler, req, res);
     } catch (error) {
-      this.logger.error('Failed to initialize webhook server:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+
+  /**
+   * Handlers registered with a `path` only receive requests on that sub-path,
+   * and handlers without one only receive requests on the receiver path itself.
+   */
+  private findHandler(type: string, handlerPath?: string): WebhookHandler | undefined {
+    const handler = this.handlers.get(type);
+    if (!handler) return undefined;
+
+    const normalize = (path?: string) => path?.replace(/^\/+|\/+$/g, '') || undefined;
+    return normalize(handler.path) === normalize(handlerPath) ? handler : undefined;
+  }
+
+  private async handleIdempotent(
+    event: WebhookEvent,
+    handler: WebhookHandler,
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const ttl = this.config.idempotency?.ttl ?? DEFAULT_IDEMPOTENCY_TTL;
+    const processingTimeout = this.config.idempotency?.processingTimeout ?? DEFAULT_PROCESSING_TIMEOUT;
+
+    const claimed = await this.idempotencyStore.claim(event.id, processingTimeout);
+    if (!claimed) {
+      const record = await this.idempotencyStore.find(event.id);
+      if (record?.status === 'completed') {
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(200).json(record.body ?? { received: true });
+        return;
+      }
+
+      res.status(409).json({ error: 'Event is already being processed' });
+      return;
+    }
+
+    const captured = this.captureResponse(res);
+    try {
+      await handler.handler(event, req, res);
+    } catch (error) {
+      await this.idempotencyStore.release(event.id);
+      throw error;
+    }
+
+    if (!res.headersSent && captured.body === undefined) {
+      res.status(200).json({ received: true });
+    }
+
+    // Only remember successful outcomes; anything else may be retried
+    const statusCode = res.statusCode ?? 200;
+    if (statusCode >= 200 && statusCode < 300) {
+      await this.idempotencyStore.complete(event.id, {
+        status: 'completed',
+        statusCode,
+        body: captured.body,
+        createdAt: new Date().toISOString(),
+        completedAt: new Date().toISOString(),
+      }, ttl);
+    } else {
+      await this.idempotencyStore.release(event.id);
+    }
+  }
+
+  /**
+   * Records the body a handler responds with so duplicates can be answered
+   * with the original result.
+   */
+  private captureResponse(res: Response): { body?: any } {
+    const captured: { body?: any } = {};
+    const json = res.json.bind(res);
+    const send = res.send?.bind(res);
+
+    res.json = (body?: any) => {
+      captured.body = body;
+      return json(body);
+    };
+
+    if (send) {
+      res.send = (body?: any) => {
+        if (captured.body === undefined) captured.body = body;
+        return send(body);
+      };
+    }
+
+    return captured;
+  }
+
+  private getSecrets(): string[] {
+    const secrets = [...(this.config.secrets ?? [])];
+    if (this.config.secret && !secrets.includes(this.config.secret)) {
+      secrets.push(this.config.secret);
+    }
+    return secrets;
+  }
+
+  private getSignatureHeader(): string {
+    return (this.config.signature?.header ?? DEFAULT_SIGNATURE_HEADER).toLowerCase();
+  }
+
+  private getRawBody(req: Request): string {
+    const rawBody = (req as Request & { rawBody?: Buffer | string }).rawBody;
+    if (rawBody) {
+      return typeof rawBody === 'string' ? rawBody : rawBody.toString('utf8');
     }
+    return typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
   }
 
   private verifySignature(req: Request): boolean {
-    if (!this.config.verifySignature || !this.config.secret) return true;
+    const secrets = this.getSecrets();
+    if (!this.config.verifySignature || secrets.length === 0) return true;
 
-    const signature = req.headers['x-webhook-signature'] as string;
-    if (!signature) return false;
+    const header = req.headers[this.getSignatureHeader()] as string | undefined;
+    const result = verifyWebhookSignature(header, this.getRawBody(req), secrets, {
+      ...this.config.signature,
+      tolerance: this.config.signatureTolerance,
+    });
 
-    const hmac = createHmac('sha256', this.config.secret);
-    hmac.update(JSON.stringify(req.body));
-    const computedSignature = hmac.digest('hex');
+    if (!result.valid) {
+      this.logger.warn(`Rejected inbound webhook signature: ${result.reason}`);
+    }
 
-    return signature === computedSignature;
+    return result.valid;
   }
 
   private generateSignature(payload: any, options?: WebhookSignatureOptions): string {
-    if (!this.config.secret) return '';
+    const secrets = this.getSecrets();
+    if (secrets.length === 0) return '';
 
-    const algorithm = options?.algorithm || 'sha256';
-    const hmac = createHmac(algorithm, this.config.secret);
-    hmac.update(JSON.stringify(payload));
-    const signature = hmac.digest('hex');
-    return options?.prefix ? `${options.prefix}${signature}` : signature;
+    const body = typeof payload === 'string' ? payload : JSON.stringify(payload);
+    return signWebhookPayload(body, secrets, { ...this.config.signature, ...options });
   }
 
-  private async deliverWebhook(
-    url: string,
-    event: WebhookEvent,
+  private buildHeaders(
+    body: string,
     options?: WebhookDeliveryOptions
-  ): Promise<WebhookDeliveryResult> {
+  ): Record<string, string> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       ...this.config.headers,
       ...options?.headers,
     };
 
-    if (this.config.secret) {
-      headers['x-webhook-signature'] = this.generateSignature(event);
+    const signature = this.generateSignature(body);
+    if (signature) {
+      headers[this.getSignatureHeader()] = signature;
     }
 
+    return headers;
+  }
+
+  /**
+   * Performs a single delivery attempt. Network errors are thrown so the
+   * caller can decide whether to retry; HTTP errors and timeouts are returned
+   * as failed results.
+   */
+  private async attemptDelivery(
+    url: string,
+    event: WebhookEvent,
+    options?: WebhookDeliveryOptions
+  ): Promise<WebhookDeliveryResult> {
+    // Checked on every attempt, not just at subscribe time, since DNS
+    // answers can change between the two. The request then goes to the
+    // addresses that were checked rather than resolving the host again.
+    let addresses: string[];
+    try {
+      addresses = await this.egressPolicy.resolveAllowedAddresses(url);
+    } catch (error) {
+      return {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    const body = JSON.stringify(event);
+    const headers = this.buildHeaders(body, options);
+    const timeout = options?.timeout ?? this.config.timeout ?? 5000;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      controller.abort();
+    }, timeout);
+    const startedAt = Date.now();
+    const dispatcher = addresses.length > 0 ? createPinnedDispatcher(addresses) : undefined;
+
+    try {
+      // Redirects are not followed: the target would bypass the egress policy
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+        redirect: 'manual',
+        ...(dispatcher ? { dispatcher } : {}),
+      });
+
+      clearTimeout(timeoutId);
+
+      // Bodies may be empty (204) or not JSON at all
+      const text = await response.text();
+      const result: WebhookDeliveryResult = {
+        success: response.ok,
+        statusCode: response.status,
+        response: parseResponseBody(text),
+        responseSnippet: text ? text.slice(0, RESPONSE_SNIPPET_LENGTH) : undefined,
+        timestamp: new Date().toISOString(),
+        latencyMs: Date.now() - startedAt,
+      };
+
+      if (response.status >= 300 && response.status < 400) {
+        result.error = `HTTP ${response.status}: webhook endpoints may not redirect`;
+      } else if (!response.ok) {
+        result.error = `HTTP ${response.status}: ${response.statusText}`;
+      }
+
+      return result;
+    } catch (error) {
+      clearTimeout(timeoutId);
+      if (error.name === 'AbortError') {
+        return {
+          success: false,
+          error: 'Request timed out',
+          timestamp: new Date().toISOString(),
+          latencyMs: Date.now() - startedAt,
+        };
+      }
+      throw error;
+    } finally {
+      void dispatcher?.close();
+    }
+  }
+
+  private async deliverWebhook(
+    url: string,
+    event: WebhookEvent,
+    options?: WebhookDeliveryOptions,
+    subscriptionId?: string
+  ): Promise<WebhookDeliveryResult> {
     const retries = options?.retries ?? this.config.retries ?? 3;
     const retryDelay = options?.retryDelay ?? this.config.retryDelay ?? 1000;
-    const timeout = options?.timeout ?? this.config.timeout ?? 5000;
+    const maxDelay = this.config.queue?.backoffMax ?? 30000;
 
     let lastError: Error | undefined;
     let attemptCount = 0;
 
     while (attemptCount < retries) {
       try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => {
-          controller.abort();
-        }, timeout);
-
-        try {
-          const response = await fetch(url, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify(event),
-            signal: controller.signal,
-          });
-
-          clearTimeout(timeoutId);
-
-          const result: WebhookDeliveryResult = {
-            success: response.ok,
-            statusCode: response.status,
-            response: await response.json(),
-            retries: attemptCount,
-            timestamp: new Date().toISOString(),
-          };
-
-          if (!response.ok) {
-            result.error = `HTTP ${response.status}: ${response.statusText}`;
-          }
-
-          return result;
-        } catch (error) {
-          clearTimeout(timeoutId);
-          if (error.name === 'AbortError') {
-            return {
-              success: false,
-              error: 'Request timed out',
-              retries: attemptCount,
-              timestamp: new Date().toISOString(),
-            };
-          }
-          throw error;
+        const result = await this.attemptDelivery(url, event, options);
+        if (subscriptionId) {
+          await this.recordAttempt(subscriptionId, event, attemptCount + 1, result);
         }
+        return { ...result, retries: attemptCount };
       } catch (error) {
         lastError = error;
+        if (subscriptionId) {
+          await this.recordAttempt(subscriptionId, event, attemptCount + 1, {
+            success: false,
+            error: error.message,
+            timestamp: new Date().toISOString(),
+          });
+        }
       }
 
       attemptCount++;
       if (attemptCount < retries) {
-        await new Promise(resolve => setTimeout(resolve, retryDelay));
+        const delay = computeBackoffDelay(attemptCount - 1, retryDelay, maxDelay);
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
 
@@ -173,6 +450,201 @@ export class WebhookService implements OnModuleInit, OnModuleDestroy {
     };
   }
 
+  /**
+   * Runs one attempt for a claimed queue job and either completes it or hands
+   * it back to the queue for a backed-off retry / dead-lettering.
+   */
+  private async processJob(job: WebhookDeliveryJob): Promise<WebhookDeliveryResult> {
+    let result: WebhookDeliveryResult;
+    try {
+      result = await this.attemptDelivery(job.url, job.event, job.options);
+    } catch (error) {
+      result = {
+        success: false,
+        error: error.message,
+        timestamp: new Date().toISOString(),
+      };
+    }
+
+    result.deliveryId = job.id;
+    result.retries = job.attempts;
+    await this.recordAttempt(job.subscriptionId, job.event, job.attempts + 1, result);
+
+    // Health counts each event once, when it is delivered or given up on
+    if (result.success) {
+      await this.queue!.complete(job);
+      await this.recordDelivery(job.subscriptionId, result);
+      return result;
+    }
+
+    const failed = await this.queue!.fail(job, result.error, result.statusCode);
+    if (failed.attempts >= failed.maxAttempts) {
+      result.deadLettered = true;
+      await this.recordDelivery(job.subscriptionId, result);
+    } else {
+      result.nextAttemptAt = failed.nextAttemptAt;
+    }
+    return result;
+  }
+
+  private async recordDelivery(subscriptionId: string, result: WebhookDeliveryResult) {
+    try {
+      const subscription = await this.subscriptionStore.findById(subscriptionId);
+      if (!subscription) return;
+
+      const state: WebhookDeliveryState = {
+        health: subscription.health,
+        lastDelivery: {
+          timestamp: result.timestamp,
+          success: result.success,
+          statusCode: result.statusCode,
+        },
+      };
+
+      let disableReason: string | undefined;
+      if (this.config.health?.enabled !== false) {
+        const outcome = recordHealthOutcome(subscription.health, result.success, this.config.health);
+        state.health = outcome.health;
+        disableReason = subscription.active ? outcome.disableReason : undefined;
+      }
+
+      if (disableReason) {
+        state.health = {
+          ...state.health!,
+          disabledAt: new Date().toISOString(),
+          disabledReason: disableReason,
+        };
+      }
+
+      // Only the delivery state is written, so concurrent edits to the
+      // subscription itself are not undone
+      await this.subscriptionStore.saveDeliveryState(subscriptionId, state);
+
+      if (disableReason) {
+        const current = await this.subscriptionStore.findById(subscriptionId);
+        if (!current?.active) return;
+
+        const disabled = await this.subscriptionStore.save({ ...current, active: false });
+        this.logger.warn(`Disabled webhook subscription ${subscriptionId}: ${disableReason}`);
+        await this.notifySubscriptionDisabled(disabled, disableReason);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to record delivery for subscription ${subscriptionId}:`, error);
+    }
+  }
+
+  private async notifySubscriptionDisabled(subscription: WebhookSubscription, reason: string) {
+    const listeners = [...this.disabledListeners];
+    if (this.config.health?.onSubscriptionDisabled) {
+      listeners.push(this.config.health.onSubscriptionDisabled);
+    }
+
+    for (const listener of listeners) {
+      try {
+        await listener(subscription, reason);
+      } catch (error) {
+        this.logger.error(`Subscription disabled listener failed for ${subscription.id}:`, error);
+      }
+    }
+  }
+
+  private async recordAttempt(
+    subscriptionId: string,
+    event: WebhookEvent,
+    attempt: number,
+    result: WebhookDeliveryResult
+  ) {
+    const entry: WebhookDeliveryAttempt = {
+      id: `att_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      subscriptionId,
+      eventId: event.id,
+      eventType: event.type,
+      deliveryId: result.deliveryId,
+      attempt,
+      success: result.success,
+      statusCode: result.statusCode,
+      latencyMs: result.latencyMs,
+      responseSnippet: result.responseSnippet,
+      error: result.error,
+      timestamp: result.timestamp,
+    };
+
+    try {
+      await this.subscriptionStore.recordAttempt(entry);
+    } catch (error) {
+      this.logger.error(`Failed to record delivery attempt for subscription ${subscriptionId}:`, error);
+    }
+  }
+
+  /**
+   * Delivers an event to a single subscription, through the durable queue
+   * when it is enabled.
+   */
+  private async deliverToSubscription(
+    subscription: WebhookSubscription,
+    event: WebhookEvent,
+    options?: WebhookDeliveryOptions
+  ): Promise<WebhookDeliveryResult | undefined> {
+    if (this.isQueueEnabled()) {
+      const job = await this.queue!.enqueue(subscription.id, subscription.url, event, options);
+      const claimed = await this.queue!.claim(job.id);
+      return claimed ? this.processJob(claimed) : undefined;
+    }
+
+    const result = await this.deliverWebhook(subscription.url, event, options, subscription.id);
+    await this.recordDelivery(subscription.id, result);
+    return result;
+  }
+
+  /**
+   * Drains due jobs from the delivery queue. Called by the background worker,
+   * and safe to call from a scheduled function on serverless deployments.
+   */
+  async drainQueue(): Promise<WebhookDeliveryResult[]> {
+    if (!this.isQueueEnabled() || this.draining) return [];
+
+    this.draining = true;
+    try {
+      await this.queue!.recoverExpired();
+      const jobs = await this.queue!.claimDue();
+
+      const fanOut = this.createFanOutLimiter();
+      const results = await Promise.all(jobs.map(job =>
+        this.scheduleDelivery(job.url, fanOut, async () => {
+          // Don't spend retries on subscriptions that were removed or disabled
+          const subscription = await this.subscriptionStore.findById(job.subscriptionId);
+          if (!subscription?.active) {
+            await this.queue!.complete(job);
+            return undefined;
+          }
+          return this.processJob(job);
+        })
+      ));
+      return results.filter((result): result is WebhookDeliveryResult => !!result);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  async getDeadLetters(offset?: number, limit?: number): Promise<WebhookDeliveryJob[]> {
+    if (!this.queue) return [];
+    return this.queue.getDeadLetters(offset, limit);
+  }
+
+  async replayDeadLetter(deliveryId: string): Promise<WebhookDeliveryJob | null> {
+    if (!this.queue) return null;
+    return this.queue.replayDeadLetter(deliveryId);
+  }
+
+  /**
+   * Registers a listener that is called when a subscription is disabled for
+   * failing deliveries. Returns a function that removes the listener.
+   */
+  onSubscriptionDisabled(listener: WebhookSubscriptionDisabledListener): () => void {
+    this.disabledListeners.add(listener);
+    return () => this.disabledListeners.delete(listener);
+  }
+
   registerHandler<T = any>(handler: WebhookHandler<T>): void {
     this.handlers.set(handler.type, handler);
   }
@@ -181,11 +653,58 @@ export class WebhookService implements OnModuleInit, OnModuleDestroy {
     this.handlers.delete(type);
   }
 
+  private createFanOutLimiter(): ConcurrencyLimiter {
+    return new ConcurrencyLimiter(this.config.fanOut?.concurrency ?? DEFAULT_FAN_OUT_CONCURRENCY);
+  }
+
+  /**
+   * Runs one delivery within the per-host cap and the fan-out limit. The host
+   * slot is taken first so deliveries queued behind a slow host don't hold
+   * fan-out slots other hosts could use.
+   */
+  private scheduleDelivery(
+    url: string,
+    fanOut: ConcurrencyLimiter,
+    task: () => Promise<WebhookDeliveryResult | undefined>
+  ): Promise<WebhookDeliveryResult | undefined> {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      host = url;
+    }
+
+    return this.hostLimiter
+      .run(host, () => fanOut.run(task))
+      .catch(error => {
+        this.logger.error(`Webhook delivery to ${url} failed:`, error);
+        return failedDelivery(error);
+      });
+  }
+
+  /**
+   * Delivers an event to every matching subscription in parallel, bounded by
+   * `fanOut.concurrency` and `fanOut.perHostConcurrency`. With `wait: false`
+   * it resolves with delivery handles as soon as deliveries are scheduled.
+   * Otherwise it resolves with one result per subscription, a failure for
+   * one never affecting the others.
+   */
   async send<T = any>(
     type: string,
     data: T,
-    options?: WebhookDeliveryOptions
-  ): Promise<WebhookDeliveryResult[]> {
+    options: WebhookSendOptions & { wait: false }
+  ): Promise<WebhookDeliveryHandle[]>;
+  async send<T = any>(
+    type: string,
+    data: T,
+    options?: WebhookSendOptions
+  ): Promise<WebhookDeliveryResult[]>;
+  async send<T = any>(
+    type: string,
+    data: T,
+    options: WebhookSendOptions = {}
+  ): Promise<WebhookDeliveryResult[] | WebhookDeliveryHandle[]> {
+    const { wait = true, ...deliveryOptions } = options;
     const event: WebhookEvent<T> = {
       id: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       type,
@@ -193,59 +712,165 @@ export class WebhookService implements OnModuleInit, OnModuleDestroy {
       timestamp: new Date().toISOString(),
     };
 
-    const results: WebhookDeliveryResult[] = [];
-    const subscriptions = Array.from(this.subscriptions.values())
-      .filter(sub => sub.active && sub.events.includes(type));
-
-    for (const subscription of subscriptions) {
-      const result = await this.deliverWebhook(subscription.url, event, options);
-      
-      subscription.lastDelivery = {
-        timestamp: result.timestamp,
-        success: result.success,
-        statusCode: result.statusCode,
-      };
+    const subscriptions = (await this.subscriptionStore.findAll())
+      .filter(sub => subscriptionMatchesEvent(sub, event));
+    const fanOut = this.createFanOutLimiter();
+
+    let handles: WebhookDeliveryHandle[];
+    if (this.isQueueEnabled()) {
+      // Persist every delivery before the first attempt so an instance going
+      // away mid-send leaves the remaining work on the queue.
+      // A subscription whose job could not be stored fails on its own
+      const jobs = await Promise.allSettled(
+        subscriptions.map(subscription =>
+          this.queue!.enqueue(
+            subscription.id,
+            subscription.url,
+            projectEventForSubscription(subscription, event),
+            deliveryOptions
+          )
+        )
+      );
+
+      handles = jobs.map((outcome, index) => {
+        const subscription = subscriptions[index];
+        if (outcome.status === 'rejected') {
+          this.logger.error(`Failed to enqueue webhook delivery to ${subscription.url}:`, outcome.reason);
+          return {
+            subscriptionId: subscription.id,
+            eventId: event.id,
+            result: Promise.resolve(failedDelivery(outcome.reason)),
+          };
+        }
 
-      results.push(result);
+        const job = outcome.value;
+        return {
+          subscriptionId: job.subscriptionId,
+          eventId: event.id,
+          deliveryId: job.id,
+          result: this.scheduleDelivery(job.url, fanOut, async () => {
+            const claimed = await this.queue!.claim(job.id);
+            return claimed ? this.processJob(claimed) : undefined;
+          }),
+        };
+      });
+    } else {
+      handles = subscriptions.map(subscription => ({
+        subscriptionId: subscription.id,
+        eventId: event.id,
+        result: this.scheduleDelivery(subscription.url, fanOut, () =>
+          this.deliverToSubscription(
+            subscription,
+            projectEventForSubscription(subscription, event),
+            deliveryOptions
+          )
+        ),
+      }));
     }
 
-    return results;
+    if (!wait) return handles;
+
+    // Deliveries another instance claimed first report there, not here
+    const results = await Promise.allSettled(handles.map(handle => handle.result));
+    return results.flatMap((outcome, index): WebhookDeliveryResult[] => {
+      const { subscriptionId } = handles[index];
+      if (outcome.status === 'rejected') {
+        return [{ subscriptionId, ...failedDelivery(outcome.reason) }];
+      }
+      return outcome.value ? [{ subscriptionId, ...outcome.value }] : [];
+    });
+  }
+
+  /**
+   * Sends a `webhook.test` event to one subscription, regardless of the
+   * events it is subscribed to.
+   */
+  async sendTestEvent(subscriptionId: string): Promise<WebhookDeliveryResult | undefined> {
+    const subscription = await this.subscriptionStore.findById(subscriptionId);
+    if (!subscription) return undefined;
+
+    const event: WebhookEvent = {
+      id: `evt_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type: 'webhook.test',
+      data: { subscriptionId },
+      timestamp: new Date().toISOString(),
+    };
+
+    return this.deliverToSubscription(subscription, event);
   }
 
-  subscribe(url: string, events: string[]): WebhookSubscription {
+  async getDeliveryAttempts(
+    subscriptionId: string,
+    offset = 0,
+    limit = 20
+  ): Promise<{ attempts: WebhookDeliveryAttempt[]; total: number }> {
+    const [attempts, total] = await Promise.all([
+      this.subscriptionStore.findAttempts(subscriptionId, offset, limit),
+      this.subscriptionStore.countAttempts(subscriptionId),
+    ]);
+    return { attempts, total };
+  }
+
+  async subscribe(
+    url: string,
+    events: string[],
+    options: WebhookSubscriptionOptions = {}
+  ): Promise<WebhookSubscription> {
+    validateSubscriptionRules(options);
+    await this.egressPolicy.assertAllowed(url);
+
     const subscription: WebhookSubscription = {
       id: `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       url,
       events,
       active: true,
+      ...options,
       createdAt: new Date().toISOString(),
     };
 
-    this.subscriptions.set(subscription.id, subscription);
-    return subscription;
+    return this.subscriptionStore.save(subscription);
   }
 
-  unsubscribe(subscriptionId: string): void {
-    this.subscriptions.delete(subscriptionId);
+  async unsubscribe(subscriptionId: string): Promise<void> {
+    await this.subscriptionStore.remove(subscriptionId);
   }
 
-  getSubscription(subscriptionId: string): WebhookSubscription | undefined {
-    return this.subscriptions.get(subscriptionId);
+  async getSubscription(subscriptionId: string): Promise<WebhookSubscription | undefined> {
+    return (await this.subscriptionStore.findById(subscriptionId)) ?? undefined;
   }
 
-  getSubscriptions(): WebhookSubscription[] {
-    return Array.from(this.subscriptions.values());
+  async getSubscriptions(): Promise<WebhookSubscription[]> {
+    return this.subscriptionStore.findAll();
   }
 
-  updateSubscription(
+  async updateSubscription(
     subscriptionId: string,
     updates: Partial<WebhookSubscription>
-  ): WebhookSubscription | undefined {
-    const subscription = this.subscriptions.get(subscriptionId);
+  ): Promise<WebhookSubscription | undefined> {
+    const subscription = await this.subscriptionStore.findById(subscriptionId);
     if (!subscription) return undefined;
 
-    const updated = { ...subscription, ...updates };
-    this.subscriptions.set(subscriptionId, updated);
-    return updated;
+    validateSubscriptionRules(updates);
+    if (updates.url) {
+      await this.egressPolicy.assertAllowed(updates.url);
+    }
+
+    const updated: WebhookSubscription = {
+      ...subscription,
+      ...updates,
+      id: subscription.id,
+      createdAt: subscription.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+
+    // Re-enabling starts the endpoint with a clean slate
+    if (updates.active === true && !subscription.active) {
+      updated.health = createSubscriptionHealth();
+      await this.subscriptionStore.saveDeliveryState(subscriptionId, {
+        health: updated.health,
+        lastDelivery: subscription.lastDelivery,
+      });
+    }
+    return this.subscriptionStore.save(updated);
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,85 @@
+import * as crypto from 'crypto';
+import {
+  parseSignatureHeader,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhook.signature';
+
+describe('webhook signatures', () => {
+  const payload = JSON.stringify({ id: 'evt_1', type: 'test', data: { message: 'Hello' } });
+  const now = 1700000000;
+
+  describe('signWebhookPayload', () => {
+    it('should sign the timestamp and raw payload', () => {
+      const header = signWebhookPayload(payload, ['secret'], {}, now);
+      const expected = crypto
+        .createHmac('sha256', 'secret')
+        .update(`${now}.${payload}`)
+        .digest('hex');
+
+      expect(header).toBe(`t=${now},v1=${expected}`);
+    });
+
+    it('should emit one signature per active secret', () => {
+      const header = signWebhookPayload(payload, ['old', 'new'], {}, now);
+      expect(parseSignatureHeader(header)?.signatures).toHaveLength(2);
+    });
+
+    it('should honour the configured algorithm and prefix', () => {
+      const header = signWebhookPayload(payload, ['secret'], { algorithm: 'sha512', prefix: 'sig:' }, now);
+      const expected = crypto
+        .createHmac('sha512', 'secret')
+        .update(`${now}.${payload}`)
+        .digest('hex');
+
+      expect(header).toBe(`sig:t=${now},v1=${expected}`);
+    });
+  });
+
+  describe('verifyWebhookSignature', () => {
+    it('should accept a valid signature within tolerance', () => {
+      const header = signWebhookPayload(payload, ['secret'], {}, now);
+      const result = verifyWebhookSignature(header, payload, ['secret'], { now: now + 10 });
+
+      expect(result).toEqual({ valid: true, timestamp: now });
+    });
+
+    it('should accept signatures from any active secret', () => {
+      const header = signWebhookPayload(payload, ['old'], {}, now);
+      const result = verifyWebhookSignature(header, payload, ['new', 'old'], { now });
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject replayed signatures outside the tolerance window', () => {
+      const header = signWebhookPayload(payload, ['secret'], {}, now);
+      const result = verifyWebhookSignature(header, payload, ['secret'], {
+        now: now + 301,
+        tolerance: 300,
+      });
+
+      expect(result).toEqual(expect.objectContaining({
+        valid: false,
+        reason: 'timestamp_out_of_tolerance',
+      }));
+    });
+
+    it('should reject a tampered payload', () => {
+      const header = signWebhookPayload(payload, ['secret'], {}, now);
+      const result = verifyWebhookSignature(header, `${payload} `, ['secret'], { now });
+
+      expect(result.reason).toBe('no_match');
+    });
+
+    it('should reject missing and malformed headers', () => {
+      expect(verifyWebhookSignature(undefined, payload, ['secret']).reason).toBe('missing_header');
+      expect(verifyWebhookSignature('garbage', payload, ['secret']).reason).toBe('malformed_header');
+      expect(verifyWebhookSignature(`t=${now}`, payload, ['secret']).reason).toBe('malformed_header');
+    });
+
+    it('should reject signatures of a different length without throwing', () => {
+      const result = verifyWebhookSignature(`t=${now},v1=abc`, payload, ['secret'], { now });
+      expect(result.reason).toBe('no_match');
+    });
+  });
+});
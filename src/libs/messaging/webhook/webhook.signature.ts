@@ -0,0 +1,105 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { WebhookSignatureOptions } from './webhook.types';
+
+export const DEFAULT_SIGNATURE_HEADER = 'x-webhook-signature';
+export const DEFAULT_SIGNATURE_TOLERANCE = 300; // 5 minutes
+const SIGNATURE_SCHEME = 'v1';
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  reason?: 'missing_header' | 'malformed_header' | 'timestamp_out_of_tolerance' | 'no_match';
+  timestamp?: number;
+}
+
+function computeSignature(
+  secret: string,
+  timestamp: number,
+  payload: string,
+  algorithm: WebhookSignatureOptions['algorithm'] = 'sha256',
+): string {
+  return createHmac(algorithm, secret)
+    .update(`${timestamp}.${payload}`)
+    .digest('hex');
+}
+
+function safeCompare(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  if (bufferA.length !== bufferB.length) return false;
+  return timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Builds a `t=<unix seconds>,v1=<hmac>[,v1=<hmac>]` header value. One `v1`
+ * entry is emitted per secret so receivers can rotate keys without downtime.
+ */
+export function signWebhookPayload(
+  payload: string,
+  secrets: string[],
+  options: WebhookSignatureOptions = {},
+  timestamp: number = Math.floor(Date.now() / 1000),
+): string {
+  const signatures = secrets.map(
+    secret => `${SIGNATURE_SCHEME}=${computeSignature(secret, timestamp, payload, options.algorithm)}`,
+  );
+  const header = [`t=${timestamp}`, ...signatures].join(',');
+  return options.prefix ? `${options.prefix}${header}` : header;
+}
+
+export function parseSignatureHeader(
+  header: string,
+  prefix?: string,
+): { timestamp: number; signatures: string[] } | null {
+  const value = prefix && header.startsWith(prefix) ? header.slice(prefix.length) : header;
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+
+  for (const part of value.split(',')) {
+    const [key, ...rest] = part.trim().split('=');
+    const partValue = rest.join('=');
+    if (key === 't') {
+      timestamp = Number(partValue);
+    } else if (key === SIGNATURE_SCHEME && partValue) {
+      signatures.push(partValue);
+    }
+  }
+
+  if (timestamp === undefined || !Number.isFinite(timestamp) || signatures.length === 0) {
+    return null;
+  }
+
+  return { timestamp, signatures };
+}
+
+/**
+ * Verifies a signature header against the raw request body. The signed
+ * timestamp must be within `tolerance` seconds of now, and any of the active
+ * secrets may have produced any of the signatures.
+ */
+export function verifyWebhookSignature(
+  header: string | undefined,
+  payload: string,
+  secrets: string[],
+  options: WebhookSignatureOptions & { tolerance?: number; now?: number } = {},
+): SignatureVerificationResult {
+  if (!header) return { valid: false, reason: 'missing_header' };
+
+  const parsed = parseSignatureHeader(header, options.prefix);
+  if (!parsed) return { valid: false, reason: 'malformed_header' };
+
+  const tolerance = options.tolerance ?? DEFAULT_SIGNATURE_TOLERANCE;
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (tolerance > 0 && Math.abs(now - parsed.timestamp) > tolerance) {
+    return { valid: false, reason: 'timestamp_out_of_tolerance', timestamp: parsed.timestamp };
+  }
+
+  const matches = secrets.some(secret => {
+    const expected = computeSignature(secret, parsed.timestamp, payload, options.algorithm);
+    return parsed.signatures.some(signature => safeCompare(signature, expected));
+  });
+
+  return matches
+    ? { valid: true, timestamp: parsed.timestamp }
+    : { valid: false, reason: 'no_match', timestamp: parsed.timestamp };
+}
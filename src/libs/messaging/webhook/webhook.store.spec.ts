@@ -0,0 +1,160 @@
+import { RedisService } from '../../../core/shared/services/redis.service';
+import {
+  InMemoryWebhookSubscriptionStore,
+  RedisWebhookSubscriptionStore,
+  WebhookSubscriptionStore,
+} from './webhook.store';
+import { WEBHOOK_SUBSCRIPTION_PREFIX } from './webhook.constants';
+import { WebhookSubscription } from './webhook.types';
+
+const createRedisMock = () => {
+  const values = new Map<string, any>();
+  const lists = new Map<string, string[]>();
+
+  return {
+    values,
+    lpush: jest.fn(async (key: string, value: string) => {
+      lists.set(key, [value, ...(lists.get(key) ?? [])]);
+      return true;
+    }),
+    ltrim: jest.fn(async (key: string, start: number, stop: number) => {
+      lists.set(key, (lists.get(key) ?? []).slice(start, stop + 1));
+      return true;
+    }),
+    lrange: jest.fn(async (key: string, start: number, stop: number) =>
+      (lists.get(key) ?? []).slice(start, stop + 1)
+    ),
+    llen: jest.fn(async (key: string) => (lists.get(key) ?? []).length),
+    get: jest.fn(async (key: string) => values.get(key) ?? null),
+    set: jest.fn(async (key: string, value: any) => {
+      values.set(key, value);
+      return true;
+    }),
+    del: jest.fn(async (key: string) => values.delete(key) || lists.delete(key)),
+    keys: jest.fn(async (pattern: string) => {
+      const prefix = pattern.replace(/\*$/, '');
+      return Array.from(values.keys()).filter(key => key.startsWith(prefix));
+    }),
+  };
+};
+
+const subscription = (id: string): WebhookSubscription => ({
+  id,
+  url: `https://example.com/${id}`,
+  events: ['test'],
+  active: true,
+  createdAt: new Date().toISOString(),
+});
+
+describe.each([
+  ['InMemoryWebhookSubscriptionStore', () => new InMemoryWebhookSubscriptionStore(3)],
+  [
+    'RedisWebhookSubscriptionStore',
+    () => new RedisWebhookSubscriptionStore(createRedisMock() as unknown as RedisService, 3),
+  ],
+])('%s', (_name, createStore: () => WebhookSubscriptionStore) => {
+  let store: WebhookSubscriptionStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  it('should save and find subscriptions', async () => {
+    const saved = await store.save(subscription('sub_1'));
+
+    expect(await store.findById('sub_1')).toEqual(saved);
+    expect(await store.findById('missing')).toBeNull();
+  });
+
+  it('should list all subscriptions', async () => {
+    await store.save(subscription('sub_1'));
+    await store.save(subscription('sub_2'));
+
+    const all = await store.findAll();
+    expect(all.map(sub => sub.id).sort()).toEqual(['sub_1', 'sub_2']);
+  });
+
+  it('should overwrite subscriptions on save', async () => {
+    await store.save(subscription('sub_1'));
+    await store.save({ ...subscription('sub_1'), active: false });
+
+    expect((await store.findById('sub_1'))?.active).toBe(false);
+  });
+
+  it('should remove subscriptions', async () => {
+    await store.save(subscription('sub_1'));
+
+    expect(await store.remove('sub_1')).toBe(true);
+    expect(await store.findById('sub_1')).toBeNull();
+  });
+
+  it('should keep delivery state apart from the rest of the subscription', async () => {
+    const saved = await store.save(subscription('sub_1'));
+    const stale = await store.findById('sub_1');
+    const health = { consecutiveFailures: 3, recent: [false, false, false], successRate: 0 };
+
+    await store.saveDeliveryState('sub_1', { health });
+    // An edit based on a read from before the delivery
+    await store.save({ ...stale!, url: 'https://example.com/moved' });
+
+    expect(await store.findById('sub_1')).toEqual({ ...saved, url: 'https://example.com/moved', health });
+    expect(await store.findAll()).toEqual([expect.objectContaining({ health })]);
+
+    await store.remove('sub_1');
+    await store.save(subscription('sub_1'));
+    expect((await store.findById('sub_1'))?.health).toBeUndefined();
+  });
+
+  it('should keep a bounded, newest-first attempt history', async () => {
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      await store.recordAttempt({
+        id: `att_${attempt}`,
+        subscriptionId: 'sub_1',
+        eventId: 'evt_1',
+        eventType: 'test',
+        attempt,
+        success: attempt === 5,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    expect(await store.countAttempts('sub_1')).toBe(3);
+    const page = await store.findAttempts('sub_1', 0, 2);
+    expect(page.map(entry => entry.attempt)).toEqual([5, 4]);
+    expect(await store.findAttempts('sub_2', 0, 2)).toEqual([]);
+  });
+});
+
+describe('RedisWebhookSubscriptionStore', () => {
+  it('should namespace subscription keys', async () => {
+    const redis = createRedisMock();
+    const store = new RedisWebhookSubscriptionStore(redis as unknown as RedisService);
+
+    await store.save(subscription('sub_1'));
+
+    expect(redis.values.has(`${WEBHOOK_SUBSCRIPTION_PREFIX}sub_1`)).toBe(true);
+  });
+
+  it('should read subscriptions that Upstash hands back already deserialized', async () => {
+    const redis = createRedisMock();
+    redis.set.mockImplementation(async (key: string, value: any) => {
+      redis.values.set(key, JSON.parse(value));
+      return true;
+    });
+    const store = new RedisWebhookSubscriptionStore(redis as unknown as RedisService);
+    await store.save(subscription('sub_1'));
+
+    expect(await store.findById('sub_1')).toEqual(expect.objectContaining({ id: 'sub_1' }));
+    expect(await store.findAll()).toEqual([expect.objectContaining({ id: 'sub_1' })]);
+  });
+
+  it('should throw when the subscription cannot be persisted', async () => {
+    const redis = createRedisMock();
+    redis.set.mockResolvedValueOnce(false);
+    const store = new RedisWebhookSubscriptionStore(redis as unknown as RedisService);
+
+    await expect(store.save(subscription('sub_1'))).rejects.toThrow(
+      'Failed to persist webhook subscription sub_1'
+    );
+  });
+});
@@ -0,0 +1,205 @@
+import { Injectable } from '@nestjs/common';
+import { RedisStorage } from '../../../core/common/redis.storage';
+import { RedisService } from '../../../core/shared/services/redis.service';
+import {
+  WEBHOOK_ATTEMPTS_PREFIX,
+  WEBHOOK_DELIVERY_STATE_PREFIX,
+  WEBHOOK_SUBSCRIPTION_PREFIX,
+} from './webhook.constants';
+import { WebhookDeliveryAttempt, WebhookDeliveryState, WebhookSubscription } from './webhook.types';
+
+const DEFAULT_HISTORY_LIMIT = 100;
+
+// Health and last delivery live in the delivery state, not the saved subscription
+function withoutDeliveryState(subscription: WebhookSubscription): WebhookSubscription {
+  return { ...subscription, health: undefined, lastDelivery: undefined };
+}
+
+function withDeliveryState(
+  subscription: WebhookSubscription,
+  state: WebhookDeliveryState | null | undefined
+): WebhookSubscription {
+  return state ? { ...subscription, ...state } : subscription;
+}
+
+export interface WebhookSubscriptionStore {
+  // Saves everything but the delivery state, which `saveDeliveryState` owns
+  save(subscription: WebhookSubscription): Promise<WebhookSubscription>;
+  saveDeliveryState(subscriptionId: string, state: WebhookDeliveryState): Promise<void>;
+  findById(subscriptionId: string): Promise<WebhookSubscription | null>;
+  findAll(): Promise<WebhookSubscription[]>;
+  remove(subscriptionId: string): Promise<boolean>;
+
+  // Delivery attempt history, newest first
+  recordAttempt(attempt: WebhookDeliveryAttempt): Promise<void>;
+  findAttempts(
+    subscriptionId: string,
+    offset: number,
+    limit: number,
+  ): Promise<WebhookDeliveryAttempt[]>;
+  countAttempts(subscriptionId: string): Promise<number>;
+}
+
+/**
+ * Process-local store. Subscriptions are lost on restart and not shared
+ * between instances, so this is only meant for tests and local development.
+ */
+export class InMemoryWebhookSubscriptionStore implements WebhookSubscriptionStore {
+  private readonly subscriptions = new Map<string, WebhookSubscription>();
+  private readonly deliveryStates = new Map<string, WebhookDeliveryState>();
+  private readonly attempts = new Map<string, WebhookDeliveryAttempt[]>();
+
+  constructor(private readonly historyLimit: number = DEFAULT_HISTORY_LIMIT) {}
+
+  async save(subscription: WebhookSubscription): Promise<WebhookSubscription> {
+    this.subscriptions.set(subscription.id, withoutDeliveryState(subscription));
+    return subscription;
+  }
+
+  async saveDeliveryState(subscriptionId: string, state: WebhookDeliveryState): Promise<void> {
+    this.deliveryStates.set(subscriptionId, state);
+  }
+
+  async findById(subscriptionId: string): Promise<WebhookSubscription | null> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    return subscription ? withDeliveryState(subscription, this.deliveryStates.get(subscriptionId)) : null;
+  }
+
+  async findAll(): Promise<WebhookSubscription[]> {
+    return Array.from(this.subscriptions.values()).map(subscription =>
+      withDeliveryState(subscription, this.deliveryStates.get(subscription.id))
+    );
+  }
+
+  async remove(subscriptionId: string): Promise<boolean> {
+    this.attempts.delete(subscriptionId);
+    this.deliveryStates.delete(subscriptionId);
+    return this.subscriptions.delete(subscriptionId);
+  }
+
+  async recordAttempt(attempt: WebhookDeliveryAttempt): Promise<void> {
+    const history = this.attempts.get(attempt.subscriptionId) ?? [];
+    history.unshift(attempt);
+    this.attempts.set(attempt.subscriptionId, history.slice(0, this.historyLimit));
+  }
+
+  async findAttempts(
+    subscriptionId: string,
+    offset: number,
+    limit: number,
+  ): Promise<WebhookDeliveryAttempt[]> {
+    return (this.attempts.get(subscriptionId) ?? []).slice(offset, offset + limit);
+  }
+
+  async countAttempts(subscriptionId: string): Promise<number> {
+    return this.attempts.get(subscriptionId)?.length ?? 0;
+  }
+}
+
+@Injectable()
+export class RedisWebhookSubscriptionStore
+  extends RedisStorage<WebhookSubscription>
+  implements WebhookSubscriptionStore
+{
+  constructor(
+    redisService: RedisService,
+    private readonly historyLimit: number = DEFAULT_HISTORY_LIMIT,
+  ) {
+    super(redisService);
+  }
+
+  private getSubscriptionKey(subscriptionId: string): string {
+    return `${WEBHOOK_SUBSCRIPTION_PREFIX}${subscriptionId}`;
+  }
+
+  private getAttemptsKey(subscriptionId: string): string {
+    return `${WEBHOOK_ATTEMPTS_PREFIX}${subscriptionId}`;
+  }
+
+  private getDeliveryStateKey(subscriptionId: string): string {
+    return `${WEBHOOK_DELIVERY_STATE_PREFIX}${subscriptionId}`;
+  }
+
+  private async findDeliveryState(subscriptionId: string): Promise<WebhookDeliveryState | null> {
+    try {
+      const value = await this.redisService.get(this.getDeliveryStateKey(subscriptionId));
+      if (!value) return null;
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(subscription: WebhookSubscription): Promise<WebhookSubscription> {
+    const saved = await this.set(
+      this.getSubscriptionKey(subscription.id),
+      withoutDeliveryState(subscription)
+    );
+    if (!saved) {
+      throw new Error(`Failed to persist webhook subscription ${subscription.id}`);
+    }
+    return subscription;
+  }
+
+  async saveDeliveryState(subscriptionId: string, state: WebhookDeliveryState): Promise<void> {
+    const saved = await this.redisService.set(
+      this.getDeliveryStateKey(subscriptionId),
+      JSON.stringify(state)
+    );
+    if (!saved) {
+      throw new Error(`Failed to persist delivery state for webhook subscription ${subscriptionId}`);
+    }
+  }
+
+  async findById(subscriptionId: string): Promise<WebhookSubscription | null> {
+    const subscription = await this.get(this.getSubscriptionKey(subscriptionId));
+    if (!subscription) return null;
+    return withDeliveryState(subscription, await this.findDeliveryState(subscriptionId));
+  }
+
+  async findAll(): Promise<WebhookSubscription[]> {
+    const subscriptions = await this.getAll(`${WEBHOOK_SUBSCRIPTION_PREFIX}*`);
+    return Promise.all(
+      subscriptions.map(async subscription =>
+        withDeliveryState(subscription, await this.findDeliveryState(subscription.id))
+      )
+    );
+  }
+
+  async remove(subscriptionId: string): Promise<boolean> {
+    await this.redisService.del(this.getAttemptsKey(subscriptionId));
+    await this.redisService.del(this.getDeliveryStateKey(subscriptionId));
+    return this.delete(this.getSubscriptionKey(subscriptionId));
+  }
+
+  async recordAttempt(attempt: WebhookDeliveryAttempt): Promise<void> {
+    const key = this.getAttemptsKey(attempt.subscriptionId);
+    await this.redisService.lpush(key, JSON.stringify(attempt));
+    await this.redisService.ltrim(key, 0, this.historyLimit - 1);
+  }
+
+  async findAttempts(
+    subscriptionId: string,
+    offset: number,
+    limit: number,
+  ): Promise<WebhookDeliveryAttempt[]> {
+    const values = await this.redisService.lrange(
+      this.getAttemptsKey(subscriptionId),
+      offset,
+      offset + limit - 1,
+    );
+
+    return values.reduce<WebhookDeliveryAttempt[]>((attempts, value) => {
+      try {
+        attempts.push(typeof value === 'string' ? JSON.parse(value) : value);
+      } catch {
+        // Skip malformed entries
+      }
+      return attempts;
+    }, []);
+  }
+
+  async countAttempts(subscriptionId: string): Promise<number> {
+    return this.redisService.llen(this.getAttemptsKey(subscriptionId));
+  }
+}
@@ -1,18 +1,116 @@
 import { Request, Response } from 'express';
 
 export interface WebhookConfig {
-  // Webhook server config
+  // Webhook server config. With `receiver: 'nest'` inbound webhooks are
+  // served by the main Nest app under `path`; 'standalone' starts a separate
+  // express server on `port`.
   secret?: string;
   path?: string;
   port?: number;
+  receiver?: 'nest' | 'standalone';
   verifySignature?: boolean;
 
+  // Signature scheme. `secrets` lists every active secret so keys can be
+  // rotated; `secret` is still honoured as a single active secret.
+  secrets?: string[];
+  signature?: WebhookSignatureOptions;
+  signatureTolerance?: number;
+
   // Webhook client config
   endpoints?: Record<string, string>;
   headers?: Record<string, string>;
   timeout?: number;
   retries?: number;
   retryDelay?: number;
+
+  // Durable delivery queue config
+  queue?: WebhookQueueConfig;
+
+  // Inbound event-id deduplication
+  idempotency?: WebhookIdempotencyConfig;
+
+  // Which URLs subscriptions and deliveries may target
+  egress?: WebhookEgressConfig;
+
+  // Parallel delivery limits for `send`
+  fanOut?: WebhookFanOutConfig;
+
+  // Endpoint health tracking and automatic deactivation
+  health?: WebhookHealthConfig;
+
+  // Where subscriptions are persisted
+  subscriptionStorage?: 'redis' | 'memory';
+  deliveryHistoryLimit?: number;
+}
+
+export interface WebhookEgressConfig {
+  enabled?: boolean;
+  allowedSchemes?: string[];
+  // Permit loopback, private, link-local and other reserved addresses
+  allowPrivateNetworks?: boolean;
+  // Exact hosts or `*.example.com` patterns. A non-empty allow-list rejects
+  // every other host.
+  allowedHosts?: string[];
+  deniedHosts?: string[];
+}
+
+export interface WebhookFanOutConfig {
+  // Deliveries in flight at once for a single send
+  concurrency?: number;
+  // Deliveries in flight at once to one host, across all sends
+  perHostConcurrency?: number;
+}
+
+export interface WebhookHealthConfig {
+  enabled?: boolean;
+  // Number of most recent deliveries the success rate is computed over
+  window?: number;
+  maxConsecutiveFailures?: number;
+  // Failure rate (0-1) over the window at which a subscription is disabled
+  failureRateThreshold?: number;
+  // Deliveries needed in the window before the failure rate is considered
+  minDeliveries?: number;
+  onSubscriptionDisabled?: WebhookSubscriptionDisabledListener;
+}
+
+export type WebhookSubscriptionDisabledListener = (
+  subscription: WebhookSubscription,
+  reason: string
+) => void | Promise<void>;
+
+export interface WebhookSubscriptionHealth {
+  consecutiveFailures: number;
+  // Outcomes of the most recent deliveries, oldest first
+  recent: boolean[];
+  successRate: number;
+  disabledAt?: string;
+  disabledReason?: string;
+}
+
+export interface WebhookQueueConfig {
+  enabled?: boolean;
+  pollInterval?: number;
+  batchSize?: number;
+  maxAttempts?: number;
+  backoffBase?: number;
+  backoffMax?: number;
+  visibilityTimeout?: number;
+}
+
+export interface WebhookIdempotencyConfig {
+  enabled?: boolean;
+  // Seconds a processed event id is remembered
+  ttl?: number;
+  // Seconds an in-progress claim is held before another delivery may retry
+  processingTimeout?: number;
+}
+
+export interface WebhookIdempotencyRecord {
+  status: 'processing' | 'completed';
+  statusCode?: number;
+  body?: any;
+  createdAt: string;
+  completedAt?: string;
 }
 
 export interface WebhookEvent<T = any> {
@@ -24,18 +122,28 @@ export interface WebhookEvent<T = any> {
 }
 
 export interface WebhookDeliveryResult {
+  // Which subscription the result is for, on results returned by `send`
+  subscriptionId?: string;
   success: boolean;
   statusCode?: number;
+  // Parsed JSON, or the raw text when the body is not JSON
   response?: any;
+  responseSnippet?: string;
   error?: string;
   retries?: number;
   timestamp: string;
+  deliveryId?: string;
+  nextAttemptAt?: string;
+  deadLettered?: boolean;
+  latencyMs?: number;
 }
 
 export interface WebhookHandler<T = any> {
   type: string;
   handler: (event: WebhookEvent<T>, req: Request, res: Response) => Promise<void>;
   verifySignature?: boolean;
+  // Sub-path under the receiver path this handler is served on, e.g. 'stripe'
+  path?: string;
 }
 
 export interface WebhookDeliveryOptions {
@@ -45,12 +153,35 @@ export interface WebhookDeliveryOptions {
   headers?: Record<string, string>;
 }
 
+export interface WebhookSendOptions extends WebhookDeliveryOptions {
+  // When false, `send` resolves with delivery handles once deliveries are
+  // scheduled instead of waiting for their results
+  wait?: boolean;
+}
+
+export interface WebhookDeliveryHandle {
+  subscriptionId: string;
+  eventId: string;
+  // Queue job id, when deliveries go through the durable queue
+  deliveryId?: string;
+  result: Promise<WebhookDeliveryResult | undefined>;
+}
+
 export interface WebhookSubscription {
   id: string;
   url: string;
+  // Event types or wildcard patterns, e.g. 'chat.*' or '*'
   events: string[];
   active: boolean;
+  ownerId?: string;
+  description?: string;
+  // Every filter must match `event.data` for the event to be delivered
+  filters?: WebhookEventFilter[];
+  // Paths into `event.data` to deliver; the full payload when omitted
+  fields?: string[];
+  health?: WebhookSubscriptionHealth;
   createdAt: string;
+  updatedAt?: string;
   lastDelivery?: {
     timestamp: string;
     success: boolean;
@@ -58,8 +189,78 @@ export interface WebhookSubscription {
   };
 }
 
+/**
+ * The parts of a subscription that deliveries update. Stores keep them apart
+ * from the rest, so a delivery and an edit to the subscription never
+ * overwrite each other's changes.
+ */
+export type WebhookDeliveryState = Pick<WebhookSubscription, 'health' | 'lastDelivery'>;
+
+export interface WebhookSubscriptionOptions {
+  ownerId?: string;
+  description?: string;
+  filters?: WebhookEventFilter[];
+  fields?: string[];
+}
+
+/**
+ * A condition on one value in `event.data`, addressed with a JSONPath-style
+ * path such as `$.roomId` or `$.room.tags[0]`. When the value is an array,
+ * `equals` and `in` match if any element matches.
+ */
+export interface WebhookEventFilter {
+  path: string;
+  equals?: string | number | boolean | null;
+  in?: Array<string | number | boolean | null>;
+  exists?: boolean;
+}
+
+export class WebhookSubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookSubscriptionError';
+  }
+}
+
+export class WebhookEgressError extends Error {
+  constructor(message: string, public readonly url: string) {
+    super(message);
+    this.name = 'WebhookEgressError';
+  }
+}
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  subscriptionId: string;
+  eventId: string;
+  eventType: string;
+  deliveryId?: string;
+  attempt: number;
+  success: boolean;
+  statusCode?: number;
+  latencyMs?: number;
+  responseSnippet?: string;
+  error?: string;
+  timestamp: string;
+}
+
 export interface WebhookSignatureOptions {
   algorithm?: 'sha256' | 'sha512';
   header?: string;
   prefix?: string;
-} 
\ No newline at end of file
+} 
+
+export interface WebhookDeliveryJob<T = any> {
+  id: string;
+  subscriptionId: string;
+  url: string;
+  event: WebhookEvent<T>;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  createdAt: string;
+  updatedAt: string;
+  lastError?: string;
+  lastStatusCode?: number;
+  options?: WebhookDeliveryOptions;
+}
@@ -4,7 +4,10 @@ import { Logger } from '@nestjs/common';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create(AppModule, {
+    // Inbound webhook signatures are verified against the raw body
+    rawBody: true,
+  });
   
   // Enable CORS
   app.enableCors({
@@ -12,6 +15,9 @@ async function bootstrap() {
     credentials: true,
   });
 
+  // Lets open SSE streams close with a retry hint when the process is stopped
+  app.enableShutdownHooks();
+
   const port = process.env.PORT || 3001;
   await app.listen(port);
   logger.log(`Application is running on: http://localhost:${port}`);
@@ -1,17 +1,33 @@
-import { Module, NestModule, MiddlewareConsumer, RequestMethod } from '@nestjs/common';
+import { Module, NestModule, MiddlewareConsumer, RequestMethod, OnModuleInit, Optional } from '@nestjs/common';
 import { ChatController } from './controllers/chat.controller';
 import { ChatService } from './services/chat.service';
+import { ChatRoomStore } from './services/chat-room.store';
 import { MessagingModule } from '../../core/messaging/messaging.module';
 import { AuthModule } from '../auth/auth.module';
 import { AuthMiddleware } from '../auth/middleware/auth.middleware';
+import { TopicAclService } from '../../libs/messaging/acl';
 
 @Module({
   imports: [MessagingModule, AuthModule],
   controllers: [ChatController],
-  providers: [ChatService],
+  providers: [ChatService, ChatRoomStore],
   exports: [ChatService]
 })
-export class ChatModule implements NestModule {
+export class ChatModule implements NestModule, OnModuleInit {
+  constructor(
+    private readonly chatService: ChatService,
+    @Optional() private readonly topicAcl?: TopicAclService
+  ) {}
+
+  onModuleInit() {
+    // Room channels are only open to the room's members. Room ids are the
+    // full channel name, so the topic is looked up rather than the capture.
+    this.topicAcl?.addRule({
+      pattern: 'chat-room-{roomId}',
+      check: ({ subject, topic }) => this.chatService.isRoomMember(topic, subject.userId!),
+    });
+  }
+
   configure(consumer: MiddlewareConsumer) {
     consumer
       .apply(AuthMiddleware)
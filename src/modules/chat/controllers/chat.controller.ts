@@ -1,6 +1,31 @@
-import { Controller, Post, Body, Get, Param, ValidationPipe, HttpCode, HttpStatus, Request } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  Get,
+  Patch,
+  Put,
+  Delete,
+  Param,
+  Query,
+  ValidationPipe,
+  HttpCode,
+  HttpStatus,
+  Request,
+  ParseBoolPipe,
+  DefaultValuePipe,
+} from '@nestjs/common';
 import { ChatService } from '../services/chat.service';
-import { CreateRoomDto, JoinRoomDto, ChatMessagePayloadDto } from '../dto/chat.dto';
+import {
+  CreateRoomDto,
+  JoinRoomDto,
+  UpdateRoomDto,
+  RoomUserDto,
+  UpdateRoomMemberDto,
+  ChatMessagePayloadDto,
+  EditChatMessageDto,
+} from '../dto/chat.dto';
+import { ChannelRetentionDto } from '../../../core/messaging/dto/message.dto';
 import { User } from '@supabase/supabase-js';
 
 interface AuthenticatedRequest extends Request {
@@ -19,7 +44,7 @@ export class ChatController {
   ) {
     const room = await this.chatService.createRoom({
       ...createRoomDto,
-      participants: [...(createRoomDto.participants || []), req.user.id]
+      ownerId: req.user.id
     });
     return {
       success: true,
@@ -28,6 +53,18 @@ export class ChatController {
     };
   }
 
+  @Get('rooms')
+  async listRooms(
+    @Request() req: AuthenticatedRequest,
+    @Query('includeArchived', new DefaultValuePipe(false), ParseBoolPipe) includeArchived: boolean
+  ) {
+    const rooms = await this.chatService.listRooms(req.user.id, includeArchived);
+    return {
+      success: true,
+      data: rooms
+    };
+  }
+
   @Post('rooms/join')
   @HttpCode(HttpStatus.OK)
   async joinRoom(
@@ -79,9 +116,167 @@ export class ChatController {
     };
   }
 
+  @Patch('messages/:messageId')
+  async editMessage(
+    @Request() req: AuthenticatedRequest,
+    @Param('messageId') messageId: string,
+    @Body(ValidationPipe) editDto: EditChatMessageDto
+  ) {
+    const message = await this.chatService.editMessage(messageId, req.user.id, editDto);
+    return {
+      success: true,
+      message: 'Message edited successfully',
+      data: message
+    };
+  }
+
+  @Delete('messages/:messageId')
+  @HttpCode(HttpStatus.OK)
+  async deleteMessage(@Request() req: AuthenticatedRequest, @Param('messageId') messageId: string) {
+    const message = await this.chatService.deleteMessage(messageId, req.user.id);
+    return {
+      success: true,
+      message: 'Message deleted successfully',
+      data: message
+    };
+  }
+
+  @Get('rooms/:roomId')
+  async getRoom(@Request() req: AuthenticatedRequest, @Param('roomId') roomId: string) {
+    const room = await this.chatService.getRoom(roomId, req.user.id);
+    return {
+      success: true,
+      data: room
+    };
+  }
+
+  @Patch('rooms/:roomId')
+  async updateRoom(
+    @Request() req: AuthenticatedRequest,
+    @Param('roomId') roomId: string,
+    @Body(ValidationPipe) updateRoomDto: UpdateRoomDto
+  ) {
+    const room = await this.chatService.updateRoom(roomId, req.user.id, updateRoomDto);
+    return {
+      success: true,
+      message: 'Chat room updated successfully',
+      data: room
+    };
+  }
+
+  @Post('rooms/:roomId/archive')
+  @HttpCode(HttpStatus.OK)
+  async archiveRoom(@Request() req: AuthenticatedRequest, @Param('roomId') roomId: string) {
+    const room = await this.chatService.archiveRoom(roomId, req.user.id);
+    return {
+      success: true,
+      message: 'Chat room archived successfully',
+      data: room
+    };
+  }
+
+  @Delete('rooms/:roomId')
+  @HttpCode(HttpStatus.OK)
+  async deleteRoom(@Request() req: AuthenticatedRequest, @Param('roomId') roomId: string) {
+    await this.chatService.deleteRoom(roomId, req.user.id);
+    return {
+      success: true,
+      message: 'Chat room deleted successfully'
+    };
+  }
+
+  @Put('rooms/:roomId/retention')
+  async setRoomRetention(
+    @Request() req: AuthenticatedRequest,
+    @Param('roomId') roomId: string,
+    @Body(ValidationPipe) retentionDto: ChannelRetentionDto
+  ) {
+    const retention = await this.chatService.setRoomRetention(roomId, req.user.id, retentionDto.seconds);
+    return {
+      success: true,
+      message: 'Room retention updated successfully',
+      data: retention
+    };
+  }
+
+  @Post('rooms/:roomId/invites')
+  @HttpCode(HttpStatus.OK)
+  async inviteUser(
+    @Request() req: AuthenticatedRequest,
+    @Param('roomId') roomId: string,
+    @Body(ValidationPipe) inviteDto: RoomUserDto
+  ) {
+    const room = await this.chatService.inviteUser(roomId, req.user.id, inviteDto.userId);
+    return {
+      success: true,
+      message: 'User invited successfully',
+      data: room
+    };
+  }
+
+  @Patch('rooms/:roomId/members/:userId')
+  async updateMember(
+    @Request() req: AuthenticatedRequest,
+    @Param('roomId') roomId: string,
+    @Param('userId') userId: string,
+    @Body(ValidationPipe) updateMemberDto: UpdateRoomMemberDto
+  ) {
+    const room = await this.chatService.updateMemberRole(roomId, req.user.id, userId, updateMemberDto);
+    return {
+      success: true,
+      message: 'Member role updated successfully',
+      data: room
+    };
+  }
+
+  @Delete('rooms/:roomId/members/:userId')
+  @HttpCode(HttpStatus.OK)
+  async kickUser(
+    @Request() req: AuthenticatedRequest,
+    @Param('roomId') roomId: string,
+    @Param('userId') userId: string
+  ) {
+    const room = await this.chatService.kickUser(roomId, req.user.id, userId);
+    return {
+      success: true,
+      message: 'Member removed successfully',
+      data: room
+    };
+  }
+
+  @Post('rooms/:roomId/bans')
+  @HttpCode(HttpStatus.OK)
+  async banUser(
+    @Request() req: AuthenticatedRequest,
+    @Param('roomId') roomId: string,
+    @Body(ValidationPipe) banDto: RoomUserDto
+  ) {
+    const room = await this.chatService.banUser(roomId, req.user.id, banDto.userId);
+    return {
+      success: true,
+      message: 'User banned successfully',
+      data: room
+    };
+  }
+
+  @Delete('rooms/:roomId/bans/:userId')
+  @HttpCode(HttpStatus.OK)
+  async unbanUser(
+    @Request() req: AuthenticatedRequest,
+    @Param('roomId') roomId: string,
+    @Param('userId') userId: string
+  ) {
+    const room = await this.chatService.unbanUser(roomId, req.user.id, userId);
+    return {
+      success: true,
+      message: 'User unbanned successfully',
+      data: room
+    };
+  }
+
   @Get('rooms/:roomId/participants')
-  async getRoomParticipants(@Param('roomId') roomId: string) {
-    const participants = await this.chatService.getRoomParticipants(roomId);
+  async getRoomParticipants(@Request() req: AuthenticatedRequest, @Param('roomId') roomId: string) {
+    const participants = await this.chatService.getRoomParticipants(roomId, req.user.id);
     return {
       success: true,
       data: participants
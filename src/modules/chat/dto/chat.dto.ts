@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsArray, ValidateNested } from 'class-validator';
+import { IsString, IsOptional, IsArray, IsIn, MaxLength, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 import { MessageDto } from '../../../core/messaging/dto/message.dto';
 
@@ -14,6 +14,34 @@ export class CreateRoomDto {
   @IsString({ each: true })
   @IsOptional()
   participants?: string[];
+
+  @IsIn(['open', 'invite'])
+  @IsOptional()
+  joinPolicy?: 'open' | 'invite';
+}
+
+export class UpdateRoomDto {
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsIn(['open', 'invite'])
+  @IsOptional()
+  joinPolicy?: 'open' | 'invite';
+}
+
+export class RoomUserDto {
+  @IsString()
+  userId: string;
+}
+
+export class UpdateRoomMemberDto {
+  @IsIn(['moderator', 'member'])
+  role: 'moderator' | 'member';
 }
 
 export class JoinRoomDto {
@@ -33,4 +61,15 @@ export class ChatMessagePayloadDto extends MessageDto {
 
   @IsString()
   senderId: string;
-} 
\ No newline at end of file
+
+  // Retries that reuse it return the first message instead of sending again
+  @IsString()
+  @MaxLength(128)
+  @IsOptional()
+  clientMessageId?: string;
+}
+
+export class EditChatMessageDto {
+  @IsString()
+  content: string;
+}
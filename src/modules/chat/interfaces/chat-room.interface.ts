@@ -0,0 +1,30 @@
+export type ChatRoomRole = 'owner' | 'moderator' | 'member';
+
+// 'open' rooms can be joined by anyone with the id, 'invite' rooms only by invited users
+export type ChatRoomJoinPolicy = 'open' | 'invite';
+
+export interface ChatRoomMember {
+  userId: string;
+  role: ChatRoomRole;
+  joinedAt: string;
+}
+
+export interface ChatRoom {
+  // Also the room's messaging channel
+  id: string;
+  name: string;
+  description?: string;
+  ownerId: string;
+  members: ChatRoomMember[];
+  joinPolicy: ChatRoomJoinPolicy;
+  // Pending invites; an invite is used up when the user joins
+  invitedUserIds: string[];
+  // Banned users cannot join, whatever the policy or invites
+  bannedUserIds: string[];
+  // Archived rooms keep their history but accept no new members or messages
+  archived: boolean;
+  archivedAt?: string;
+  createdAt: string;
+  // Last change to the details above; membership changes do not touch it
+  updatedAt: string;
+}
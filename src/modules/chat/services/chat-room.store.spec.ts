@@ -0,0 +1,234 @@
+import { RedisService } from '../../../core/shared/services/redis.service';
+import { ChatRoomStore } from './chat-room.store';
+import { ChatRoom } from '../interfaces/chat-room.interface';
+
+const createRedisMock = () => {
+  const values = new Map<string, any>();
+  const hashes = new Map<string, Map<string, any>>();
+  const sets = new Map<string, Set<string>>();
+  const sortedSets = new Map<string, Map<string, number>>();
+  const hash = (key: string) => hashes.get(key) ?? hashes.set(key, new Map()).get(key)!;
+  const set = (key: string) => sets.get(key) ?? sets.set(key, new Set()).get(key)!;
+
+  return {
+    values,
+    hashes,
+    sets,
+    get: jest.fn(async (key: string) => values.get(key) ?? null),
+    set: jest.fn(async (key: string, value: any) => {
+      values.set(key, value);
+      return true;
+    }),
+    del: jest.fn(
+      async (key: string) => values.delete(key) || hashes.delete(key) || sets.delete(key)
+    ),
+    hset: jest.fn(async (key: string, value: Record<string, any>) => {
+      Object.entries(value).forEach(([field, entry]) => hash(key).set(field, entry));
+      return true;
+    }),
+    hsetnx: jest.fn(async (key: string, field: string, value: any) => {
+      if (hash(key).has(field)) return false;
+      hash(key).set(field, value);
+      return true;
+    }),
+    hdel: jest.fn(async (key: string, field: string) => (hashes.get(key)?.delete(field) ? 1 : 0)),
+    hexists: jest.fn(async (key: string, field: string) => hashes.get(key)?.has(field) ?? false),
+    hgetall: jest.fn(async (key: string) => Object.fromEntries(hashes.get(key) ?? [])),
+    sadd: jest.fn(async (key: string, member: string) => {
+      set(key).add(member);
+      return true;
+    }),
+    srem: jest.fn(async (key: string, member: string) => (sets.get(key)?.delete(member) ? 1 : 0)),
+    sismember: jest.fn(async (key: string, member: string) => sets.get(key)?.has(member) ?? false),
+    smembers: jest.fn(async (key: string) => Array.from(sets.get(key) ?? [])),
+    zadd: jest.fn(async (key: string, score: number, member: string) => {
+      sortedSets.set(key, (sortedSets.get(key) ?? new Map()).set(member, score));
+      return true;
+    }),
+    zrange: jest.fn(async (key: string) =>
+      Array.from(sortedSets.get(key) ?? [])
+        .sort(([, a], [, b]) => a - b)
+        .map(([member]) => member)
+    ),
+    zrem: jest.fn(async (key: string, member: string) =>
+      sortedSets.get(key)?.delete(member) ? 1 : 0
+    ),
+  };
+};
+
+const room = (id: string, createdAt: string): ChatRoom => ({
+  id,
+  name: id,
+  ownerId: 'owner',
+  members: [],
+  joinPolicy: 'open',
+  invitedUserIds: [],
+  bannedUserIds: [],
+  archived: false,
+  createdAt,
+  updatedAt: createdAt,
+});
+
+describe('ChatRoomStore', () => {
+  const createdAt = '2026-01-01T00:00:00.000Z';
+  let redis: ReturnType<typeof createRedisMock>;
+  let store: ChatRoomStore;
+
+  beforeEach(() => {
+    redis = createRedisMock();
+    store = new ChatRoomStore(redis as unknown as RedisService);
+  });
+
+  it('should save room details and list rooms by creation time', async () => {
+    const later = room('chat-room-b', '2026-01-02T00:00:00.000Z');
+    const earlier = room('chat-room-a', createdAt);
+
+    await store.save(later);
+    await store.save(earlier);
+
+    expect(await store.findById('chat-room-b')).toEqual(later);
+    expect(await store.findAll()).toEqual([earlier, later]);
+    expect(await store.findById('chat-room-missing')).toBeNull();
+  });
+
+  it('should keep membership out of the room details', async () => {
+    await store.save({
+      ...room('chat-room-a', createdAt),
+      members: [{ userId: 'u1', role: 'member', joinedAt: createdAt }],
+      invitedUserIds: ['u2'],
+    });
+
+    expect(JSON.parse(redis.values.get('chat:room:chat-room-a'))).not.toHaveProperty('members');
+    expect(await store.findById('chat-room-a')).toMatchObject({ members: [], invitedUserIds: [] });
+  });
+
+  it('should read rooms Upstash hands back already parsed', async () => {
+    const saved = room('chat-room-a', createdAt);
+    const { members, invitedUserIds, bannedUserIds, ...details } = saved;
+    redis.values.set('chat:room:chat-room-a', details);
+
+    expect(await store.findById('chat-room-a')).toEqual({
+      ...details,
+      members,
+      invitedUserIds,
+      bannedUserIds,
+    });
+  });
+
+  it('should fail when a room cannot be persisted', async () => {
+    redis.set.mockResolvedValueOnce(false);
+
+    await expect(store.save(room('chat-room-a', createdAt))).rejects.toThrow(
+      'Failed to persist chat room chat-room-a'
+    );
+    expect(await store.findAll()).toEqual([]);
+  });
+
+  it('should build members from the member and role entries', async () => {
+    await store.save(room('chat-room-a', createdAt));
+    await store.addMember('chat-room-a', 'u1', '2026-01-02T00:00:00.000Z');
+    await store.addMember('chat-room-a', 'owner', createdAt);
+    await store.addMember('chat-room-a', 'u2', '2026-01-02T00:00:00.000Z');
+    await store.setRole('chat-room-a', 'u2', 'moderator');
+
+    expect((await store.findById('chat-room-a'))!.members).toEqual([
+      { userId: 'owner', role: 'owner', joinedAt: createdAt },
+      { userId: 'u1', role: 'member', joinedAt: '2026-01-02T00:00:00.000Z' },
+      { userId: 'u2', role: 'moderator', joinedAt: '2026-01-02T00:00:00.000Z' },
+    ]);
+  });
+
+  it('should keep concurrent joins and removals apart', async () => {
+    await store.save(room('chat-room-a', createdAt));
+    await Promise.all(
+      ['u1', 'u2', 'u3'].map(userId => store.addMember('chat-room-a', userId, createdAt))
+    );
+
+    await Promise.all([
+      store.removeMember('chat-room-a', 'u1'),
+      store.addMember('chat-room-a', 'u4', createdAt),
+      store.setRole('chat-room-a', 'u2', 'moderator'),
+    ]);
+
+    const saved = await store.findById('chat-room-a');
+    expect(saved!.members.map(member => [member.userId, member.role])).toEqual([
+      ['u2', 'moderator'],
+      ['u3', 'member'],
+      ['u4', 'member'],
+    ]);
+    expect(await store.isMember('chat-room-a', 'u1')).toBe(false);
+    expect(await store.isMember('chat-room-a', 'u4')).toBe(true);
+  });
+
+  it('should keep the first join time when a member joins again', async () => {
+    expect(await store.addMember('chat-room-a', 'u1', createdAt)).toBe(true);
+    expect(await store.addMember('chat-room-a', 'u1', '2026-01-02T00:00:00.000Z')).toBe(false);
+
+    expect(redis.hashes.get('chat:room:chat-room-a:members')!.get('u1')).toBe(createdAt);
+  });
+
+  it('should not give roles to non-members, or keep them after removal', async () => {
+    await store.save(room('chat-room-a', createdAt));
+    expect(await store.setRole('chat-room-a', 'u1', 'moderator')).toBe(false);
+
+    await store.addMember('chat-room-a', 'u1', createdAt);
+    expect(await store.setRole('chat-room-a', 'u1', 'moderator')).toBe(true);
+    await store.removeMember('chat-room-a', 'u1');
+    await store.addMember('chat-room-a', 'u1', createdAt);
+
+    expect((await store.findById('chat-room-a'))!.members).toEqual([
+      { userId: 'u1', role: 'member', joinedAt: createdAt },
+    ]);
+  });
+
+  it('should let each invite be used once', async () => {
+    await store.addInvite('chat-room-a', 'u1');
+
+    const removed = await Promise.all([
+      store.removeInvite('chat-room-a', 'u1'),
+      store.removeInvite('chat-room-a', 'u1'),
+    ]);
+    expect(removed.sort()).toEqual([false, true]);
+  });
+
+  it('should track bans', async () => {
+    await store.addBan('chat-room-a', 'u1');
+    expect(await store.isBanned('chat-room-a', 'u1')).toBe(true);
+
+    await store.removeBan('chat-room-a', 'u1');
+    expect(await store.isBanned('chat-room-a', 'u1')).toBe(false);
+  });
+
+  it('should list a user\'s rooms by join time', async () => {
+    await store.save(room('chat-room-a', createdAt));
+    await store.save(room('chat-room-b', createdAt));
+    await store.addMember('chat-room-b', 'u1', '2026-01-02T00:00:00.000Z');
+    await store.addMember('chat-room-a', 'u1', '2026-01-03T00:00:00.000Z');
+
+    expect((await store.findByMember('u1')).map(entry => entry.id)).toEqual([
+      'chat-room-b',
+      'chat-room-a',
+    ]);
+
+    await store.removeMember('chat-room-b', 'u1');
+    expect((await store.findByMember('u1')).map(entry => entry.id)).toEqual(['chat-room-a']);
+  });
+
+  it('should remove a room with its membership keys and indexes', async () => {
+    await store.save(room('chat-room-a', createdAt));
+    await store.addMember('chat-room-a', 'u1', createdAt);
+    await store.setRole('chat-room-a', 'u1', 'moderator');
+    await store.addInvite('chat-room-a', 'u2');
+    await store.addBan('chat-room-a', 'u3');
+
+    expect(await store.remove((await store.findById('chat-room-a'))!)).toBe(true);
+
+    expect(await store.findById('chat-room-a')).toBeNull();
+    expect(await store.findAll()).toEqual([]);
+    expect(await store.findByMember('u1')).toEqual([]);
+    expect(await store.isMember('chat-room-a', 'u1')).toBe(false);
+    expect(redis.hashes.has('chat:room:chat-room-a:roles')).toBe(false);
+    expect(redis.sets.has('chat:room:chat-room-a:invites')).toBe(false);
+    expect(redis.sets.has('chat:room:chat-room-a:bans')).toBe(false);
+  });
+});
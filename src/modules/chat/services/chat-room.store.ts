@@ -0,0 +1,194 @@
+import { Injectable } from '@nestjs/common';
+import { RedisStorage } from '../../../core/common/redis.storage';
+import { RedisService } from '../../../core/shared/services/redis.service';
+import { ChatRoom, ChatRoomMember, ChatRoomRole } from '../interfaces/chat-room.interface';
+
+const ROOM_PREFIX = 'chat:room:';
+// Room ids by creation time, and per user by join time, so listing never scans keys
+const ROOMS_INDEX = 'chat:rooms';
+const USER_ROOMS_PREFIX = 'chat:user:';
+
+// What the room's JSON holds; membership is kept in keys of its own
+type ChatRoomDetails = Omit<ChatRoom, 'members' | 'invitedUserIds' | 'bannedUserIds'>;
+
+/**
+ * Room details are stored as JSON. Members (with their join time), roles,
+ * invites and bans each live in their own hash or set and are changed one
+ * entry at a time, so concurrent joins, kicks and role changes never
+ * overwrite each other, and the topic ACL's membership check reads the
+ * same data the room is built from.
+ */
+@Injectable()
+export class ChatRoomStore extends RedisStorage<ChatRoomDetails> {
+  constructor(redisService: RedisService) {
+    super(redisService);
+  }
+
+  private getRoomKey(roomId: string): string {
+    return `${ROOM_PREFIX}${roomId}`;
+  }
+
+  // User id to join time
+  private getMembersKey(roomId: string): string {
+    return `${ROOM_PREFIX}${roomId}:members`;
+  }
+
+  // User id to role, for members who are not plain members; the owner is
+  // taken from the room itself
+  private getRolesKey(roomId: string): string {
+    return `${ROOM_PREFIX}${roomId}:roles`;
+  }
+
+  private getInvitesKey(roomId: string): string {
+    return `${ROOM_PREFIX}${roomId}:invites`;
+  }
+
+  private getBansKey(roomId: string): string {
+    return `${ROOM_PREFIX}${roomId}:bans`;
+  }
+
+  private getUserRoomsKey(userId: string): string {
+    return `${USER_ROOMS_PREFIX}${userId}:rooms`;
+  }
+
+  /**
+   * Saves the room's details. Members, invites and bans are not part of
+   * them; use the methods below to change those.
+   */
+  async save(room: ChatRoom): Promise<ChatRoom> {
+    const { members, invitedUserIds, bannedUserIds, ...details } = room;
+    const saved = await this.set(this.getRoomKey(room.id), details);
+    if (!saved) {
+      throw new Error(`Failed to persist chat room ${room.id}`);
+    }
+    await this.redisService.zadd(ROOMS_INDEX, Date.parse(room.createdAt), room.id);
+    return { ...details, members, invitedUserIds, bannedUserIds };
+  }
+
+  async findById(roomId: string): Promise<ChatRoom | null> {
+    const details = await this.get(this.getRoomKey(roomId));
+    if (!details) {
+      return null;
+    }
+
+    const [joined, roles, invitedUserIds, bannedUserIds] = await Promise.all([
+      this.redisService.hgetall(this.getMembersKey(roomId)),
+      this.redisService.hgetall(this.getRolesKey(roomId)),
+      this.redisService.smembers(this.getInvitesKey(roomId)),
+      this.redisService.smembers(this.getBansKey(roomId)),
+    ]);
+
+    const members: ChatRoomMember[] = Object.entries(joined).map(([userId, joinedAt]) => ({
+      userId,
+      role: userId === details.ownerId ? 'owner' : roles[userId] ?? 'member',
+      joinedAt: String(joinedAt),
+    }));
+    // By join time, with the owner ahead of members who joined with them
+    members.sort(
+      (a, b) =>
+        a.joinedAt.localeCompare(b.joinedAt) ||
+        Number(b.role === 'owner') - Number(a.role === 'owner') ||
+        a.userId.localeCompare(b.userId)
+    );
+
+    return { ...details, members, invitedUserIds, bannedUserIds };
+  }
+
+  async findByMember(userId: string): Promise<ChatRoom[]> {
+    const roomIds = await this.redisService.zrange(this.getUserRoomsKey(userId), 0, -1);
+    return this.findByIds(roomIds);
+  }
+
+  async findAll(): Promise<ChatRoom[]> {
+    return this.findByIds(await this.redisService.zrange(ROOMS_INDEX, 0, -1));
+  }
+
+  /**
+   * Adds a member with the `member` role. False if they already were one,
+   * in which case their join time and role are kept.
+   */
+  async addMember(roomId: string, userId: string, joinedAt: string): Promise<boolean> {
+    const added = await this.redisService.hsetnx(this.getMembersKey(roomId), userId, joinedAt);
+    if (added) {
+      await this.redisService.zadd(this.getUserRoomsKey(userId), Date.parse(joinedAt), roomId);
+    }
+    return added;
+  }
+
+  async removeMember(roomId: string, userId: string): Promise<void> {
+    await this.redisService.hdel(this.getMembersKey(roomId), userId);
+    await this.redisService.hdel(this.getRolesKey(roomId), userId);
+    await this.redisService.zrem(this.getUserRoomsKey(userId), roomId);
+  }
+
+  async isMember(roomId: string, userId: string): Promise<boolean> {
+    return this.redisService.hexists(this.getMembersKey(roomId), userId);
+  }
+
+  /**
+   * Gives a member a role. False if they are not a member. The membership
+   * check follows the write, so a role set while the member is being
+   * removed is taken back rather than left behind.
+   */
+  async setRole(roomId: string, userId: string, role: Exclude<ChatRoomRole, 'owner'>): Promise<boolean> {
+    const rolesKey = this.getRolesKey(roomId);
+    if (role === 'member') {
+      await this.redisService.hdel(rolesKey, userId);
+    } else {
+      await this.redisService.hset(rolesKey, { [userId]: role });
+    }
+
+    if (!(await this.isMember(roomId, userId))) {
+      await this.redisService.hdel(rolesKey, userId);
+      return false;
+    }
+    return true;
+  }
+
+  async addInvite(roomId: string, userId: string): Promise<void> {
+    await this.redisService.sadd(this.getInvitesKey(roomId), userId);
+  }
+
+  // True if there was an invite to remove; only one caller gets true for each invite
+  async removeInvite(roomId: string, userId: string): Promise<boolean> {
+    return (await this.redisService.srem(this.getInvitesKey(roomId), userId)) > 0;
+  }
+
+  async addBan(roomId: string, userId: string): Promise<void> {
+    await this.redisService.sadd(this.getBansKey(roomId), userId);
+  }
+
+  async removeBan(roomId: string, userId: string): Promise<void> {
+    await this.redisService.srem(this.getBansKey(roomId), userId);
+  }
+
+  async isBanned(roomId: string, userId: string): Promise<boolean> {
+    return this.redisService.sismember(this.getBansKey(roomId), userId);
+  }
+
+  /**
+   * Deletes the room first, so joins racing the removal fail, then its
+   * membership keys.
+   */
+  async remove(room: ChatRoom): Promise<boolean> {
+    const deleted = await this.delete(this.getRoomKey(room.id));
+    await this.redisService.zrem(ROOMS_INDEX, room.id);
+    await Promise.all(
+      room.members.map(member => this.redisService.zrem(this.getUserRoomsKey(member.userId), room.id))
+    );
+    await Promise.all(
+      [
+        this.getMembersKey(room.id),
+        this.getRolesKey(room.id),
+        this.getInvitesKey(room.id),
+        this.getBansKey(room.id),
+      ].map(key => this.redisService.del(key))
+    );
+    return deleted;
+  }
+
+  private async findByIds(roomIds: string[]): Promise<ChatRoom[]> {
+    const rooms = await Promise.all(roomIds.map(roomId => this.findById(roomId)));
+    return rooms.filter((room): room is ChatRoom => room !== null);
+  }
+}
@@ -0,0 +1,554 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ChatService } from './chat.service';
+import { ChatRoomStore } from './chat-room.store';
+import { ChatRoom, ChatRoomMember, ChatRoomRole } from '../interfaces/chat-room.interface';
+import { Message, MessagingService } from '../../../core/messaging/services/messaging.service';
+
+// Keeps rooms in memory, with membership apart from the details like the real store
+class InMemoryChatRoomStore {
+  readonly rooms = new Map<string, ChatRoom>();
+  readonly members = new Map<string, Map<string, ChatRoomMember>>();
+  readonly invites = new Map<string, Set<string>>();
+  readonly bans = new Map<string, Set<string>>();
+
+  private entries<T>(map: Map<string, T>, roomId: string, create: () => T): T {
+    return map.get(roomId) ?? map.set(roomId, create()).get(roomId)!;
+  }
+
+  async save(room: ChatRoom) {
+    this.rooms.set(room.id, structuredClone(room));
+    return room;
+  }
+
+  async findById(roomId: string): Promise<ChatRoom | null> {
+    const room = this.rooms.get(roomId);
+    if (!room) return null;
+    return structuredClone({
+      ...room,
+      members: Array.from(this.members.get(roomId)?.values() ?? []).map(member => ({
+        ...member,
+        role: member.userId === room.ownerId ? 'owner' : member.role,
+      })),
+      invitedUserIds: Array.from(this.invites.get(roomId) ?? []),
+      bannedUserIds: Array.from(this.bans.get(roomId) ?? []),
+    });
+  }
+
+  async findByMember(userId: string) {
+    const roomIds = Array.from(this.rooms.keys()).filter(roomId =>
+      this.members.get(roomId)?.has(userId)
+    );
+    return Promise.all(roomIds.map(async roomId => (await this.findById(roomId))!));
+  }
+
+  async addMember(roomId: string, userId: string, joinedAt: string) {
+    const members = this.entries(this.members, roomId, () => new Map<string, ChatRoomMember>());
+    if (members.has(userId)) return false;
+    members.set(userId, { userId, role: 'member', joinedAt });
+    return true;
+  }
+
+  async removeMember(roomId: string, userId: string) {
+    this.members.get(roomId)?.delete(userId);
+  }
+
+  async isMember(roomId: string, userId: string) {
+    return this.members.get(roomId)?.has(userId) ?? false;
+  }
+
+  async setRole(roomId: string, userId: string, role: ChatRoomRole) {
+    const member = this.members.get(roomId)?.get(userId);
+    if (!member) return false;
+    member.role = role;
+    return true;
+  }
+
+  async addInvite(roomId: string, userId: string) {
+    this.entries(this.invites, roomId, () => new Set<string>()).add(userId);
+  }
+
+  async removeInvite(roomId: string, userId: string) {
+    return this.invites.get(roomId)?.delete(userId) ?? false;
+  }
+
+  async addBan(roomId: string, userId: string) {
+    this.entries(this.bans, roomId, () => new Set<string>()).add(userId);
+  }
+
+  async removeBan(roomId: string, userId: string) {
+    this.bans.get(roomId)?.delete(userId);
+  }
+
+  async isBanned(roomId: string, userId: string) {
+    return this.bans.get(roomId)?.has(userId) ?? false;
+  }
+
+  async remove(room: ChatRoom) {
+    this.members.delete(room.id);
+    this.invites.delete(room.id);
+    this.bans.delete(room.id);
+    return this.rooms.delete(room.id);
+  }
+}
+
+describe('ChatService', () => {
+  let store: InMemoryChatRoomStore;
+  let messagingService: {
+    sendMessage: jest.Mock;
+    getChannel: jest.Mock;
+    setChannelRetention: jest.Mock;
+    getMessage: jest.Mock;
+    editMessage: jest.Mock;
+    deleteMessage: jest.Mock;
+  };
+  let service: ChatService;
+
+  // Owned by `owner`, with `mod` as a moderator and `member` as a plain member
+  const createRoom = async (joinPolicy: 'open' | 'invite' = 'open') => {
+    const room = await service.createRoom({
+      name: 'Team',
+      ownerId: 'owner',
+      participants: ['mod', 'member'],
+      joinPolicy,
+    });
+    return service.updateMemberRole(room.id, 'owner', 'mod', { role: 'moderator' });
+  };
+
+  const sendAs = (roomId: string, senderId: string) =>
+    service.sendMessage({ roomId, senderId, content: 'hi', channel: roomId });
+
+  // Messages the messaging service knows about, by id
+  const messages = new Map<string, Message>();
+
+  const chatMessage = (
+    id: string,
+    channel: string,
+    userId: string,
+    changes: Partial<Message> = {}
+  ) => {
+    messages.set(id, {
+      id,
+      channel,
+      event: 'chat_message',
+      content: 'hi',
+      userId,
+      timestamp: new Date().toISOString(),
+      ...changes,
+    });
+    return id;
+  };
+
+  beforeEach(() => {
+    messages.clear();
+    store = new InMemoryChatRoomStore();
+    messagingService = {
+      sendMessage: jest.fn(async message => ({ id: 'message-1', ...message })),
+      setChannelRetention: jest.fn(async (_channel: string, seconds: number) => seconds),
+      getChannel: jest.fn(async (channel: string) => ({ channel, occupied: true })),
+      getMessage: jest.fn(),
+      editMessage: jest.fn(async (id: string, content: string) => ({
+        ...messages.get(id),
+        content,
+      })),
+      deleteMessage: jest.fn(async (id: string, deletedBy: string) => ({
+        ...messages.get(id),
+        content: '',
+        deletedBy,
+      })),
+    };
+    messagingService.getMessage.mockImplementation(async (id: string) => messages.get(id) ?? null);
+    service = new ChatService(
+      messagingService as unknown as MessagingService,
+      store as unknown as ChatRoomStore
+    );
+  });
+
+  describe('rooms', () => {
+    it('should create a room owned by its creator, with its participants as members', async () => {
+      const room = await service.createRoom({
+        name: 'Team',
+        ownerId: 'owner',
+        participants: ['u1', 'owner'],
+      });
+
+      expect(room.id).toMatch(/^chat-room-/);
+      expect(room.members.map(member => [member.userId, member.role])).toEqual([
+        ['owner', 'owner'],
+        ['u1', 'member'],
+      ]);
+      expect(await service.isRoomMember(room.id, 'u1')).toBe(true);
+      expect(await service.listRooms('u1')).toEqual([room]);
+    });
+
+    it('should hide rooms from non-members', async () => {
+      const room = await createRoom();
+
+      await expect(service.getRoom(room.id, 'outsider')).rejects.toBeInstanceOf(NotFoundException);
+      await expect(
+        service.updateRoom(room.id, 'outsider', { name: 'Renamed' })
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('should only show participants to members', async () => {
+      const room = await createRoom('invite');
+
+      await expect(service.getRoomParticipants(room.id, 'outsider')).rejects.toBeInstanceOf(
+        NotFoundException
+      );
+      expect(messagingService.getChannel).not.toHaveBeenCalled();
+      expect(await service.getRoomParticipants(room.id, 'member')).toEqual({
+        channel: room.id,
+        occupied: true,
+      });
+    });
+
+    it('should let the owner and moderators update the room', async () => {
+      const room = await createRoom();
+
+      await expect(
+        service.updateRoom(room.id, 'member', { name: 'Renamed' })
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      const updated = await service.updateRoom(room.id, 'mod', {
+        name: 'Renamed',
+        joinPolicy: 'invite',
+      });
+      expect(updated).toMatchObject({ name: 'Renamed', joinPolicy: 'invite' });
+      expect((await service.getRoom(room.id, 'member')).name).toBe('Renamed');
+    });
+
+    it('should only let the owner set the room retention', async () => {
+      const room = await createRoom();
+
+      await expect(service.setRoomRetention(room.id, 'mod', 600)).rejects.toBeInstanceOf(
+        ForbiddenException
+      );
+      expect(await service.setRoomRetention(room.id, 'owner', 600)).toEqual({
+        roomId: room.id,
+        seconds: 600,
+      });
+      expect(messagingService.setChannelRetention).toHaveBeenCalledWith(room.id, 600);
+    });
+  });
+
+  describe('updateMemberRole', () => {
+    it('should only let the owner change roles, and never their own', async () => {
+      const room = await createRoom();
+
+      await expect(
+        service.updateMemberRole(room.id, 'mod', 'member', { role: 'moderator' })
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(
+        service.updateMemberRole(room.id, 'owner', 'owner', { role: 'member' })
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.updateMemberRole(room.id, 'owner', 'outsider', { role: 'member' })
+      ).rejects.toBeInstanceOf(NotFoundException);
+
+      const updated = await service.updateMemberRole(room.id, 'owner', 'mod', { role: 'member' });
+      expect(updated.members.find(member => member.userId === 'mod')?.role).toBe('member');
+      await expect(
+        service.updateRoom(room.id, 'mod', { name: 'Renamed' })
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('archiveRoom', () => {
+    it('should only let the owner archive the room', async () => {
+      const room = await createRoom();
+
+      await expect(service.archiveRoom(room.id, 'mod')).rejects.toBeInstanceOf(ForbiddenException);
+
+      const archived = await service.archiveRoom(room.id, 'owner');
+      expect(archived).toMatchObject({ archived: true, archivedAt: expect.any(String) });
+      expect(await service.archiveRoom(room.id, 'owner')).toEqual(archived);
+    });
+
+    it('should make the room read-only and hide it from the default listing', async () => {
+      const room = await createRoom();
+      await service.archiveRoom(room.id, 'owner');
+
+      await expect(
+        service.updateRoom(room.id, 'owner', { name: 'Renamed' })
+      ).rejects.toBeInstanceOf(ConflictException);
+      await expect(service.inviteUser(room.id, 'owner', 'guest')).rejects.toBeInstanceOf(
+        ConflictException
+      );
+      expect(await service.listRooms('member')).toEqual([]);
+      expect((await service.listRooms('member', true)).map(entry => entry.id)).toEqual([room.id]);
+      expect((await service.getRoom(room.id, 'member')).archived).toBe(true);
+    });
+  });
+
+  describe('deleteRoom', () => {
+    it('should only let the owner delete the room', async () => {
+      const room = await createRoom();
+
+      await expect(service.deleteRoom(room.id, 'mod')).rejects.toBeInstanceOf(ForbiddenException);
+
+      await service.deleteRoom(room.id, 'owner');
+      expect(await service.isRoomMember(room.id, 'member')).toBe(false);
+      await expect(service.getRoom(room.id, 'owner')).rejects.toBeInstanceOf(NotFoundException);
+      expect(messagingService.sendMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({ channel: 'chat-rooms', event: 'room_deleted' })
+      );
+    });
+  });
+
+  describe('leaveRoom', () => {
+    it('should not let the owner leave', async () => {
+      const room = await createRoom();
+
+      await expect(service.leaveRoom({ roomId: room.id, userId: 'owner' })).rejects.toBeInstanceOf(
+        BadRequestException
+      );
+      await service.leaveRoom({ roomId: room.id, userId: 'member' });
+      expect(await service.isRoomMember(room.id, 'member')).toBe(false);
+    });
+  });
+
+  describe('joinRoom', () => {
+    it('should let anyone join an open room', async () => {
+      const room = await createRoom();
+
+      await service.joinRoom({ roomId: room.id, userId: 'guest' });
+
+      expect(await service.isRoomMember(room.id, 'guest')).toBe(true);
+      expect((await service.getRoom(room.id, 'guest')).members).toContainEqual(
+        expect.objectContaining({ userId: 'guest', role: 'member' })
+      );
+    });
+
+    it('should only let invited users into an invite-only room, once per invite', async () => {
+      const room = await createRoom('invite');
+
+      await expect(service.joinRoom({ roomId: room.id, userId: 'guest' })).rejects.toBeInstanceOf(
+        ForbiddenException
+      );
+
+      await service.inviteUser(room.id, 'mod', 'guest');
+      await service.joinRoom({ roomId: room.id, userId: 'guest' });
+      expect(await service.isRoomMember(room.id, 'guest')).toBe(true);
+      expect((await service.getRoom(room.id, 'owner')).invitedUserIds).toEqual([]);
+
+      await service.leaveRoom({ roomId: room.id, userId: 'guest' });
+      await expect(service.joinRoom({ roomId: room.id, userId: 'guest' })).rejects.toBeInstanceOf(
+        ForbiddenException
+      );
+    });
+
+    it('should let an invite through only one of two racing joins', async () => {
+      const room = await createRoom('invite');
+      await service.inviteUser(room.id, 'owner', 'guest');
+
+      const results = await Promise.allSettled([
+        service.joinRoom({ roomId: room.id, userId: 'guest' }),
+        service.joinRoom({ roomId: room.id, userId: 'guest' }),
+      ]);
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(await service.isRoomMember(room.id, 'guest')).toBe(true);
+    });
+
+    it('should undo a join that a ban raced', async () => {
+      const room = await createRoom();
+      const addMember = store.addMember.bind(store);
+      jest.spyOn(store, 'addMember').mockImplementationOnce(async (...args) => {
+        await service.banUser(room.id, 'owner', 'guest');
+        return addMember(...args);
+      });
+
+      await expect(service.joinRoom({ roomId: room.id, userId: 'guest' })).rejects.toBeInstanceOf(
+        ForbiddenException
+      );
+      expect(await service.isRoomMember(room.id, 'guest')).toBe(false);
+    });
+
+    it('should refuse joins to archived rooms', async () => {
+      const room = await createRoom();
+      await service.archiveRoom(room.id, 'owner');
+
+      await expect(service.joinRoom({ roomId: room.id, userId: 'guest' })).rejects.toBeInstanceOf(
+        ConflictException
+      );
+    });
+  });
+
+  describe('inviteUser', () => {
+    it('should only let the owner and moderators invite', async () => {
+      const room = await createRoom('invite');
+
+      await expect(service.inviteUser(room.id, 'member', 'guest')).rejects.toBeInstanceOf(
+        ForbiddenException
+      );
+      await expect(service.inviteUser(room.id, 'outsider', 'guest')).rejects.toBeInstanceOf(
+        NotFoundException
+      );
+
+      const updated = await service.inviteUser(room.id, 'owner', 'guest');
+      expect(updated.invitedUserIds).toEqual(['guest']);
+    });
+
+    it('should not invite banned users', async () => {
+      const room = await createRoom('invite');
+      await service.banUser(room.id, 'owner', 'guest');
+
+      await expect(service.inviteUser(room.id, 'mod', 'guest')).rejects.toBeInstanceOf(
+        BadRequestException
+      );
+    });
+  });
+
+  describe('kickUser and banUser', () => {
+    it('should let a kicked member rejoin an open room', async () => {
+      const room = await createRoom();
+
+      await service.kickUser(room.id, 'owner', 'member');
+      expect(await service.isRoomMember(room.id, 'member')).toBe(false);
+
+      await service.joinRoom({ roomId: room.id, userId: 'member' });
+      expect(await service.isRoomMember(room.id, 'member')).toBe(true);
+    });
+
+    it('should keep banned users out until they are unbanned', async () => {
+      const room = await createRoom('invite');
+      await service.inviteUser(room.id, 'owner', 'guest');
+
+      const banned = await service.banUser(room.id, 'owner', 'member');
+      await service.banUser(room.id, 'owner', 'guest');
+      expect(banned.members.map(member => member.userId)).not.toContain('member');
+      expect(await service.isRoomMember(room.id, 'member')).toBe(false);
+      expect((await service.getRoom(room.id, 'owner')).invitedUserIds).toEqual([]);
+      await expect(service.joinRoom({ roomId: room.id, userId: 'member' })).rejects.toBeInstanceOf(
+        ForbiddenException
+      );
+
+      await service.unbanUser(room.id, 'owner', 'member');
+      await service.inviteUser(room.id, 'owner', 'member');
+      await service.joinRoom({ roomId: room.id, userId: 'member' });
+      expect(await service.isRoomMember(room.id, 'member')).toBe(true);
+    });
+
+    it('should only let the owner kick or ban, and never the owner', async () => {
+      const room = await createRoom();
+
+      await expect(service.kickUser(room.id, 'mod', 'member')).rejects.toBeInstanceOf(
+        ForbiddenException
+      );
+      await expect(service.banUser(room.id, 'mod', 'member')).rejects.toBeInstanceOf(
+        ForbiddenException
+      );
+      await expect(service.kickUser(room.id, 'owner', 'owner')).rejects.toBeInstanceOf(
+        BadRequestException
+      );
+      await expect(service.banUser(room.id, 'owner', 'owner')).rejects.toBeInstanceOf(
+        BadRequestException
+      );
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should send members messages to the room channel', async () => {
+      const room = await createRoom();
+
+      const result = await service.sendMessage({
+        roomId: room.id,
+        senderId: 'member',
+        content: 'hi',
+        channel: room.id,
+        clientMessageId: 'c1',
+      });
+
+      expect(result).toMatchObject({ sent: true, messageId: 'message-1', senderId: 'member' });
+      expect(messagingService.sendMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({ channel: room.id, event: 'chat_message', userId: 'member' }),
+        { clientMessageId: 'c1' }
+      );
+    });
+
+    it('should refuse non-members, kicked and banned users with 403', async () => {
+      const room = await createRoom();
+      await service.kickUser(room.id, 'owner', 'member');
+      await service.banUser(room.id, 'owner', 'mod');
+
+      for (const senderId of ['outsider', 'member', 'mod']) {
+        await expect(sendAs(room.id, senderId)).rejects.toBeInstanceOf(ForbiddenException);
+      }
+    });
+
+    it('should refuse messages to archived rooms', async () => {
+      const room = await createRoom();
+      await service.archiveRoom(room.id, 'owner');
+
+      await expect(sendAs(room.id, 'member')).rejects.toBeInstanceOf(ConflictException);
+    });
+  });
+
+  describe('editMessage and deleteMessage', () => {
+    it.each([
+      ['the author', 'member', true],
+      ['the owner', 'owner', true],
+      ['a moderator', 'mod', true],
+      ['another member', 'guest', false],
+    ])('should let %s change a message: %s', async (_who, userId, allowed) => {
+      const room = await createRoom();
+      await service.joinRoom({ roomId: room.id, userId: 'guest' });
+      const messageId = chatMessage('m1', room.id, 'member');
+
+      const edit = service.editMessage(messageId, userId, { content: 'edited' });
+      const remove = service.deleteMessage(messageId, userId);
+      if (allowed) {
+        await expect(edit).resolves.toMatchObject({ content: 'edited' });
+        await expect(remove).resolves.toMatchObject({ content: '', deletedBy: userId });
+      } else {
+        await expect(edit).rejects.toBeInstanceOf(ForbiddenException);
+        await expect(remove).rejects.toBeInstanceOf(ForbiddenException);
+        expect(messagingService.editMessage).not.toHaveBeenCalled();
+        expect(messagingService.deleteMessage).not.toHaveBeenCalled();
+      }
+    });
+
+    it('should report messages in rooms the user is not in as not found', async () => {
+      const room = await createRoom();
+      const messageId = chatMessage('m1', room.id, 'member');
+
+      await expect(
+        service.editMessage(messageId, 'outsider', { content: 'edited' })
+      ).rejects.toBeInstanceOf(NotFoundException);
+      await expect(service.deleteMessage(messageId, 'outsider')).rejects.toBeInstanceOf(
+        NotFoundException
+      );
+    });
+
+    it('should treat non-chat and missing messages as not found', async () => {
+      const room = await createRoom();
+      const systemMessage = chatMessage('m1', room.id, 'owner', { event: 'room_updated' });
+
+      await expect(service.deleteMessage(systemMessage, 'owner')).rejects.toBeInstanceOf(
+        NotFoundException
+      );
+      await expect(service.deleteMessage('missing', 'owner')).rejects.toBeInstanceOf(
+        NotFoundException
+      );
+    });
+
+    it('should not edit deleted messages or change messages in archived rooms', async () => {
+      const room = await createRoom();
+      const deleted = chatMessage('m1', room.id, 'member', { deletedAt: new Date().toISOString() });
+      await expect(
+        service.editMessage(deleted, 'member', { content: 'edited' })
+      ).rejects.toBeInstanceOf(ConflictException);
+
+      const messageId = chatMessage('m2', room.id, 'member');
+      await service.archiveRoom(room.id, 'owner');
+      await expect(service.deleteMessage(messageId, 'owner')).rejects.toBeInstanceOf(
+        ConflictException
+      );
+    });
+  });
+});
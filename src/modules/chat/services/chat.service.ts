@@ -1,32 +1,264 @@
-import { Injectable } from '@nestjs/common';
-import { MessagingService } from '../../../core/messaging/services/messaging.service';
-import { CreateRoomDto, JoinRoomDto, ChatMessagePayloadDto } from '../dto/chat.dto';
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { MessagingService, Message } from '../../../core/messaging/services/messaging.service';
+import { ChatRoomStore } from './chat-room.store';
+import { ChatRoom, ChatRoomRole } from '../interfaces/chat-room.interface';
+import {
+  CreateRoomDto,
+  JoinRoomDto,
+  UpdateRoomDto,
+  UpdateRoomMemberDto,
+  ChatMessagePayloadDto,
+  EditChatMessageDto,
+} from '../dto/chat.dto';
+
+// Roles allowed to change a room's details
+const ROOM_EDITOR_ROLES: ChatRoomRole[] = ['owner', 'moderator'];
+const CHAT_MESSAGE_EVENT = 'chat_message';
 
 @Injectable()
 export class ChatService {
-  constructor(private readonly messagingService: MessagingService) {}
+  constructor(
+    private readonly messagingService: MessagingService,
+    private readonly roomStore: ChatRoomStore
+  ) {}
+
+  async isRoomMember(roomId: string, userId: string): Promise<boolean> {
+    return this.roomStore.isMember(roomId, userId);
+  }
+
+  private getRole(room: ChatRoom, userId: string): ChatRoomRole | undefined {
+    return room.members.find(member => member.userId === userId)?.role;
+  }
+
+  private async findRoom(roomId: string): Promise<ChatRoom> {
+    const room = await this.roomStore.findById(roomId);
+    if (!room) {
+      throw new NotFoundException(`Chat room ${roomId} not found`);
+    }
+    return room;
+  }
+
+  /**
+   * Rooms are only visible to their members; others get the same 404 as
+   * for a room that does not exist.
+   */
+  private async findMemberRoom(roomId: string, userId: string): Promise<ChatRoom> {
+    const room = await this.roomStore.findById(roomId);
+    if (!room || !this.getRole(room, userId)) {
+      throw new NotFoundException(`Chat room ${roomId} not found`);
+    }
+    return room;
+  }
+
+  private assertRole(room: ChatRoom, userId: string, roles: ChatRoomRole[], message: string) {
+    if (!roles.includes(this.getRole(room, userId)!)) {
+      throw new ForbiddenException(message);
+    }
+  }
+
+  /**
+   * Looks up a member a moderation action targets. The owner cannot be the
+   * target of one.
+   */
+  private getModeratedMember(room: ChatRoom, userId: string) {
+    const member = room.members.find(entry => entry.userId === userId);
+    if (!member) {
+      throw new NotFoundException(`User ${userId} is not a member of chat room ${room.id}`);
+    }
+    if (member.role === 'owner') {
+      throw new BadRequestException('The room owner cannot be removed, banned or reassigned');
+    }
+    return member;
+  }
+
+  private async saveRoom(room: ChatRoom, changes: Partial<ChatRoom>): Promise<ChatRoom> {
+    return this.roomStore.save({ ...room, ...changes, updatedAt: new Date().toISOString() });
+  }
+
+  private assertNotArchived(room: ChatRoom) {
+    if (room.archived) {
+      throw new ConflictException(`Chat room ${room.id} is archived`);
+    }
+  }
+
+  async createRoom(createRoomDto: CreateRoomDto & { ownerId: string }) {
+    const { ownerId, participants = [], ...details } = createRoomDto;
+    const now = new Date().toISOString();
+    const memberIds = Array.from(new Set([ownerId, ...participants]));
+
+    const room: ChatRoom = {
+      id: `chat-room-${randomUUID()}`,
+      name: details.name,
+      description: details.description,
+      ownerId,
+      members: memberIds.map(userId => ({
+        userId,
+        role: userId === ownerId ? 'owner' : 'member',
+        joinedAt: now,
+      })),
+      joinPolicy: details.joinPolicy ?? 'open',
+      invitedUserIds: [],
+      bannedUserIds: [],
+      archived: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.roomStore.save(room);
+    await Promise.all(memberIds.map(userId => this.roomStore.addMember(room.id, userId, now)));
 
-  async createRoom(createRoomDto: CreateRoomDto) {
-    const roomChannel = `chat-room-${Date.now()}`;
-    
     await this.messagingService.sendMessage({
       channel: 'chat-rooms',
       event: 'room_created',
-      content: `Room ${roomChannel} created`,
+      content: `Room ${room.id} created`,
       metadata: {
-        roomId: roomChannel,
-        ...createRoomDto
+        roomId: room.id,
+        name: room.name,
+        description: room.description,
+        joinPolicy: room.joinPolicy,
+        ownerId
       }
     });
 
+    return room;
+  }
+
+  async listRooms(userId: string, includeArchived = false): Promise<ChatRoom[]> {
+    const rooms = await this.roomStore.findByMember(userId);
+    return includeArchived ? rooms : rooms.filter(room => !room.archived);
+  }
+
+  async getRoom(roomId: string, userId: string): Promise<ChatRoom> {
+    return this.findMemberRoom(roomId, userId);
+  }
+
+  async updateRoom(roomId: string, userId: string, updateRoomDto: UpdateRoomDto): Promise<ChatRoom> {
+    const room = await this.findMemberRoom(roomId, userId);
+    this.assertRole(room, userId, ROOM_EDITOR_ROLES, 'Only the room owner or a moderator can update the room');
+    this.assertNotArchived(room);
+
+    const updated = await this.saveRoom(room, {
+      ...(updateRoomDto.name !== undefined ? { name: updateRoomDto.name } : {}),
+      ...(updateRoomDto.description !== undefined ? { description: updateRoomDto.description } : {}),
+      ...(updateRoomDto.joinPolicy !== undefined ? { joinPolicy: updateRoomDto.joinPolicy } : {}),
+    });
+
+    await this.messagingService.sendMessage({
+      channel: roomId,
+      event: 'room_updated',
+      content: `Room ${roomId} updated`,
+      userId,
+      metadata: {
+        name: updated.name,
+        description: updated.description,
+        joinPolicy: updated.joinPolicy
+      }
+    });
+
+    return updated;
+  }
+
+  async archiveRoom(roomId: string, userId: string): Promise<ChatRoom> {
+    const room = await this.findMemberRoom(roomId, userId);
+    this.assertRole(room, userId, ['owner'], 'Only the room owner can archive the room');
+    if (room.archived) {
+      return room;
+    }
+
+    const now = new Date().toISOString();
+    const archived: ChatRoom = { ...room, archived: true, archivedAt: now, updatedAt: now };
+    await this.roomStore.save(archived);
+
+    await this.messagingService.sendMessage({
+      channel: roomId,
+      event: 'room_archived',
+      content: `Room ${roomId} archived`,
+      userId,
+      metadata: {
+        timestamp: now
+      }
+    });
+
+    return archived;
+  }
+
+  async deleteRoom(roomId: string, userId: string): Promise<void> {
+    const room = await this.findMemberRoom(roomId, userId);
+    this.assertRole(room, userId, ['owner'], 'Only the room owner can delete the room');
+
+    await this.roomStore.remove(room);
+
+    await this.messagingService.sendMessage({
+      channel: 'chat-rooms',
+      event: 'room_deleted',
+      content: `Room ${roomId} deleted`,
+      userId,
+      metadata: {
+        roomId
+      }
+    });
+  }
+
+  /**
+   * Sets how long the room's message history is kept. Only the owner may
+   * change it; admins can also use the messaging retention endpoint.
+   */
+  async setRoomRetention(roomId: string, userId: string, seconds: number) {
+    const room = await this.findMemberRoom(roomId, userId);
+    this.assertRole(room, userId, ['owner'], 'Only the room owner can change the room retention');
+
     return {
-      roomId: roomChannel,
-      ...createRoomDto
+      roomId,
+      seconds: await this.messagingService.setChannelRetention(roomId, seconds),
     };
   }
 
+  /**
+   * Members rejoining is a no-op. Otherwise banned users are refused, and
+   * invite-only rooms need a pending invite, which joining uses up.
+   */
   async joinRoom(joinRoomDto: JoinRoomDto) {
     const { roomId, userId } = joinRoomDto;
+    const room = await this.findRoom(roomId);
+    this.assertNotArchived(room);
+
+    if (this.getRole(room, userId)) {
+      return {
+        roomId,
+        userId,
+        joined: true
+      };
+    }
+    if (room.bannedUserIds.includes(userId)) {
+      throw new ForbiddenException('You are banned from this room');
+    }
+    // Using up the invite is atomic, so each invite lets one join through
+    if (room.joinPolicy === 'invite' && !(await this.roomStore.removeInvite(roomId, userId))) {
+      throw new ForbiddenException('This room is invite-only');
+    }
+
+    const timestamp = new Date().toISOString();
+    const added = await this.roomStore.addMember(roomId, userId, timestamp);
+    // Banning records the ban before removing the member, so checking after
+    // joining catches a ban that raced the join
+    if (await this.roomStore.isBanned(roomId, userId)) {
+      await this.roomStore.removeMember(roomId, userId);
+      throw new ForbiddenException('You are banned from this room');
+    }
+    if (!added) {
+      return {
+        roomId,
+        userId,
+        joined: true
+      };
+    }
 
     await this.messagingService.sendMessage({
       channel: roomId,
@@ -35,7 +267,7 @@ export class ChatService {
       userId,
       metadata: {
         userId,
-        timestamp: new Date().toISOString()
+        timestamp
       }
     });
 
@@ -48,6 +280,13 @@ export class ChatService {
 
   async leaveRoom(joinRoomDto: JoinRoomDto) {
     const { roomId, userId } = joinRoomDto;
+    const room = await this.findMemberRoom(roomId, userId);
+    if (room.ownerId === userId) {
+      throw new BadRequestException('The room owner cannot leave; archive or delete the room instead');
+    }
+
+    const timestamp = new Date().toISOString();
+    await this.roomStore.removeMember(roomId, userId);
 
     await this.messagingService.sendMessage({
       channel: roomId,
@@ -56,7 +295,7 @@ export class ChatService {
       userId,
       metadata: {
         userId,
-        timestamp: new Date().toISOString()
+        timestamp
       }
     });
 
@@ -67,21 +306,131 @@ export class ChatService {
     };
   }
 
-  async sendMessage(messageDto: ChatMessagePayloadDto) {
-    const { roomId, content, senderId } = messageDto;
+  async inviteUser(roomId: string, actorId: string, userId: string): Promise<ChatRoom> {
+    const room = await this.findMemberRoom(roomId, actorId);
+    this.assertRole(room, actorId, ROOM_EDITOR_ROLES, 'Only the room owner or a moderator can invite users');
+    this.assertNotArchived(room);
+
+    if (room.bannedUserIds.includes(userId)) {
+      throw new BadRequestException(`User ${userId} is banned from this room`);
+    }
+    if (this.getRole(room, userId) || room.invitedUserIds.includes(userId)) {
+      return room;
+    }
+
+    await this.roomStore.addInvite(roomId, userId);
 
     await this.messagingService.sendMessage({
       channel: roomId,
-      event: 'chat_message',
+      event: 'user_invited',
+      content: `User ${userId} invited`,
+      userId: actorId,
+      metadata: {
+        userId,
+        invitedBy: actorId
+      }
+    });
+
+    return this.findRoom(roomId);
+  }
+
+  async updateMemberRole(
+    roomId: string,
+    actorId: string,
+    userId: string,
+    updateMemberDto: UpdateRoomMemberDto
+  ): Promise<ChatRoom> {
+    const room = await this.findMemberRoom(roomId, actorId);
+    this.assertRole(room, actorId, ['owner'], 'Only the room owner can change member roles');
+    this.getModeratedMember(room, userId);
+
+    if (!(await this.roomStore.setRole(roomId, userId, updateMemberDto.role))) {
+      throw new NotFoundException(`User ${userId} is not a member of chat room ${roomId}`);
+    }
+    return this.findRoom(roomId);
+  }
+
+  /**
+   * Removes a member, who may join again if the room's policy allows it.
+   * Use `banUser` to keep them out.
+   */
+  async kickUser(roomId: string, actorId: string, userId: string): Promise<ChatRoom> {
+    const room = await this.findMemberRoom(roomId, actorId);
+    this.assertRole(room, actorId, ['owner'], 'Only the room owner can remove members');
+    this.getModeratedMember(room, userId);
+
+    await this.roomStore.removeMember(roomId, userId);
+
+    await this.messagingService.sendMessage({
+      channel: roomId,
+      event: 'user_removed',
+      content: `User ${userId} removed`,
+      userId: actorId,
+      metadata: {
+        userId,
+        removedBy: actorId
+      }
+    });
+
+    return this.findRoom(roomId);
+  }
+
+  async banUser(roomId: string, actorId: string, userId: string): Promise<ChatRoom> {
+    const room = await this.findMemberRoom(roomId, actorId);
+    this.assertRole(room, actorId, ['owner'], 'Only the room owner can ban users');
+    if (userId === room.ownerId) {
+      throw new BadRequestException('The room owner cannot be removed, banned or reassigned');
+    }
+
+    // The ban goes first, so a join racing it sees the ban afterwards
+    await this.roomStore.addBan(roomId, userId);
+    await this.roomStore.removeMember(roomId, userId);
+    await this.roomStore.removeInvite(roomId, userId);
+
+    await this.messagingService.sendMessage({
+      channel: roomId,
+      event: 'user_banned',
+      content: `User ${userId} banned`,
+      userId: actorId,
+      metadata: {
+        userId,
+        bannedBy: actorId
+      }
+    });
+
+    return this.findRoom(roomId);
+  }
+
+  async unbanUser(roomId: string, actorId: string, userId: string): Promise<ChatRoom> {
+    const room = await this.findMemberRoom(roomId, actorId);
+    this.assertRole(room, actorId, ['owner'], 'Only the room owner can unban users');
+
+    await this.roomStore.removeBan(roomId, userId);
+    return this.findRoom(roomId);
+  }
+
+  async sendMessage(messageDto: ChatMessagePayloadDto) {
+    const { roomId, content, senderId, clientMessageId } = messageDto;
+
+    const room = await this.findRoom(roomId);
+    if (!this.getRole(room, senderId)) {
+      throw new ForbiddenException('You are not a member of this room');
+    }
+    this.assertNotArchived(room);
+
+    const message = await this.messagingService.sendMessage({
+      channel: roomId,
+      event: CHAT_MESSAGE_EVENT,
       content,
       userId: senderId,
       metadata: {
         timestamp: new Date().toISOString()
       }
-    });
+    }, { clientMessageId });
 
     return {
       sent: true,
+      messageId: message.id,
       timestamp: new Date().toISOString(),
       roomId,
       senderId,
@@ -89,7 +438,56 @@ export class ChatService {
     };
   }
 
-  async getRoomParticipants(roomId: string) {
+  /**
+   * Finds a chat message the user may change: their own, or any message in
+   * a room they own or moderate. Messages in rooms the user is not a member
+   * of are reported as not found.
+   */
+  private async findChangeableMessage(messageId: string, userId: string) {
+    const message = await this.messagingService.getMessage(messageId);
+    const room = message?.event === CHAT_MESSAGE_EVENT
+      ? await this.roomStore.findById(message.channel)
+      : null;
+    if (!message || !room || !this.getRole(room, userId)) {
+      throw new NotFoundException(`Message ${messageId} not found`);
+    }
+    if (message.userId !== userId) {
+      this.assertRole(
+        room,
+        userId,
+        ROOM_EDITOR_ROLES,
+        'Only the author, the room owner or a moderator can change this message'
+      );
+    }
+    this.assertNotArchived(room);
+    return message;
+  }
+
+  async editMessage(messageId: string, userId: string, editDto: EditChatMessageDto): Promise<Message> {
+    const message = await this.findChangeableMessage(messageId, userId);
+    if (message.deletedAt) {
+      throw new ConflictException(`Message ${messageId} has been deleted`);
+    }
+
+    const edited = await this.messagingService.editMessage(messageId, editDto.content, userId);
+    if (!edited) {
+      throw new NotFoundException(`Message ${messageId} not found`);
+    }
+    return edited;
+  }
+
+  async deleteMessage(messageId: string, userId: string): Promise<Message> {
+    await this.findChangeableMessage(messageId, userId);
+
+    const deleted = await this.messagingService.deleteMessage(messageId, userId);
+    if (!deleted) {
+      throw new NotFoundException(`Message ${messageId} not found`);
+    }
+    return deleted;
+  }
+
+  async getRoomParticipants(roomId: string, userId: string) {
+    await this.findMemberRoom(roomId, userId);
     return this.messagingService.getChannel(roomId);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,69 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { EventsController } from './events.controller';
+import { SSEService } from '../../../libs/messaging/sse';
+import { AuthService } from '../../auth/services/auth.service';
+
+const createRequest = () =>
+  Object.assign(new EventEmitter(), {
+    destroyed: false,
+    headers: { authorization: 'Bearer token' },
+    query: {},
+  });
+
+const disconnect = (req: ReturnType<typeof createRequest>) => {
+  req.destroyed = true;
+  req.emit('close');
+};
+
+describe('EventsController', () => {
+  let sseService: {
+    addClient: jest.Mock;
+    removeClient: jest.Mock;
+    sendToClient: jest.Mock;
+    authorizeTopics: jest.Mock;
+  };
+  let authService: { verifySession: jest.Mock };
+  let controller: EventsController;
+  const res = { writableEnded: false } as Response;
+
+  beforeEach(() => {
+    sseService = {
+      addClient: jest.fn().mockReturnValue('client-1'),
+      removeClient: jest.fn().mockResolvedValue(undefined),
+      sendToClient: jest.fn(),
+      authorizeTopics: jest.fn().mockResolvedValue([]),
+    };
+    authService = { verifySession: jest.fn().mockResolvedValue({ id: 'u1', app_metadata: {} }) };
+    controller = new EventsController(
+      sseService as unknown as SSEService,
+      authService as unknown as AuthService
+    );
+  });
+
+  describe('stream', () => {
+    it('should remove the client when the connection closes', async () => {
+      const req = createRequest();
+
+      await controller.stream(req as unknown as Request, res, 'news');
+      expect(sseService.addClient).toHaveBeenCalledWith(res, ['news'], expect.anything());
+
+      disconnect(req);
+      expect(sseService.removeClient).toHaveBeenCalledWith('client-1');
+    });
+
+    it('should not add a client whose connection closed while the token was checked', async () => {
+      const req = createRequest();
+      authService.verifySession.mockImplementation(async () => {
+        disconnect(req);
+        return { id: 'u1', app_metadata: {} };
+      });
+
+      await controller.stream(req as unknown as Request, res, 'news');
+
+      expect(sseService.addClient).not.toHaveBeenCalled();
+      expect(sseService.sendToClient).not.toHaveBeenCalled();
+      expect(sseService.removeClient).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Req,
+  Res,
+  Request,
+  ValidationPipe,
+  HttpCode,
+  HttpStatus,
+  HttpException,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  UnauthorizedException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Request as ExpressRequest, Response } from 'express';
+import { User } from '@supabase/supabase-js';
+import { SSEService, SSEFilterError, SSEConnectionLimitError } from '../../../libs/messaging/sse';
+import { TopicAclSubject, createTopicAclSubject } from '../../../libs/messaging/acl';
+import { AuthService } from '../../auth/services/auth.service';
+import { RequestWithUser } from '../../auth/middleware/auth.middleware';
+import { UpdateEventTopicsDto, SubscribeEventTopicsDto } from '../dto/events.dto';
+
+/**
+ * Accepts `?topics=a,b` as well as repeated `?topics=a&topics=b`.
+ */
+function parseTopics(value?: string | string[]): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  return Array.from(new Set(
+    values.flatMap(entry => entry.split(',')).map(topic => topic.trim()).filter(Boolean)
+  ));
+}
+
+@Controller('events')
+export class EventsController {
+  constructor(
+    private readonly sseService: SSEService,
+    private readonly authService: AuthService
+  ) {}
+
+  /**
+   * `EventSource` cannot send headers, so the token may also be passed as
+   * the `access_token` query parameter, which request logs redact.
+   */
+  private async authenticate(req: ExpressRequest): Promise<User> {
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.startsWith('Bearer ')
+      ? authHeader.split(' ')[1]
+      : (req.query.access_token as string | undefined);
+
+    if (!token) {
+      throw new UnauthorizedException('Missing access token');
+    }
+
+    try {
+      return await this.authService.verifySession(token);
+    } catch (error) {
+      throw new UnauthorizedException('Invalid token');
+    }
+  }
+
+  private assertClientAccess(req: RequestWithUser, clientId: string) {
+    // Clients held by other instances are checked there, via the backplane
+    const client = this.sseService.getClient(clientId);
+    if (client && client.metadata?.userId !== req.user.id) {
+      throw new NotFoundException(`Event stream client ${clientId} not found`);
+    }
+  }
+
+  private async assertTopicAccess(subject: TopicAclSubject, topics: string[]) {
+    const denied = await this.sseService.authorizeTopics(subject, topics);
+    if (denied.length) {
+      throw new ForbiddenException(`Not allowed to subscribe to: ${denied.join(', ')}`);
+    }
+  }
+
+  @Get()
+  async stream(
+    @Req() req: ExpressRequest,
+    @Res() res: Response,
+    @Query('topics') topics?: string | string[]
+  ) {
+    // Listens before the token is checked: a client that goes while that is
+    // in flight is never added, and one that goes later is removed
+    let clientId: string | undefined;
+    req.on('close', () => {
+      if (clientId) void this.sseService.removeClient(clientId);
+    });
+
+    const user = await this.authenticate(req);
+    const subject = createTopicAclSubject(user);
+    const requestedTopics = parseTopics(topics);
+    await this.assertTopicAccess(subject, requestedTopics);
+
+    if (req.destroyed || res.writableEnded) {
+      return;
+    }
+
+    try {
+      clientId = this.sseService.addClient(res, requestedTopics, {
+        lastEventId: req.headers['last-event-id'] as string | undefined,
+        acceptEncoding: req.headers['accept-encoding'] as string | undefined,
+        metadata: { userId: subject.userId, roles: subject.roles },
+      });
+    } catch (error) {
+      if (error instanceof SSEConnectionLimitError && error.scope === 'user') {
+        throw new HttpException(error.message, HttpStatus.TOO_MANY_REQUESTS);
+      }
+      throw new ServiceUnavailableException(error.message);
+    }
+
+    // Lets the browser manage its subscriptions through the endpoints below
+    this.sseService.sendToClient(clientId, {
+      event: 'connected',
+      data: { clientId },
+    });
+  }
+
+  /**
+   * Payload schemas of every registered event, for frontend codegen.
+   * `?format=ts` returns TypeScript declarations instead.
+   */
+  @Get('catalogue')
+  getCatalogue(@Res() res: Response, @Query('format') format?: string) {
+    if (format === 'ts') {
+      res.type('text/plain').send(this.sseService.getEventTypeDefinitions());
+      return;
+    }
+    res.json({
+      success: true,
+      data: this.sseService.getEventCatalogue()
+    });
+  }
+
+  @Post('clients/:clientId/subscribe')
+  @HttpCode(HttpStatus.OK)
+  async subscribe(
+    @Request() req: RequestWithUser,
+    @Param('clientId') clientId: string,
+    @Body(ValidationPipe) subscribeDto: SubscribeEventTopicsDto
+  ) {
+    this.assertClientAccess(req, clientId);
+    await this.assertTopicAccess(createTopicAclSubject(req.user), subscribeDto.topics);
+
+    try {
+      await this.sseService.subscribe(clientId, subscribeDto.topics, req.user.id, {
+        where: subscribeDto.where,
+        fields: subscribeDto.fields,
+      });
+    } catch (error) {
+      if (error instanceof SSEFilterError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    return {
+      success: true,
+      message: 'Subscribed to topics successfully',
+      data: { clientId, topics: subscribeDto.topics }
+    };
+  }
+
+  @Post('clients/:clientId/unsubscribe')
+  @HttpCode(HttpStatus.OK)
+  async unsubscribe(
+    @Request() req: RequestWithUser,
+    @Param('clientId') clientId: string,
+    @Body(ValidationPipe) updateDto: UpdateEventTopicsDto
+  ) {
+    this.assertClientAccess(req, clientId);
+    this.sseService.unsubscribe(clientId, updateDto.topics, req.user.id);
+    return {
+      success: true,
+      message: 'Unsubscribed from topics successfully',
+      data: { clientId, topics: updateDto.topics }
+    };
+  }
+}
@@ -0,0 +1,21 @@
+import { IsArray, IsString, ArrayNotEmpty, IsObject, IsOptional } from 'class-validator';
+import { SSEFilterExpression } from '../../../libs/messaging/sse';
+
+export class UpdateEventTopicsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  topics: string[];
+}
+
+export class SubscribeEventTopicsDto extends UpdateEventTopicsDto {
+  // Checked in full by the SSE service when the subscription is compiled
+  @IsObject()
+  @IsOptional()
+  where?: SSEFilterExpression;
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  fields?: string[];
+}
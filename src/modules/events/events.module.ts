@@ -0,0 +1,32 @@
+import { Module, NestModule, MiddlewareConsumer, RequestMethod, OnModuleInit } from '@nestjs/common';
+import { EventsController } from './controllers/events.controller';
+import { SSEModule, SSEService } from '../../libs/messaging/sse';
+import { AuthModule } from '../auth/auth.module';
+import { AuthMiddleware } from '../auth/middleware/auth.middleware';
+
+@Module({
+  imports: [SSEModule.forRoot(), AuthModule],
+  controllers: [EventsController],
+})
+export class EventsModule implements NestModule, OnModuleInit {
+  constructor(private readonly sseService: SSEService) {}
+
+  onModuleInit() {
+    this.sseService.registerEventSchema('connected', {
+      description: 'First event on a stream; the id is needed to manage its subscriptions',
+      jsonSchema: {
+        type: 'object',
+        properties: { clientId: { type: 'string' } },
+        required: ['clientId'],
+      },
+    });
+  }
+
+  configure(consumer: MiddlewareConsumer) {
+    // The stream itself authenticates in the controller, since EventSource
+    // cannot send an Authorization header
+    consumer
+      .apply(AuthMiddleware)
+      .forRoutes({ path: 'events/clients/*', method: RequestMethod.ALL });
+  }
+}
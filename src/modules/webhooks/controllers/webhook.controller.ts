@@ -0,0 +1,169 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Request,
+  ValidationPipe,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  BadRequestException,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  WebhookService,
+  WebhookSubscription,
+  WebhookSubscriptionError,
+  WebhookEgressError,
+} from '../../../libs/messaging/webhook';
+import { RequestWithUser } from '../../auth/middleware/auth.middleware';
+import { CreateWebhookSubscriptionDto, UpdateWebhookSubscriptionDto } from '../dto/webhook.dto';
+
+const MAX_PAGE_SIZE = 100;
+// Unknown properties such as ownerId or health are rejected, not passed through
+const bodyValidation = new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true });
+
+@Controller('webhooks/subscriptions')
+export class WebhookController {
+  constructor(private readonly webhookService: WebhookService) {}
+
+  private async findOwnedSubscription(
+    req: RequestWithUser,
+    subscriptionId: string
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.webhookService.getSubscription(subscriptionId);
+    if (!subscription || subscription.ownerId !== req.user.id) {
+      throw new NotFoundException(`Webhook subscription ${subscriptionId} not found`);
+    }
+    return subscription;
+  }
+
+  private async withValidation<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof WebhookSubscriptionError || error instanceof WebhookEgressError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  async createSubscription(
+    @Request() req: RequestWithUser,
+    @Body(bodyValidation) createDto: CreateWebhookSubscriptionDto
+  ) {
+    const subscription = await this.withValidation(() =>
+      this.webhookService.subscribe(createDto.url, createDto.events, {
+        ownerId: req.user.id,
+        description: createDto.description,
+        filters: createDto.filters,
+        fields: createDto.fields,
+      })
+    );
+    return {
+      success: true,
+      message: 'Webhook subscription created successfully',
+      data: subscription
+    };
+  }
+
+  @Get()
+  async listSubscriptions(@Request() req: RequestWithUser) {
+    const subscriptions = await this.webhookService.getSubscriptions();
+    return {
+      success: true,
+      data: subscriptions.filter(sub => sub.ownerId === req.user.id)
+    };
+  }
+
+  @Get(':id')
+  async getSubscription(@Request() req: RequestWithUser, @Param('id') id: string) {
+    const subscription = await this.findOwnedSubscription(req, id);
+    return {
+      success: true,
+      data: subscription
+    };
+  }
+
+  @Patch(':id')
+  async updateSubscription(
+    @Request() req: RequestWithUser,
+    @Param('id') id: string,
+    @Body(bodyValidation) updateDto: UpdateWebhookSubscriptionDto
+  ) {
+    await this.findOwnedSubscription(req, id);
+    const { url, events, description, active, filters, fields } = updateDto;
+    const updates = Object.fromEntries(
+      Object.entries({ url, events, description, active, filters, fields })
+        .filter(([, value]) => value !== undefined)
+    );
+    const subscription = await this.withValidation(() =>
+      this.webhookService.updateSubscription(id, updates)
+    );
+    return {
+      success: true,
+      message: 'Webhook subscription updated successfully',
+      data: subscription
+    };
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deleteSubscription(@Request() req: RequestWithUser, @Param('id') id: string) {
+    await this.findOwnedSubscription(req, id);
+    await this.webhookService.unsubscribe(id);
+    return {
+      success: true,
+      message: 'Webhook subscription deleted successfully'
+    };
+  }
+
+  @Post(':id/test')
+  @HttpCode(HttpStatus.OK)
+  async sendTestEvent(@Request() req: RequestWithUser, @Param('id') id: string) {
+    await this.findOwnedSubscription(req, id);
+    const result = await this.webhookService.sendTestEvent(id);
+    return {
+      success: true,
+      data: result
+    };
+  }
+
+  @Get(':id/deliveries')
+  async getDeliveryAttempts(
+    @Request() req: RequestWithUser,
+    @Param('id') id: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number
+  ) {
+    await this.findOwnedSubscription(req, id);
+
+    const safePage = Math.max(page, 1);
+    const safeLimit = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const { attempts, total } = await this.webhookService.getDeliveryAttempts(
+      id,
+      (safePage - 1) * safeLimit,
+      safeLimit
+    );
+
+    return {
+      success: true,
+      data: attempts,
+      meta: {
+        total,
+        page: safePage,
+        limit: safeLimit,
+        hasMore: total > safePage * safeLimit
+      }
+    };
+  }
+}
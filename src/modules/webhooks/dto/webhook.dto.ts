@@ -0,0 +1,84 @@
+import {
+  IsString,
+  IsOptional,
+  IsArray,
+  IsBoolean,
+  IsUrl,
+  ArrayNotEmpty,
+  Allow,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class WebhookEventFilterDto {
+  @IsString()
+  path: string;
+
+  // Any scalar; kept through the whitelist without further validation
+  @Allow()
+  equals?: string | number | boolean | null;
+
+  @IsArray()
+  @IsOptional()
+  in?: Array<string | number | boolean | null>;
+
+  @IsBoolean()
+  @IsOptional()
+  exists?: boolean;
+}
+
+export class CreateWebhookSubscriptionDto {
+  @IsUrl({ require_tld: false })
+  url: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  events: string[];
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => WebhookEventFilterDto)
+  @IsOptional()
+  filters?: WebhookEventFilterDto[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  fields?: string[];
+}
+
+export class UpdateWebhookSubscriptionDto {
+  @IsUrl({ require_tld: false })
+  @IsOptional()
+  url?: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  @IsOptional()
+  events?: string[];
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => WebhookEventFilterDto)
+  @IsOptional()
+  filters?: WebhookEventFilterDto[];
+
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  fields?: string[];
+}
@@ -0,0 +1,20 @@
+import { Module, NestModule, MiddlewareConsumer, RequestMethod } from '@nestjs/common';
+import { WebhookController } from './controllers/webhook.controller';
+import { WebhookModule } from '../../libs/messaging/webhook';
+import { AuthModule } from '../auth/auth.module';
+import { AuthMiddleware } from '../auth/middleware/auth.middleware';
+
+@Module({
+  imports: [WebhookModule.forRoot(), AuthModule],
+  controllers: [WebhookController],
+})
+export class WebhooksModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(AuthMiddleware)
+      .forRoutes(
+        { path: 'webhooks/subscriptions', method: RequestMethod.ALL },
+        { path: 'webhooks/subscriptions/*', method: RequestMethod.ALL }
+      );
+  }
+}